@@ -1,57 +1,234 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import VideoUploader from './components/VideoUploader';
 import FrameCapturer from './components/FrameCapturer';
 import HandoutDisplay from './components/HandoutDisplay';
-import { generateHandoutContent } from './services/geminiService';
-import { AppState, CapturedFrame, HandoutData } from './types';
+import SettingsPanel from './components/SettingsPanel';
+import ProjectLibrary from './components/ProjectLibrary';
+import { generateHandoutContent, generateSectionedHandout } from './services/geminiService';
+import { createProject, loadProject, ProjectData, saveProjectData, saveProjectVideos } from './services/projectStore';
+import { DEFAULT_THEME_ID } from './services/themeService';
+import { DEFAULT_GENERATION_OPTIONS, withDefaultOptions } from './services/generationOptions';
+import { normalizeHandout } from './services/handoutContent';
+import { importImageFiles } from './services/imageImport';
+import { createClip } from './services/videoClips';
+import { sortChapters, splitFramesByChapter } from './services/chapters';
+import { AI_ERROR_DESCRIPTIONS, AIError, isCancelled } from './services/providers';
+import { setUsageProject } from './services/usageLedger';
+import { AppState, CapturedFrame, Chapter, GenerationOptions, HandoutData, HandoutTranslation, TranscriptSegment, VideoClip } from './types';
+
+const AUTOSAVE_DELAY_MS = 500;
+
+interface GenerationError {
+  title: string;
+  hint: string;
+  detail?: string; // The provider's own message
+  needsSettings?: boolean; // Retrying won't help until the provider settings change
+}
+
+const describeError = (err: unknown): GenerationError => {
+  if (err instanceof AIError) {
+    return { ...AI_ERROR_DESCRIPTIONS[err.kind], detail: err.message, needsSettings: err.kind === 'auth' || err.kind === 'rejected' };
+  }
+  return {
+    title: "Generation Failed",
+    hint: "Something went wrong while preparing the frames or writing the handout.",
+    detail: err instanceof Error ? err.message : undefined,
+  };
+};
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.UPLOAD);
-  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [videos, setVideos] = useState<VideoClip[]>([]);
   const [frames, setFrames] = useState<CapturedFrame[]>([]);
+  const [transcript, setTranscript] = useState<TranscriptSegment[] | null>(null);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
   const [handoutData, setHandoutData] = useState<HandoutData | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [translations, setTranslations] = useState<HandoutTranslation[]>([]);
+  const [themeId, setThemeId] = useState<string>(DEFAULT_THEME_ID);
+  const [generationOptions, setGenerationOptions] = useState<GenerationOptions>(DEFAULT_GENERATION_OPTIONS);
+  const [error, setError] = useState<GenerationError | null>(null);
+  const [generationStatus, setGenerationStatus] = useState("");
+  const generationAbort = useRef<AbortController | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const lastSaved = useRef<ProjectData | null>(null);
+
+  // Model calls are logged against the open project
+  useEffect(() => {
+    setUsageProject(projectId);
+  }, [projectId]);
+
+  // Autosave the open project shortly after anything changes
+  useEffect(() => {
+    if (!projectId) return;
+    const saved = lastSaved.current;
+    if (saved && saved.id === projectId && saved.frames === frames && saved.transcript === transcript && saved.chapters === chapters && saved.handoutData === handoutData && saved.translations === translations && saved.themeId === themeId && saved.generationOptions === generationOptions) {
+      return;
+    }
 
-  const handleVideoSelected = (file: File) => {
-    setVideoFile(file);
+    const timer = setTimeout(() => {
+      const data: ProjectData = { id: projectId, frames, transcript, chapters, handoutData, translations, themeId, generationOptions };
+      saveProjectData(data)
+        .then(() => { lastSaved.current = data; })
+        .catch(err => console.error("Autosave failed:", err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectId, frames, transcript, chapters, handoutData, translations, themeId, generationOptions]);
+
+  const startProject = async (clips: VideoClip[], initialFrames: CapturedFrame[], name?: string) => {
+    setVideos(clips);
+    setFrames(initialFrames);
+    setTranscript(null);
+    setChapters([]);
+    setHandoutData(null);
+    setTranslations([]);
+    setThemeId(DEFAULT_THEME_ID);
+    setGenerationOptions(DEFAULT_GENERATION_OPTIONS);
     setAppState(AppState.CAPTURE);
+
+    try {
+      const project = await createProject(clips, name);
+      lastSaved.current = { id: project.id, frames: [], transcript: null, chapters: [], handoutData: null, translations: [], themeId: DEFAULT_THEME_ID, generationOptions: DEFAULT_GENERATION_OPTIONS };
+      setProjectId(project.id);
+    } catch (err) {
+      // The app still works without storage (e.g. private browsing); it just won't be saved
+      console.error("Could not create project:", err);
+      setProjectId(null);
+    }
+  };
+
+  // Clips named "part 1", "part 2", ... start in that order; the playlist can be reordered later
+  const handleVideosSelected = (files: File[]) => startProject(
+    [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' })).map(createClip),
+    []
+  );
+
+  // Images-only mode: the project starts with the screenshots as its frames and never has a video
+  const handleImagesSelected = async (files: File[]) => {
+    const { frames: imported, skipped } = await importImageFiles(files);
+    if (imported.length === 0) {
+      alert("None of the selected files are PNG or JPEG images.");
+      return;
+    }
+    if (skipped.length > 0) {
+      alert(`Some files were skipped because they aren't PNG or JPEG images:\n\n${skipped.join('\n')}`);
+    }
+    // A picked folder names the project; loose files fall back to the default name
+    const folder = files[0].webkitRelativePath.split('/')[0];
+    await startProject([], imported, folder || undefined);
+  };
+
+  const handleVideosChange = (next: VideoClip[]) => {
+    setVideos(next);
+    if (projectId) {
+      saveProjectVideos(projectId, next).catch(err => console.error("Saving clips failed:", err));
+    }
+  };
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      const { data, videos: clips } = await loadProject(id);
+      if (!data.handoutData && clips.length === 0 && data.frames.length === 0) {
+        alert("This project's video is missing and it has no frames or handout yet.");
+        return;
+      }
+      lastSaved.current = data;
+      setProjectId(id);
+      setVideos(clips);
+      setFrames(data.frames);
+      setTranscript(data.transcript);
+      setChapters(data.chapters || []);
+      // Handouts saved by older versions are upgraded to the current shape as they open
+      setHandoutData(data.handoutData && normalizeHandout(data.handoutData));
+      setTranslations((data.translations || []).map(t => ({ ...t, data: normalizeHandout(t.data) })));
+      setThemeId(data.themeId || DEFAULT_THEME_ID);
+      setGenerationOptions(withDefaultOptions(data.generationOptions));
+      setError(null);
+      setAppState(data.handoutData ? AppState.PREVIEW : AppState.CAPTURE);
+    } catch (err: any) {
+      console.error("Could not open project:", err);
+      alert(`Could not open project.\n\nReason: ${err.message}`);
+    }
   };
 
   const handleGenerate = async (capturedFrames: CapturedFrame[]) => {
+    const controller = new AbortController();
+    generationAbort.current = controller;
     setFrames(capturedFrames);
     setAppState(AppState.GENERATING);
     setError(null);
 
     try {
-      const data = await generateHandoutContent(capturedFrames);
+      // Chapters only matter once they split the steps; a single run is written as one flat list
+      const sorted = sortChapters(chapters, videos);
+      const runs = splitFramesByChapter(capturedFrames, sorted);
+      const data = runs.length > 1
+        ? await generateSectionedHandout(
+            runs.map(run => ({ title: run.chapter?.title.trim() || undefined, frames: run.frames })),
+            transcript,
+            generationOptions,
+            setGenerationStatus,
+            controller.signal
+          )
+        : await generateHandoutContent(capturedFrames, transcript, generationOptions, undefined, controller.signal);
       setHandoutData(data);
+      // A fresh handout has different steps, so old translations no longer line up
+      setTranslations([]);
       setAppState(AppState.PREVIEW);
     } catch (err) {
+      if (isCancelled(err)) {
+        setAppState(AppState.CAPTURE);
+        return;
+      }
       console.error(err);
-      setError("We encountered an issue while generating your handout. This might be due to network connectivity or high traffic.");
+      setError(describeError(err));
       setAppState(AppState.ERROR);
+    } finally {
+      generationAbort.current = null;
+      setGenerationStatus("");
     }
   };
 
   const handleReset = () => {
     setAppState(AppState.UPLOAD);
-    setVideoFile(null);
+    setProjectId(null);
+    setVideos([]);
     setFrames([]);
+    setTranscript(null);
+    setChapters([]);
     setHandoutData(null);
+    setTranslations([]);
+    setThemeId(DEFAULT_THEME_ID);
+    setGenerationOptions(DEFAULT_GENERATION_OPTIONS);
     setError(null);
   };
 
   return (
     <div className="h-full w-full">
       {appState === AppState.UPLOAD && (
-        <VideoUploader onVideoSelected={handleVideoSelected} />
+        <div className="h-full flex">
+          <div className="flex-1 min-w-0">
+            <VideoUploader onVideosSelected={handleVideosSelected} onImagesSelected={handleImagesSelected} onOpenSettings={() => setShowSettings(true)} />
+          </div>
+          <ProjectLibrary onOpen={handleOpenProject} />
+        </div>
       )}
 
-      {appState === AppState.CAPTURE && videoFile && (
+      {appState === AppState.CAPTURE && (
         <FrameCapturer 
-          videoFile={videoFile} 
+          videos={videos}
+          onVideosChange={handleVideosChange}
+          frames={frames}
+          onFramesChange={setFrames}
+          transcript={transcript}
+          onTranscriptChange={setTranscript}
+          chapters={chapters}
+          onChaptersChange={setChapters}
+          generationOptions={generationOptions}
+          onGenerationOptionsChange={setGenerationOptions}
           onGenerate={handleGenerate} 
-          onBack={() => setAppState(AppState.UPLOAD)}
+          onBack={handleReset}
+          onOpenSettings={() => setShowSettings(true)}
         />
       )}
 
@@ -60,8 +237,15 @@ const App: React.FC = () => {
           <div className="w-16 h-16 border-4 border-indigo-200 border-t-indigo-600 rounded-full animate-spin mb-6"></div>
           <h2 className="text-2xl font-bold text-slate-800 mb-2">Analyzing Video Frames</h2>
           <p className="text-slate-500 max-w-md text-center px-4">
-            Gemini is watching your frames, identifying steps, and writing instructions...
+            The AI is watching your frames, identifying steps, and writing instructions...
           </p>
+          {generationStatus && <p className="mt-3 text-sm font-medium text-indigo-600">{generationStatus}</p>}
+          <button
+            onClick={() => generationAbort.current?.abort()}
+            className="mt-8 px-6 py-2.5 bg-white border border-slate-200 hover:bg-slate-100 text-slate-700 font-semibold rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
         </div>
       )}
 
@@ -74,10 +258,15 @@ const App: React.FC = () => {
               </svg>
             </div>
             
-            <h2 className="text-2xl font-bold text-slate-800 mb-2">Generation Failed</h2>
-            <p className="text-slate-500 mb-8">
-              {error || "Something went wrong while communicating with Gemini."}
+            <h2 className="text-2xl font-bold text-slate-800 mb-2">{error?.title || "Generation Failed"}</h2>
+            <p className={`text-slate-500 ${error?.detail ? 'mb-4' : 'mb-8'}`}>
+              {error?.hint || "Something went wrong while communicating with the AI provider."}
             </p>
+            {error?.detail && (
+              <p className="mb-8 p-3 bg-slate-50 rounded-lg text-xs text-slate-500 font-mono break-words text-start max-h-32 overflow-y-auto">
+                {error.detail}
+              </p>
+            )}
 
             <div className="flex gap-3 justify-center">
               <button
@@ -86,6 +275,14 @@ const App: React.FC = () => {
               >
                 Back to Editor
               </button>
+              {error?.needsSettings && (
+                <button
+                  onClick={() => setShowSettings(true)}
+                  className="px-6 py-2.5 bg-slate-100 hover:bg-slate-200 text-slate-700 font-semibold rounded-lg transition-colors"
+                >
+                  Settings
+                </button>
+              )}
               <button
                 onClick={() => handleGenerate(frames)}
                 className="px-6 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-md transition-colors flex items-center gap-2"
@@ -102,11 +299,21 @@ const App: React.FC = () => {
 
       {appState === AppState.PREVIEW && handoutData && (
         <HandoutDisplay 
+          key={projectId || 'unsaved'}
           data={handoutData} 
           frames={frames} 
+          onChange={setHandoutData}
+          translations={translations}
+          onTranslationsChange={setTranslations}
+          onFramesChange={setFrames}
+          themeId={themeId}
+          generationOptions={generationOptions}
+          onThemeChange={setThemeId}
           onReset={handleReset} 
         />
       )}
+
+      {showSettings && <SettingsPanel onClose={() => setShowSettings(false)} />}
     </div>
   );
 };
@@ -0,0 +1,30 @@
+import React, { useEffect, useState } from 'react';
+import { CapturedFrame } from '../types';
+import { flattenFrame, hasAnnotations } from '../services/annotationRenderer';
+
+interface AnnotatedImageProps {
+  frame: CapturedFrame;
+  alt: string;
+  className?: string;
+}
+
+// Shows a frame with its annotations drawn in, falling back to the raw capture while rendering
+const AnnotatedImage: React.FC<AnnotatedImageProps> = ({ frame, alt, className }) => {
+  const [src, setSrc] = useState(frame.dataUrl);
+
+  useEffect(() => {
+    if (!hasAnnotations(frame.annotations)) {
+      setSrc(frame.dataUrl);
+      return;
+    }
+    let cancelled = false;
+    flattenFrame(frame)
+      .then(url => { if (!cancelled) setSrc(url); })
+      .catch(err => console.error("Could not render annotations:", err));
+    return () => { cancelled = true; };
+  }, [frame.dataUrl, frame.annotations]);
+
+  return <img src={src} alt={alt} className={className} />;
+};
+
+export default AnnotatedImage;
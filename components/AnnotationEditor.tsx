@@ -0,0 +1,369 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Annotation, CapturedFrame, CropRect, FrameAnnotations } from '../types';
+import { calloutRadiusFor, drawAnnotatedImage, hasAnnotations } from '../services/annotationRenderer';
+import { useUndoableState } from '../hooks/useUndoableState';
+
+interface AnnotationEditorProps {
+  frame: CapturedFrame;
+  onSave: (annotations: FrameAnnotations | undefined) => void;
+  onClose: () => void;
+}
+
+type Tool = 'select' | 'arrow' | 'rect' | 'callout' | 'text' | 'blur' | 'pixelate' | 'crop';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const COLORS = ['#ef4444', '#f59e0b', '#22c55e', '#3b82f6', '#a855f7', '#0f172a'];
+const DEFAULT_FONT_SIZE = 0.03;
+const MIN_SIZE = 0.01;
+
+const TOOLS: { id: Tool; label: string; icon: string }[] = [
+  { id: 'select', label: 'Select / Move', icon: 'M15.042 21.672 13.684 16.6m0 0-2.51 2.225.569-9.47 5.227 7.917-3.286-.672Z' },
+  { id: 'arrow', label: 'Arrow', icon: 'M4.5 19.5l15-15m0 0H8.25m11.25 0v11.25' },
+  { id: 'rect', label: 'Rectangle', icon: 'M3.75 5.25h16.5v13.5H3.75z' },
+  { id: 'callout', label: 'Numbered callout', icon: 'M12 21a9 9 0 1 0 0-18 9 9 0 0 0 0 18Zm-1-12.5h1.5V16' },
+  { id: 'text', label: 'Text label', icon: 'M4.5 6V4.5h15V6M12 4.5v15m-3 0h6' },
+  { id: 'blur', label: 'Blur (redact)', icon: 'M12 3c3 4 6 7.5 6 11a6 6 0 0 1-12 0c0-3.5 3-7 6-11Z' },
+  { id: 'pixelate', label: 'Pixelate (redact)', icon: 'M3.75 3.75h5.25v5.25H3.75zM9 9h6v6H9zM15 15h5.25v5.25H15zM15 3.75h5.25V9H15zM3.75 15H9v5.25H3.75z' },
+  { id: 'crop', label: 'Crop', icon: 'M7.5 3.75V16.5h12.75M3.75 7.5H16.5v12.75' },
+];
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const normalizeRect = (a: Point, b: Point): CropRect => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+const moveShape = (shape: Annotation, dx: number, dy: number): Annotation => {
+  if (shape.type === 'arrow') {
+    return { ...shape, x1: shape.x1 + dx, y1: shape.y1 + dy, x2: shape.x2 + dx, y2: shape.y2 + dy };
+  }
+  return { ...shape, x: shape.x + dx, y: shape.y + dy };
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+// Bounding box in pixels, used for hit testing and the selection outline
+const shapeBounds = (shape: Annotation, width: number, height: number): CropRect => {
+  switch (shape.type) {
+    case 'arrow':
+      return normalizeRect({ x: shape.x1 * width, y: shape.y1 * height }, { x: shape.x2 * width, y: shape.y2 * height });
+    case 'callout': {
+      const r = calloutRadiusFor(width);
+      return { x: shape.x * width - r, y: shape.y * height - r, width: r * 2, height: r * 2 };
+    }
+    case 'text': {
+      const size = shape.fontSize * width;
+      return { x: shape.x * width, y: shape.y * height, width: shape.text.length * size * 0.62, height: size * 1.2 };
+    }
+    default:
+      return { x: shape.x * width, y: shape.y * height, width: shape.width * width, height: shape.height * height };
+  }
+};
+
+const AnnotationEditor: React.FC<AnnotationEditorProps> = ({ frame, onSave, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const { state: annotations, set: setAnnotations, undo, redo, canUndo, canRedo } =
+    useUndoableState<FrameAnnotations>(frame.annotations || { shapes: [] });
+  const [tool, setTool] = useState<Tool>('arrow');
+  const [color, setColor] = useState(COLORS[0]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const [draftCrop, setDraftCrop] = useState<CropRect | null>(null);
+  const dragStart = useRef<Point | null>(null);
+  const moveSession = useRef(0);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setImage(img);
+    img.src = frame.dataUrl;
+  }, [frame.dataUrl]);
+
+  // Redraw the whole scene whenever anything changes; frames are small enough that this stays smooth
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+    const width = image.naturalWidth;
+    const height = image.naturalHeight;
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const shapes = draft ? [...annotations.shapes, draft] : annotations.shapes;
+    drawAnnotatedImage(ctx, image, width, height, { shapes });
+
+    const crop = draftCrop || annotations.crop;
+    if (crop) {
+      // Dim everything outside the crop
+      ctx.save();
+      ctx.fillStyle = 'rgba(15, 23, 42, 0.6)';
+      ctx.beginPath();
+      ctx.rect(0, 0, width, height);
+      ctx.rect(crop.x * width, crop.y * height, crop.width * width, crop.height * height);
+      ctx.fill('evenodd');
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = Math.max(1, width * 0.002);
+      ctx.setLineDash([8, 6]);
+      ctx.strokeRect(crop.x * width, crop.y * height, crop.width * width, crop.height * height);
+      ctx.restore();
+    }
+
+    const selected = annotations.shapes.find(s => s.id === selectedId);
+    if (selected) {
+      const b = shapeBounds(selected, width, height);
+      const pad = Math.max(4, width * 0.005);
+      ctx.save();
+      ctx.strokeStyle = '#6366f1';
+      ctx.lineWidth = Math.max(1, width * 0.0015);
+      ctx.setLineDash([6, 4]);
+      ctx.strokeRect(b.x - pad, b.y - pad, b.width + pad * 2, b.height + pad * 2);
+      ctx.restore();
+    }
+  }, [image, annotations, draft, draftCrop, selectedId]);
+
+  const removeSelected = () => {
+    if (!selectedId) return;
+    setAnnotations(prev => ({ ...prev, shapes: prev.shapes.filter(s => s.id !== selectedId) }));
+    setSelectedId(null);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).tagName === 'INPUT') return;
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedId) {
+        e.preventDefault();
+        removeSelected();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        redo();
+      } else if (e.key === 'Escape') {
+        setSelectedId(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const toPoint = (e: React.PointerEvent): Point => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const hitTest = (p: Point): Annotation | null => {
+    if (!image) return null;
+    const width = image.naturalWidth;
+    const height = image.naturalHeight;
+    const px = { x: p.x * width, y: p.y * height };
+    const tolerance = Math.max(6, width * 0.008);
+
+    // Topmost shape wins
+    for (let i = annotations.shapes.length - 1; i >= 0; i--) {
+      const shape = annotations.shapes[i];
+      if (shape.type === 'arrow') {
+        const d = distanceToSegment(px, { x: shape.x1 * width, y: shape.y1 * height }, { x: shape.x2 * width, y: shape.y2 * height });
+        if (d <= tolerance) return shape;
+        continue;
+      }
+      const b = shapeBounds(shape, width, height);
+      if (px.x >= b.x - tolerance && px.x <= b.x + b.width + tolerance && px.y >= b.y - tolerance && px.y <= b.y + b.height + tolerance) {
+        return shape;
+      }
+    }
+    return null;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const p = toPoint(e);
+    (e.target as Element).setPointerCapture(e.pointerId);
+
+    if (tool === 'select') {
+      const hit = hitTest(p);
+      setSelectedId(hit?.id || null);
+      if (hit) {
+        dragStart.current = p;
+        moveSession.current++;
+      }
+      return;
+    }
+
+    if (tool === 'callout') {
+      const next = Math.max(0, ...annotations.shapes.map(s => (s.type === 'callout' ? s.number : 0))) + 1;
+      setAnnotations(prev => ({ ...prev, shapes: [...prev.shapes, { id: newId(), type: 'callout', x: p.x, y: p.y, number: next, color }] }));
+      return;
+    }
+
+    if (tool === 'text') {
+      const text = window.prompt("Label text:");
+      if (text && text.trim()) {
+        setAnnotations(prev => ({
+          ...prev,
+          shapes: [...prev.shapes, { id: newId(), type: 'text', x: p.x, y: p.y, text: text.trim(), color, fontSize: DEFAULT_FONT_SIZE }],
+        }));
+      }
+      return;
+    }
+
+    dragStart.current = p;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragStart.current;
+    if (!start) return;
+    const p = toPoint(e);
+
+    if (tool === 'select' && selectedId) {
+      const dx = p.x - start.x;
+      const dy = p.y - start.y;
+      dragStart.current = p;
+      // One undo step per drag, not per mouse move
+      setAnnotations(prev => ({
+        ...prev,
+        shapes: prev.shapes.map(s => (s.id === selectedId ? moveShape(s, dx, dy) : s)),
+      }), `move-${moveSession.current}`);
+      return;
+    }
+
+    const rect = normalizeRect(start, p);
+    switch (tool) {
+      case 'arrow':
+        setDraft({ id: 'draft', type: 'arrow', x1: start.x, y1: start.y, x2: p.x, y2: p.y, color });
+        break;
+      case 'rect':
+        setDraft({ id: 'draft', type: 'rect', ...rect, color });
+        break;
+      case 'blur':
+      case 'pixelate':
+        setDraft({ id: 'draft', type: 'redact', ...rect, mode: tool });
+        break;
+      case 'crop':
+        setDraftCrop(rect);
+        break;
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+
+    if (draftCrop) {
+      if (draftCrop.width > MIN_SIZE && draftCrop.height > MIN_SIZE) {
+        setAnnotations(prev => ({ ...prev, crop: draftCrop }));
+      }
+      setDraftCrop(null);
+    }
+
+    if (draft) {
+      const big = draft.type === 'arrow'
+        ? Math.hypot(draft.x2 - draft.x1, draft.y2 - draft.y1) > MIN_SIZE
+        : draft.type === 'rect' || draft.type === 'redact'
+          ? draft.width > MIN_SIZE && draft.height > MIN_SIZE
+          : true;
+      if (big) {
+        const shape = { ...draft, id: newId() };
+        setAnnotations(prev => ({ ...prev, shapes: [...prev.shapes, shape] }));
+      }
+      setDraft(null);
+    }
+  };
+
+  const selected = annotations.shapes.find(s => s.id === selectedId);
+
+  return (
+    <div className="no-print fixed inset-0 z-[100] bg-slate-900/95 flex flex-col">
+      {/* Toolbar */}
+      <div className="flex items-center gap-4 px-4 py-3 bg-slate-800 border-b border-slate-700">
+        <div className="flex gap-1">
+          {TOOLS.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTool(t.id)}
+              title={t.label}
+              className={`p-2 rounded-lg transition-colors ${tool === t.id ? 'bg-indigo-600 text-white' : 'text-slate-300 hover:bg-slate-700'}`}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                <path strokeLinecap="round" strokeLinejoin="round" d={t.icon} />
+              </svg>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-1.5">
+          {COLORS.map(c => (
+            <button
+              key={c}
+              onClick={() => {
+                setColor(c);
+                if (selected && selected.type !== 'redact') {
+                  setAnnotations(prev => ({ ...prev, shapes: prev.shapes.map(s => (s.id === selected.id ? { ...s, color: c } as Annotation : s)) }));
+                }
+              }}
+              className={`w-6 h-6 rounded-full border-2 ${color === c ? 'border-white scale-110' : 'border-transparent'}`}
+              style={{ backgroundColor: c }}
+              title={c}
+            />
+          ))}
+        </div>
+
+        <div className="flex gap-1 text-slate-300">
+          <button onClick={undo} disabled={!canUndo} className="px-2 py-1 rounded hover:bg-slate-700 disabled:opacity-30" title="Undo (Ctrl+Z)">Undo</button>
+          <button onClick={redo} disabled={!canRedo} className="px-2 py-1 rounded hover:bg-slate-700 disabled:opacity-30" title="Redo (Ctrl+Shift+Z)">Redo</button>
+          <button onClick={removeSelected} disabled={!selected} className="px-2 py-1 rounded hover:bg-slate-700 disabled:opacity-30" title="Delete selected (Del)">Delete</button>
+          {annotations.crop && (
+            <button onClick={() => setAnnotations(prev => ({ ...prev, crop: undefined }))} className="px-2 py-1 rounded hover:bg-slate-700">
+              Reset Crop
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1" />
+
+        <button onClick={onClose} className="px-4 py-2 text-slate-300 hover:text-white font-semibold">
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(hasAnnotations(annotations) ? annotations : undefined)}
+          className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-md transition-colors"
+        >
+          Save Annotations
+        </button>
+      </div>
+
+      {/* Stage */}
+      <div className="flex-1 min-h-0 flex items-center justify-center p-6">
+        {image ? (
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            className={`max-w-full max-h-full shadow-2xl ${tool === 'select' ? 'cursor-default' : 'cursor-crosshair'}`}
+            style={{ touchAction: 'none' }}
+          />
+        ) : (
+          <div className="w-10 h-10 border-4 border-slate-600 border-t-indigo-400 rounded-full animate-spin"></div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnnotationEditor;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Chapter } from '../types';
+import { formatTimestamp } from '../services/transcriptService';
+
+interface ChapterListProps {
+  chapters: Chapter[]; // The active clip's chapters, in time order
+  numberOf: (chapter: Chapter) => number; // Position across the whole playlist, for the placeholder name
+  currentTime: number;
+  onSeek: (time: number) => void;
+  onMark: () => void;
+  onRename: (id: string, title: string) => void;
+  onRemove: (id: string) => void;
+  onDetect: () => void;
+  disabled?: boolean;
+}
+
+// Chapter marks of the current clip, under the timeline. Each chapter becomes a section of the handout.
+const ChapterList: React.FC<ChapterListProps> = ({ chapters, numberOf, currentTime, onSeek, onMark, onRename, onRemove, onDetect, disabled }) => (
+  <div className={`flex items-center gap-2 overflow-x-auto no-scrollbar ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+    <span className="text-xs font-bold text-slate-500 uppercase flex-shrink-0">Chapters</span>
+    {chapters.length === 0 && (
+      <span className="text-xs text-slate-400 flex-shrink-0">None yet: long recordings read better split into sections.</span>
+    )}
+    {chapters.map(chapter => (
+      <div key={chapter.id} className="flex items-center flex-shrink-0 bg-violet-50 border border-violet-200 rounded-full ps-1 pe-1 py-0.5">
+        <button
+          onClick={() => onSeek(chapter.start)}
+          className="px-1.5 text-[11px] font-mono text-violet-700 hover:text-violet-900"
+          title="Jump to the start of this chapter"
+        >
+          {formatTimestamp(chapter.start)}
+        </button>
+        <input
+          value={chapter.title}
+          onChange={(e) => onRename(chapter.id, e.target.value)}
+          placeholder={`Chapter ${numberOf(chapter)}`}
+          className="w-32 bg-transparent text-xs text-slate-800 placeholder:text-slate-400 outline-none focus:bg-white rounded px-1"
+        />
+        <button
+          onClick={() => onRemove(chapter.id)}
+          className="p-0.5 rounded-full text-violet-400 hover:text-red-600"
+          title="Remove chapter"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3.5 h-3.5">
+            <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+          </svg>
+        </button>
+      </div>
+    ))}
+    <div className="flex gap-2 ms-auto flex-shrink-0">
+      <button
+        onClick={onMark}
+        className="px-3 py-1 text-xs font-semibold text-violet-700 bg-violet-50 hover:bg-violet-100 rounded-full"
+        title="Start a chapter at the playhead (M)"
+      >
+        + Chapter at {formatTimestamp(currentTime)}
+      </button>
+      <button
+        onClick={onDetect}
+        className="px-3 py-1 text-xs font-semibold text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-full"
+        title="Find chapter breaks from the biggest changes on screen"
+      >
+        Detect
+      </button>
+    </div>
+  </div>
+);
+
+export default ChapterList;
@@ -0,0 +1,65 @@
+import React, { useEffect, useRef } from 'react';
+
+interface EditableTextProps {
+  value: string;
+  onChange: (value: string) => void;
+  editing: boolean;
+  as?: 'h1' | 'h2' | 'h3' | 'p' | 'span';
+  multiline?: boolean;
+  placeholder?: string;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// Renders plain text in preview mode and a borderless input with the same typography in edit mode,
+// so the page layout doesn't jump when switching between the two.
+const EditableText: React.FC<EditableTextProps> = ({
+  value,
+  onChange,
+  editing,
+  as: Tag = 'p',
+  multiline = false,
+  placeholder,
+  className = '',
+  style,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Grow the textarea with its content instead of showing a scrollbar
+  useEffect(() => {
+    const el = textareaRef.current;
+    if (el) {
+      el.style.height = 'auto';
+      el.style.height = `${el.scrollHeight}px`;
+    }
+  }, [value, editing]);
+
+  if (!editing) {
+    return <Tag className={className} style={style}>{value}</Tag>;
+  }
+
+  const editClassName = `${className} block w-full bg-indigo-50/50 outline-none rounded ring-1 ring-indigo-200 focus:ring-2 focus:ring-indigo-500 px-1 -mx-1 placeholder:text-slate-300`;
+
+  return multiline ? (
+    <textarea
+      ref={textareaRef}
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value)}
+      rows={1}
+      className={`${editClassName} resize-none overflow-hidden`}
+      style={style}
+    />
+  ) : (
+    <input
+      type="text"
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value)}
+      className={editClassName}
+      style={style}
+    />
+  );
+};
+
+export default EditableText;
@@ -1,34 +1,194 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { CapturedFrame } from '../types';
-import { filterBestFrames } from '../services/geminiService';
+import { CapturedFrame, Chapter, GenerationOptions, RedactionCandidate, TranscriptSegment, VideoClip } from '../types';
+import { filterBestFrames, transcribeVideo } from '../services/geminiService';
+import { cancelledError, isCancelled } from '../services/providers';
+import { scanForSceneChanges, seekVideo } from '../services/sceneDetection';
+import { canDecodeInWorker, decodeFrames, DecoderUnsupportedError } from '../services/frameDecoder';
+import { assessFrames, findDuplicates, FrameQuality, screenCandidates } from '../services/frameQuality';
+import TranscriptPanel from './TranscriptPanel';
+import AnnotatedImage from './AnnotatedImage';
+import AnnotationEditor from './AnnotationEditor';
+import RedactionReview from './RedactionReview';
+import GenerationOptionsPanel from './GenerationOptionsPanel';
+import { applyRedactions, detectSensitiveRegions } from '../services/redactionService';
+import { loadRedactionSettings } from '../services/settingsService';
+import { summarizeOptions } from '../services/generationOptions';
+import { formatTimestamp } from '../services/transcriptService';
+import { generateThumbnailStrip, TimelineThumbnail } from '../services/videoThumbnails';
+import VideoTimeline from './VideoTimeline';
+import ChapterList from './ChapterList';
+import FrameQualityBadges from './FrameQualityBadges';
+import { groupFrames, insertFrameByTime, moveGroup, removeFrame, removeFramesWhere, setGroupedWithPrevious } from '../services/frameGroups';
+import { clipName, createClip, orderFramesByClip, replaceClipTranscript } from '../services/videoClips';
+import { frameLabel, IMPORTABLE_IMAGE_TYPES, importImageFiles, isVideoFrame } from '../services/imageImport';
+import { chapterEnd, chapterTitle, createChapter, detectChapters, sortChapters, splitFramesByChapter } from '../services/chapters';
 
 interface FrameCapturerProps {
-  videoFile: File;
+  videos: VideoClip[]; // Playlist order; empty for projects built from images only
+  onVideosChange: (videos: VideoClip[]) => void;
+  frames: CapturedFrame[];
+  onFramesChange: React.Dispatch<React.SetStateAction<CapturedFrame[]>>;
+  transcript: TranscriptSegment[] | null;
+  onTranscriptChange: (transcript: TranscriptSegment[] | null) => void;
+  chapters: Chapter[];
+  onChaptersChange: (chapters: Chapter[]) => void;
+  generationOptions: GenerationOptions;
+  onGenerationOptionsChange: (options: GenerationOptions) => void;
   onGenerate: (frames: CapturedFrame[]) => void;
   onBack: () => void;
+  onOpenSettings: () => void;
 }
 
-const FrameCapturer: React.FC<FrameCapturerProps> = ({ videoFile, onGenerate, onBack }) => {
+const FRAME_STEP = 1 / 30; // Browsers don't expose the frame rate, so step at the most common one
+const THUMBNAIL_COUNT = 20;
+const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2];
+
+const FrameCapturer: React.FC<FrameCapturerProps> = ({
+  videos,
+  onVideosChange,
+  frames,
+  onFramesChange: setFrames,
+  transcript,
+  onTranscriptChange,
+  chapters,
+  onChaptersChange,
+  generationOptions,
+  onGenerationOptionsChange,
+  onGenerate,
+  onBack,
+  onOpenSettings,
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [frames, setFrames] = useState<CapturedFrame[]>([]);
   const [videoUrl, setVideoUrl] = useState<string>("");
   const [isPlaying, setIsPlaying] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [statusMessage, setStatusMessage] = useState("");
   const [debugLogs, setDebugLogs] = useState<string[]>([]);
+  const [showAutoSettings, setShowAutoSettings] = useState(false);
+  const [showGenerationOptions, setShowGenerationOptions] = useState(false);
+  const [sensitivity, setSensitivity] = useState(5);
+  const [maxCandidates, setMaxCandidates] = useState(16);
+  const [sidebarTab, setSidebarTab] = useState<'frames' | 'transcript'>('frames');
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [transcriptStatus, setTranscriptStatus] = useState("");
+  const [annotatingId, setAnnotatingId] = useState<string | null>(null);
+  const [overlayTitle, setOverlayTitle] = useState("Auto-select is underway");
+  const [analysisAbort, setAnalysisAbort] = useState<AbortController | null>(null); // Set while the overlay's work can be cancelled
+  const [redactionReview, setRedactionReview] = useState<{ candidates: RedactionCandidate[]; thenGenerate: boolean } | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [thumbnails, setThumbnails] = useState<(TimelineThumbnail | undefined)[]>([]);
+  const [dragGroup, setDragGroup] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [isFileDragOver, setIsFileDragOver] = useState(false);
+  const [qualityScores, setQualityScores] = useState<Record<string, { dataUrl: string; quality: FrameQuality }>>({}); // By frame id
+  const queuedScores = useRef(new Map<string, string>()); // Frame id to the image scored or queued for it
+  const scoringQueue = useRef<Promise<void>>(Promise.resolve());
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const [activeVideoId, setActiveVideoId] = useState<string | null>(videos[0]?.id || null);
+  const pendingSeek = useRef<number | null>(null); // Applied once a newly selected clip has loaded
+
+  const activeVideo = videos.find(v => v.id === activeVideoId) || videos[0];
+  const videoFile = activeVideo?.file || null;
+  const clipOrder = videos.map(v => v.id);
+  const sortedChapters = sortChapters(chapters, videos);
+  const clipChapters = sortedChapters.filter(c => c.videoId === activeVideo?.id);
+  // A score is stale once the frame's image changes (retakes, redaction)
+  const frameQualities: Record<string, FrameQuality | undefined> = Object.fromEntries(
+    frames.map(f => [f.id, qualityScores[f.id]?.dataUrl === f.dataUrl ? qualityScores[f.id].quality : undefined])
+  );
 
   useEffect(() => {
+    setIsPlaying(false);
+    setCurrentTime(0);
+    setDuration(0);
+    if (!videoFile) {
+      setVideoUrl("");
+      return;
+    }
     const url = URL.createObjectURL(videoFile);
     setVideoUrl(url);
     return () => URL.revokeObjectURL(url);
   }, [videoFile]);
 
+  useEffect(() => {
+    if (!videoUrl) return;
+    let cancelled = false;
+    setThumbnails(Array(THUMBNAIL_COUNT).fill(undefined));
+    generateThumbnailStrip(
+      videoUrl,
+      THUMBNAIL_COUNT,
+      (thumbnail, index) => {
+        if (!cancelled) setThumbnails(prev => prev.map((t, i) => (i === index ? thumbnail : t)));
+      },
+      () => cancelled
+    ).catch(err => console.warn("Timeline thumbnails unavailable:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [videoUrl]);
+
+  // Scores new and changed frames in the background, one at a time, for the sidebar badges.
+  // Frames already queued stay queued when others are added, moved or removed.
+  useEffect(() => {
+    const ids = new Set(frames.map(f => f.id));
+    setQualityScores(prev => Object.keys(prev).some(id => !ids.has(id))
+      ? Object.fromEntries(Object.entries(prev).filter(([id]) => ids.has(id)))
+      : prev);
+    for (const id of Array.from(queuedScores.current.keys())) {
+      if (!ids.has(id)) queuedScores.current.delete(id);
+    }
+
+    for (const frame of frames) {
+      if (queuedScores.current.get(frame.id) === frame.dataUrl) continue;
+      queuedScores.current.set(frame.id, frame.dataUrl);
+      // Skipped, or dropped when done, if the frame was removed or its image changed in the meantime
+      const isCurrent = () => queuedScores.current.get(frame.id) === frame.dataUrl;
+      scoringQueue.current = scoringQueue.current.then(async () => {
+        if (!isCurrent()) return;
+        const scored = await assessFrames([frame]);
+        if (isCurrent() && scored[frame.id]) {
+          setQualityScores(prev => ({ ...prev, [frame.id]: { dataUrl: frame.dataUrl, quality: scored[frame.id] } }));
+        }
+      });
+    }
+  }, [frames]);
+
+  // Unmounting drops whatever is still queued
+  useEffect(() => {
+    const queued = queuedScores.current;
+    return () => queued.clear();
+  }, []);
+
+  // timeupdate only fires a few times a second, too coarse for a smooth playhead
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frameId = 0;
+    const tick = () => {
+      if (videoRef.current) setCurrentTime(videoRef.current.currentTime);
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying]);
+
   const addLog = (msg: string) => {
     console.log(`[AutoSelect] ${msg}`);
     setDebugLogs(prev => [...prev.slice(-3), msg]); // Keep last 4 logs on screen
   };
 
+  const frameFromImage = (dataUrl: string, timestamp: number): CapturedFrame => ({
+    id: Math.random().toString(36).substr(2, 9),
+    dataUrl,
+    timestamp,
+    originalTimeFormatted: formatTimestamp(timestamp),
+    source: 'video',
+    videoId: activeVideo?.id,
+  });
+
   const createFrameFromVideo = (video: HTMLVideoElement): CapturedFrame | null => {
     if (canvasRef.current) {
       const canvas = canvasRef.current;
@@ -42,20 +202,8 @@ const FrameCapturer: React.FC<FrameCapturerProps> = ({ videoFile, onGenerate, on
             
             // This might throw a SecurityError if the video is tainted
             const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-            
-            const timestamp = video.currentTime;
-            const formatTime = (seconds: number) => {
-              const m = Math.floor(seconds / 60);
-              const s = Math.floor(seconds % 60);
-              return `${m}:${s.toString().padStart(2, '0')}`;
-            };
-
-            return {
-              id: Math.random().toString(36).substr(2, 9),
-              dataUrl,
-              timestamp,
-              originalTimeFormatted: formatTime(timestamp),
-            };
+
+            return frameFromImage(dataUrl, video.currentTime);
         } catch (e: any) {
             console.error("Frame creation error:", e);
             throw new Error(`Canvas export failed (Security/CORS): ${e.message}`);
@@ -70,7 +218,7 @@ const FrameCapturer: React.FC<FrameCapturerProps> = ({ videoFile, onGenerate, on
       try {
         const frame = createFrameFromVideo(videoRef.current);
         if (frame) {
-          setFrames((prev) => [...prev, frame]);
+          setFrames((prev) => insertFrameByTime(prev, frame, clipOrder));
         }
       } catch (e: any) {
         alert("Could not capture frame. " + e.message);
@@ -78,6 +226,197 @@ const FrameCapturer: React.FC<FrameCapturerProps> = ({ videoFile, onGenerate, on
     }
   };
 
+  // Frames from another clip switch the player to that clip first
+  const jumpToFrame = (frame: CapturedFrame) => {
+    if (frame.videoId && frame.videoId !== activeVideo?.id && videos.some(v => v.id === frame.videoId)) {
+      pendingSeek.current = frame.timestamp;
+      setActiveVideoId(frame.videoId);
+    } else {
+      seekTo(frame.timestamp);
+    }
+  };
+
+  const addClips = (files: File[]) => {
+    const clips = files
+      .filter(f => f.type.startsWith('video/'))
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }))
+      .map(createClip);
+    if (clips.length === 0) {
+      alert("Please choose video files.");
+      return;
+    }
+    onVideosChange([...videos, ...clips]);
+    if (!activeVideo) setActiveVideoId(clips[0].id);
+  };
+
+  const moveClip = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= videos.length) return;
+    const next = [...videos];
+    [next[index], next[target]] = [next[target], next[index]];
+    onVideosChange(next);
+    setFrames(prev => orderFramesByClip(prev, next));
+  };
+
+  const removeClip = (clip: VideoClip) => {
+    const frameCount = frames.filter(f => f.videoId === clip.id).length;
+    const message = frameCount > 0
+      ? `Remove "${clipName(clip)}" from the project? Its ${frameCount} captured frame${frameCount === 1 ? '' : 's'} and narration will be removed too.`
+      : `Remove "${clipName(clip)}" from the project?`;
+    if (!window.confirm(message)) return;
+
+    onVideosChange(videos.filter(v => v.id !== clip.id));
+    setFrames(prev => removeFramesWhere(prev, f => f.videoId === clip.id));
+    if (chapters.some(c => c.videoId === clip.id)) onChaptersChange(chapters.filter(c => c.videoId !== clip.id));
+    if (transcript) {
+      const remaining = transcript.filter(seg => seg.videoId !== clip.id);
+      onTranscriptChange(remaining.length > 0 ? remaining : null);
+    }
+    if (activeVideo?.id === clip.id) setActiveVideoId(videos.find(v => v.id !== clip.id)?.id || null);
+  };
+
+  const seekTo = async (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    await seekVideo(video, time);
+  };
+
+  const captureAt = async (time: number) => {
+    await seekTo(time);
+    captureFrame();
+  };
+
+  // Sets the time without waiting for the seek, so scrubbing and held arrow keys stay responsive
+  const scrubTo = (time: number) => {
+    const video = videoRef.current;
+    if (!video || !isFinite(video.duration)) return;
+    video.pause();
+    video.currentTime = Math.min(video.duration, Math.max(0, time));
+    setCurrentTime(video.currentTime);
+  };
+
+  const stepBy = (seconds: number) => {
+    if (videoRef.current) scrubTo(videoRef.current.currentTime + seconds);
+  };
+
+  // Re-grabs a frame's image at a new time; the id and annotations stay, so steps still point at it
+  const retimeFrame = async (id: string, time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    await seekTo(time);
+    try {
+      const recaptured = createFrameFromVideo(video);
+      if (!recaptured) return;
+      setFrames(prev => prev.map(f => (f.id === id
+        ? { ...f, dataUrl: recaptured.dataUrl, timestamp: recaptured.timestamp, originalTimeFormatted: recaptured.originalTimeFormatted, source: 'video', fileName: undefined, videoId: recaptured.videoId }
+        : f)));
+    } catch (e: any) {
+      alert("Could not retime frame. " + e.message);
+    }
+  };
+
+  const importImages = async (files: File[]) => {
+    const { frames: imported, skipped } = await importImageFiles(files);
+    if (imported.length > 0) setFrames(prev => [...prev, ...imported]);
+    if (skipped.length > 0) {
+      alert(`Some files were skipped because they aren't PNG or JPEG images:\n\n${skipped.join('\n')}`);
+    }
+  };
+
+  // Screenshots pasted anywhere on the page (outside text fields) are added as frames
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA'].includes(target.tagName) || target.isContentEditable) return;
+      if (isAnalyzing || annotatingId || redactionReview) return;
+      const files = Array.from(e.clipboardData?.files || []).filter(f => f.type.startsWith('image/'));
+      if (files.length === 0) return;
+      e.preventDefault();
+      // Clipboard images are all called "image.png", which is no use as a label
+      importImages(files.map(f => new File([f], 'Pasted image', { type: f.type })));
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  });
+
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+  const handleSidebarDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e) || isAnalyzing) return;
+    e.preventDefault();
+    setIsFileDragOver(true);
+  };
+
+  const handleSidebarDrop = (e: React.DragEvent) => {
+    setIsFileDragOver(false);
+    if (!isFileDrag(e) || isAnalyzing) return;
+    e.preventDefault();
+    importImages(Array.from(e.dataTransfer.files));
+  };
+
+  const handleTranscribe = async () => {
+    if (!videoFile) return;
+    setIsTranscribing(true);
+    try {
+      const segments = await transcribeVideo(videoFile, setTranscriptStatus);
+      onTranscriptChange(replaceClipTranscript(transcript, activeVideo.id, segments));
+    } catch (err: any) {
+      console.error("Transcription error:", err);
+      alert(`Transcription failed.\n\nReason: ${err.message}`);
+    } finally {
+      setIsTranscribing(false);
+      setTranscriptStatus("");
+    }
+  };
+
+  const markChapter = () => {
+    const video = videoRef.current;
+    if (!video || !activeVideo) return;
+    const time = video.currentTime;
+    // A second mark on the same moment would only make an empty chapter
+    if (clipChapters.some(c => Math.abs(c.start - time) < 1)) return;
+    onChaptersChange([...chapters, createChapter(activeVideo.id, time)]);
+  };
+
+  const renameChapter = (id: string, title: string) => {
+    onChaptersChange(chapters.map(c => (c.id === id ? { ...c, title } : c)));
+  };
+
+  const removeChapter = (id: string) => {
+    onChaptersChange(chapters.filter(c => c.id !== id));
+  };
+
+  const handleDetectChapters = async () => {
+    const video = videoRef.current;
+    if (!video || !activeVideo || video.readyState < 2 || !isFinite(video.duration)) {
+      alert("Video is not ready. Please play the video for one second and try again.");
+      return;
+    }
+    if (clipChapters.length > 0 && !window.confirm("This will replace this clip's chapters with detected ones. Continue?")) {
+      return;
+    }
+
+    setOverlayTitle("Finding chapters");
+    setIsAnalyzing(true);
+    setDebugLogs([]);
+    video.pause();
+    try {
+      const detected = await detectChapters(video, activeVideo, (fraction) => setStatusMessage(`Scanning video for major changes... ${Math.round(fraction * 100)}%`));
+      if (detected.length === 0) {
+        alert("No clear chapter breaks were found. Short clips don't need chapters; for longer ones, mark chapters by hand with the M key.");
+        return;
+      }
+      onChaptersChange([...chapters.filter(c => c.videoId !== activeVideo.id), ...detected]);
+    } catch (err: any) {
+      console.error("Chapter detection error:", err);
+      alert(`Chapter detection failed.\n\nReason: ${err.message}`);
+    } finally {
+      setIsAnalyzing(false);
+      setStatusMessage("");
+    }
+  };
+
   const handleAutoCapture = () => {
     const video = videoRef.current;
     if (!video || !canvasRef.current) {
@@ -95,12 +434,18 @@ const FrameCapturer: React.FC<FrameCapturerProps> = ({ videoFile, onGenerate, on
        return;
     }
     
-    if (!window.confirm("This will clear your current frames and automatically select new ones. Continue?")) {
+    const clipId = activeVideo?.id;
+    const message = videos.length > 1
+      ? "This will replace the frames captured from this clip with automatically selected ones. Continue?"
+      : "This will replace the frames captured from the video with automatically selected ones. Continue?";
+    if (!window.confirm(message)) {
       return;
     }
 
-    // 1. Update UI State
-    setFrames([]); 
+    // 1. Update UI State. The clip's current frames are only replaced once the new selection is ready.
+    const controller = new AbortController();
+    setAnalysisAbort(controller);
+    setOverlayTitle("Auto-select is underway");
     setIsAnalyzing(true);
     setDebugLogs([]);
     setStatusMessage("Initializing auto-select...");
@@ -112,70 +457,115 @@ const FrameCapturer: React.FC<FrameCapturerProps> = ({ videoFile, onGenerate, on
           const duration = video.duration;
           addLog(`Duration: ${duration.toFixed(1)}s`);
 
-          const steps = 12; 
-          const interval = duration / (steps + 1);
-          const candidates: CapturedFrame[] = [];
-          
           video.pause();
           setIsPlaying(false);
           
-          // 3. Scan Video Loop
-          for (let i = 1; i <= steps; i++) {
-            setStatusMessage(`Scanning video... Frame ${i} of ${steps}`);
-            
-            // Yield to UI
-            await new Promise(r => setTimeout(r, 50)); 
-
-            const timestamp = interval * i;
-            video.currentTime = timestamp;
-
-            // Robust seek wait
-            await new Promise<void>(resolve => {
-               const onSeeked = () => {
-                   video.removeEventListener('seeked', onSeeked);
-                   resolve();
-               };
-               video.addEventListener('seeked', onSeeked, { once: true });
-               setTimeout(onSeeked, 1500); // Timeout fallback
+          // 3. Each chapter is scanned and picked from on its own, so a long recording gets steps
+          // from every part instead of a handful for the whole video
+          const ranges = clipChapters.length > 0
+            ? clipChapters.map((chapter, i) => ({
+                start: i === 0 ? 0 : chapter.start,
+                end: chapterEnd(chapter, clipChapters, duration),
+                label: `${chapterTitle(chapter, sortedChapters)}: `,
+              }))
+            : [{ start: 0, end: duration, label: '' }];
+
+          const selected: CapturedFrame[] = [];
+          for (const range of ranges) {
+            if (controller.signal.aborted) throw cancelledError();
+            setStatusMessage(`${range.label}Scanning video for scene changes...`);
+            const scenes = await scanForSceneChanges(video, {
+              sensitivity,
+              maxCandidates,
+              start: range.start,
+              end: range.end,
+              file: activeVideo?.file,
+              onProgress: (fraction) => setStatusMessage(`${range.label}Scanning video for scene changes... ${Math.round(fraction * 100)}%`),
+              signal: controller.signal,
             });
+            addLog(`${range.label}Found ${scenes.length} scene changes.`);
+
+            // Grab full-resolution frames at the detected moments, decoded in a worker when the browser can
+            const candidates: CapturedFrame[] = [];
+            if (activeVideo && canDecodeInWorker() && scenes.length > 0) {
+              setStatusMessage(`${range.label}Capturing ${scenes.length} candidates...`);
+              try {
+                const decoded = await decodeFrames(activeVideo.file, scenes.map(s => s.timestamp), 0.8, controller.signal);
+                candidates.push(...decoded.map(d => frameFromImage(d.dataUrl, d.time)));
+              } catch (err) {
+                if (!(err instanceof DecoderUnsupportedError)) throw err;
+                addLog(`Can't decode this file in a worker, seeking instead: ${err.message}`);
+              }
+            }
+            if (candidates.length === 0) {
+              for (let i = 0; i < scenes.length; i++) {
+                if (controller.signal.aborted) throw cancelledError();
+                setStatusMessage(`${range.label}Capturing candidate ${i + 1} of ${scenes.length}`);
+                await seekVideo(video, scenes[i].timestamp);
 
-            await new Promise(r => setTimeout(r, 150)); // Paint delay
+                const frame = createFrameFromVideo(video);
+                if (frame) {
+                   candidates.push(frame);
+                } else {
+                   addLog(`Skipped frame at ${scenes[i].timestamp.toFixed(1)}s`);
+                }
+              }
+            }
+
+            // Blurry, black, mid-fade and repeated frames would only waste the model's attention
+            setStatusMessage(`${range.label}Checking frame quality...`);
+            const scores = await assessFrames(candidates);
+            if (controller.signal.aborted) throw cancelledError();
+            setQualityScores(prev => ({
+              ...prev,
+              ...Object.fromEntries(candidates.filter(f => scores[f.id]).map(f => [f.id, { dataUrl: f.dataUrl, quality: scores[f.id] }])),
+            }));
+            const { kept, rejected } = screenCandidates(candidates, scores);
+            if (rejected.length > 0) {
+              const counts = rejected.reduce<Record<string, number>>((acc, r) => ({ ...acc, [r.issue]: (acc[r.issue] || 0) + 1 }), {});
+              addLog(`Dropped ${rejected.length} frames (${Object.entries(counts).map(([issue, n]) => `${n} ${issue}`).join(', ')}).`);
+            }
+
+            // 4. Send to AI
+            if (kept.length > 4) {
+                setStatusMessage(`${range.label}AI is analyzing frames...`);
+                addLog(`Analyzing ${kept.length} frames...`);
+
+                await new Promise(r => setTimeout(r, 500));
+
+                // Indices come back checked against the candidate count
+                const selectedIndices = await filterBestFrames(kept, controller.signal);
 
-            const frame = createFrameFromVideo(video);
-            if (frame) {
-               candidates.push(frame);
+                addLog(`Selected ${selectedIndices.length} frames.`);
+
+                selected.push(...selectedIndices.map(idx => kept[idx]));
             } else {
-               addLog(`Skipped frame at ${timestamp.toFixed(1)}s`);
+                // Few enough distinct scenes that every one of them is a step
+                addLog(`Using all ${kept.length} frames.`);
+                selected.push(...kept);
             }
           }
-          
-          // 4. Send to AI
-          if (candidates.length > 0) {
-              setStatusMessage("AI is analyzing frames...");
-              addLog(`Analyzing ${candidates.length} frames...`);
-              
-              await new Promise(r => setTimeout(r, 500)); 
-
-              const selectedIndices = await filterBestFrames(candidates);
-              
-              addLog(`Selected ${selectedIndices.length} frames.`);
-
-              const finalFrames = selectedIndices
-                .map(idx => candidates[idx])
-                .filter(f => f !== undefined);
-                
-              setFrames(finalFrames);
-          } else {
-              throw new Error("No valid frames could be captured.");
+
+          if (selected.length === 0) {
+            throw new Error("No valid frames could be captured.");
           }
+          setFrames(prev => selected.reduce(
+            (acc, frame) => insertFrameByTime(acc, frame, clipOrder),
+            removeFramesWhere(prev, f => isVideoFrame(f) && f.videoId === clipId)
+          ));
 
       } catch (err: any) {
+            if (isCancelled(err)) {
+              addLog("Cancelled.");
+              return;
+            }
             console.error("Auto-capture error:", err);
             addLog(`ERROR: ${err.message}`);
             // Show the actual error message to the user
             alert(`Auto-select failed.\n\nReason: ${err.message}\n\nPlease try manually capturing frames.`);
       } finally {
             setIsAnalyzing(false);
+            setAnalysisAbort(null);
             setStatusMessage("");
             // Leave the logs visible for a moment if needed, or clear?
             // setDebugLogs([]); 
@@ -183,8 +573,61 @@ const FrameCapturer: React.FC<FrameCapturerProps> = ({ videoFile, onGenerate, on
     }, 100);
   };
 
-  const removeFrame = (id: string) => {
-    setFrames((prev) => prev.filter(f => f.id !== id));
+  const runRedactionScan = async (thenGenerate: boolean) => {
+    setOverlayTitle("Scanning for sensitive info");
+    setIsAnalyzing(true);
+    setDebugLogs([]);
+    try {
+      const { patterns } = loadRedactionSettings();
+      const candidates = await detectSensitiveRegions(frames, patterns, (msg) => {
+        setStatusMessage(msg);
+        addLog(msg);
+      });
+      if (candidates.length > 0) {
+        setRedactionReview({ candidates, thenGenerate });
+      } else if (thenGenerate) {
+        onGenerate(frames);
+      } else {
+        alert("No sensitive information was found in the captured frames.");
+      }
+    } catch (err: any) {
+      console.error("Redaction scan error:", err);
+      alert(`Scanning for sensitive info failed.\n\nReason: ${err.message}`);
+    } finally {
+      setIsAnalyzing(false);
+      setStatusMessage("");
+    }
+  };
+
+  const handleGenerateClick = () => {
+    if (loadRedactionSettings().scanBeforeGenerate) {
+      runRedactionScan(true);
+    } else {
+      onGenerate(frames);
+    }
+  };
+
+  const deleteFrame = (id: string) => {
+    setFrames((prev) => removeFrame(prev, id));
+  };
+
+  const handleGroupDragOver = (e: React.DragEvent, groupIndex: number) => {
+    if (dragGroup === null) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    setDropIndex(e.clientY < rect.top + rect.height / 2 ? groupIndex : groupIndex + 1);
+  };
+
+  const handleGroupDrop = (e: React.DragEvent) => {
+    if (dragGroup === null) return; // Dropped files bubble up to the sidebar
+    e.preventDefault();
+    if (dropIndex !== null) {
+      // Removing the dragged group first shifts every later slot up by one
+      const to = dropIndex > dragGroup ? dropIndex - 1 : dropIndex;
+      if (to !== dragGroup) setFrames(prev => moveGroup(prev, dragGroup, to));
+    }
+    setDragGroup(null);
+    setDropIndex(null);
   };
 
   const togglePlay = () => {
@@ -195,6 +638,46 @@ const FrameCapturer: React.FC<FrameCapturerProps> = ({ videoFile, onGenerate, on
     }
   };
 
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable) return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (isAnalyzing || annotatingId || redactionReview) return;
+
+      if (e.key === ' ') {
+        e.preventDefault();
+        togglePlay();
+      } else if (e.key === 'ArrowLeft') {
+        e.preventDefault();
+        stepBy(e.shiftKey ? -1 : -FRAME_STEP);
+      } else if (e.key === 'ArrowRight') {
+        e.preventDefault();
+        stepBy(e.shiftKey ? 1 : FRAME_STEP);
+      } else if (e.key.toLowerCase() === 'c') {
+        e.preventDefault();
+        captureFrame();
+      } else if (e.key.toLowerCase() === 'm') {
+        e.preventDefault();
+        markChapter();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const annotatingFrame = frames.find(f => f.id === annotatingId);
+  const frameGroups = groupFrames(frames);
+  const duplicateOf = findDuplicates(frames, frameQualities);
+  const stepOfFrame = new Map(frameGroups.flatMap((group, i) => group.map(f => [f.id, i + 1] as [string, number])));
+  // The sidebar shows where each chapter's steps start, since each chapter becomes a handout section
+  const chapterStarts = new Map(chapters.length > 0
+    ? splitFramesByChapter(frames, sortedChapters).map(run => [run.frames[0].id, run.chapter ? chapterTitle(run.chapter, sortedChapters) : 'No chapter'] as const)
+    : []);
+  const clipTranscript = transcript?.some(seg => seg.videoId === activeVideo?.id)
+    ? transcript.filter(seg => seg.videoId === activeVideo?.id)
+    : null;
+
   return (
     <div className="flex h-full bg-slate-100 overflow-hidden relative">
       {/* Analysis Overlay */}
@@ -202,7 +685,7 @@ const FrameCapturer: React.FC<FrameCapturerProps> = ({ videoFile, onGenerate, on
         <div className="fixed inset-0 z-[9999] bg-black/70 backdrop-blur-sm flex flex-col items-center justify-center transition-all duration-300">
            <div className="bg-white p-8 rounded-2xl shadow-2xl flex flex-col items-center max-w-sm w-full mx-4 text-center animate-in fade-in zoom-in duration-300">
              <div className="w-16 h-16 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin mb-6"></div>
-             <h3 className="text-xl font-bold text-slate-900 mb-2">Auto-select is underway</h3>
+             <h3 className="text-xl font-bold text-slate-900 mb-2">{overlayTitle}</h3>
              <p className="text-slate-600 font-medium animate-pulse mb-4">{statusMessage}</p>
              
              {/* Visible Debug Log */}
@@ -211,21 +694,134 @@ const FrameCapturer: React.FC<FrameCapturerProps> = ({ videoFile, onGenerate, on
                     <div key={i} className="truncate">&gt; {log}</div>
                 ))}
              </div>
+
+             {analysisAbort && (
+               <button
+                 onClick={() => {
+                   analysisAbort.abort();
+                   addLog("Cancelling...");
+                 }}
+                 className="mt-4 px-4 py-2 text-sm font-semibold text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg"
+               >
+                 Cancel
+               </button>
+             )}
            </div>
         </div>
       )}
 
+      {annotatingFrame && (
+        <AnnotationEditor
+          frame={annotatingFrame}
+          onSave={(annotations) => {
+            setFrames(prev => prev.map(f => (f.id === annotatingFrame.id ? { ...f, annotations } : f)));
+            setAnnotatingId(null);
+          }}
+          onClose={() => setAnnotatingId(null)}
+        />
+      )}
+
+      {redactionReview && (
+        <RedactionReview
+          frames={frames}
+          candidates={redactionReview.candidates}
+          onApply={(accepted) => {
+            const redacted = applyRedactions(frames, accepted);
+            setFrames(redacted);
+            setRedactionReview(null);
+            if (redactionReview.thenGenerate) onGenerate(redacted);
+          }}
+          onCancel={() => setRedactionReview(null)}
+          onSkip={redactionReview.thenGenerate ? () => {
+            setRedactionReview(null);
+            onGenerate(frames);
+          } : undefined}
+        />
+      )}
+
       {/* Left: Video Player */}
       <div className="flex-1 flex flex-col p-6 min-w-0 relative z-0">
         <div className="flex items-center justify-between mb-4">
           <button onClick={onBack} className="text-slate-500 hover:text-slate-700 flex items-center gap-1 text-sm font-medium">
             ← Back
           </button>
-          <div className="text-sm font-semibold text-slate-600 bg-white px-3 py-1 rounded-full shadow-sm">
-            Step 1: Capture Key Moments
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onOpenSettings}
+              className="text-sm font-medium text-slate-500 hover:text-slate-700 bg-white px-3 py-1 rounded-full shadow-sm"
+            >
+              Settings
+            </button>
+            <div className="text-sm font-semibold text-slate-600 bg-white px-3 py-1 rounded-full shadow-sm">
+              Step 1: Capture Key Moments
+            </div>
           </div>
         </div>
 
+        <input
+          type="file"
+          accept="video/*"
+          multiple
+          ref={videoInputRef}
+          onChange={(e) => {
+            if (e.target.files) addClips(Array.from(e.target.files));
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+
+        {videoFile ? (
+        <>
+        {/* Playlist */}
+        <div className="flex items-center gap-2 mb-3 overflow-x-auto no-scrollbar">
+          {videos.map((clip, index) => {
+            const isActive = clip.id === activeVideo?.id;
+            return (
+              <div
+                key={clip.id}
+                className={`group flex items-center gap-1 pl-3 pr-1 py-1 rounded-full text-sm shadow-sm border flex-shrink-0
+                  ${isActive ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-700 hover:border-indigo-300'}`}
+              >
+                <button
+                  onClick={() => setActiveVideoId(clip.id)}
+                  disabled={isAnalyzing}
+                  className="font-medium max-w-[12rem] truncate"
+                  title={clip.file.name}
+                >
+                  {index + 1}. {clipName(clip)}
+                  <span className={`ml-1 text-xs ${isActive ? 'text-indigo-200' : 'text-slate-400'}`}>
+                    ({frames.filter(f => f.videoId === clip.id).length})
+                  </span>
+                </button>
+                {videos.length > 1 && (
+                  <span className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => moveClip(index, -1)} disabled={index === 0 || isAnalyzing} className="px-1 disabled:opacity-30" title="Move clip earlier">‹</button>
+                    <button onClick={() => moveClip(index, 1)} disabled={index === videos.length - 1 || isAnalyzing} className="px-1 disabled:opacity-30" title="Move clip later">›</button>
+                  </span>
+                )}
+                <button
+                  onClick={() => removeClip(clip)}
+                  disabled={isAnalyzing}
+                  className={`p-0.5 rounded-full opacity-0 group-hover:opacity-100 transition-opacity ${isActive ? 'hover:bg-indigo-500' : 'hover:bg-slate-100'}`}
+                  title="Remove clip"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                    <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+                  </svg>
+                </button>
+              </div>
+            );
+          })}
+          <button
+            onClick={() => videoInputRef.current?.click()}
+            disabled={isAnalyzing}
+            className="flex-shrink-0 px-3 py-1 rounded-full text-sm font-medium text-slate-500 hover:text-indigo-600 bg-white border border-dashed border-slate-300 disabled:opacity-50"
+            title="Add more clips; the handout follows the clip order"
+          >
+            + Add clip
+          </button>
+        </div>
+
         <div className="flex-1 bg-black rounded-2xl shadow-lg overflow-hidden relative flex items-center justify-center group">
           <video
             ref={videoRef}
@@ -233,6 +829,13 @@ const FrameCapturer: React.FC<FrameCapturerProps> = ({ videoFile, onGenerate, on
             className="w-full h-full object-contain"
             onPlay={() => setIsPlaying(true)}
             onPause={() => setIsPlaying(false)}
+            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            onDurationChange={(e) => setDuration(e.currentTarget.duration)}
+            onRateChange={(e) => setPlaybackRate(e.currentTarget.playbackRate)}
+            onLoadedData={() => {
+              if (pendingSeek.current !== null) seekTo(pendingSeek.current);
+              pendingSeek.current = null;
+            }}
             crossOrigin="anonymous"
             controls={false} // Custom controls
           />
@@ -255,12 +858,45 @@ const FrameCapturer: React.FC<FrameCapturerProps> = ({ videoFile, onGenerate, on
         </div>
 
         {/* Video Controls Bar */}
-        <div className="mt-4 bg-white p-4 rounded-xl shadow-sm border border-slate-200 flex items-center gap-4 justify-between relative z-10">
+        <div className="mt-4 bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-4 relative z-10">
+          <VideoTimeline
+            duration={duration}
+            currentTime={currentTime}
+            frames={frames.filter(f => isVideoFrame(f) && f.videoId === activeVideo?.id)}
+            chapters={clipChapters.map(c => ({ id: c.id, start: c.start, title: chapterTitle(c, sortedChapters) }))}
+            thumbnails={thumbnails}
+            onSeek={scrubTo}
+            onRetimeFrame={retimeFrame}
+            disabled={isAnalyzing}
+          />
+          <ChapterList
+            chapters={clipChapters}
+            numberOf={(c) => sortedChapters.indexOf(c) + 1}
+            currentTime={currentTime}
+            onSeek={scrubTo}
+            onMark={markChapter}
+            onRename={renameChapter}
+            onRemove={removeChapter}
+            onDetect={handleDetectChapters}
+            disabled={isAnalyzing}
+          />
+          <div className="flex items-center gap-4 justify-between">
             <div className="flex gap-2">
+                <button
+                  onClick={() => stepBy(-FRAME_STEP)}
+                  disabled={isAnalyzing}
+                  className="p-3 bg-slate-100 rounded-lg hover:bg-slate-200 text-slate-700 transition-colors disabled:opacity-50"
+                  title="Previous frame (←, Shift+← for 1s)"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5 8.25 12l7.5-7.5" />
+                  </svg>
+                </button>
                 <button 
                   onClick={togglePlay}
                   disabled={isAnalyzing}
                   className="p-3 bg-slate-100 rounded-lg hover:bg-slate-200 text-slate-700 transition-colors disabled:opacity-50"
+                  title="Play/pause (Space)"
                 >
                   {isPlaying ? (
                     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6">
@@ -272,13 +908,84 @@ const FrameCapturer: React.FC<FrameCapturerProps> = ({ videoFile, onGenerate, on
                     </svg>
                   ) }
                 </button>
-                <div className="flex flex-col justify-center">
+                <button
+                  onClick={() => stepBy(FRAME_STEP)}
+                  disabled={isAnalyzing}
+                  className="p-3 bg-slate-100 rounded-lg hover:bg-slate-200 text-slate-700 transition-colors disabled:opacity-50"
+                  title="Next frame (→, Shift+→ for 1s)"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="m8.25 4.5 7.5 7.5-7.5 7.5" />
+                  </svg>
+                </button>
+                <div className="flex flex-col justify-center ml-2">
                     <span className="text-xs font-bold text-slate-500 uppercase">Current Time</span>
-                    <span className="font-mono text-slate-800">{videoRef.current ? (Math.round(videoRef.current.currentTime * 10) / 10).toFixed(1) : "0.0"}s</span>
+                    <span className="font-mono text-slate-800">{currentTime.toFixed(2)}s</span>
                 </div>
+                <select
+                  value={playbackRate}
+                  onChange={(e) => {
+                    if (videoRef.current) videoRef.current.playbackRate = Number(e.target.value);
+                    e.target.blur(); // Hand the keyboard back to the player shortcuts
+                  }}
+                  disabled={isAnalyzing}
+                  className="self-center ml-2 px-2 py-1.5 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none disabled:opacity-50"
+                  title="Playback speed"
+                >
+                  {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+                </select>
             </div>
 
             <div className="flex gap-2 flex-1 justify-end">
+              {/* Auto-Select Settings */}
+              <div className="relative">
+                <button
+                  onClick={() => setShowAutoSettings(!showAutoSettings)}
+                  disabled={isAnalyzing}
+                  className="p-3 bg-slate-100 rounded-lg hover:bg-slate-200 text-slate-700 transition-colors disabled:opacity-50"
+                  title="Auto-Select settings"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 6h9.75M10.5 6a1.5 1.5 0 1 1-3 0m3 0a1.5 1.5 0 1 0-3 0M3.75 6H7.5m3 12h9.75m-9.75 0a1.5 1.5 0 0 1-3 0m3 0a1.5 1.5 0 0 0-3 0m-3.75 0H7.5m9-6h3.75m-3.75 0a1.5 1.5 0 0 1-3 0m3 0a1.5 1.5 0 0 0-3 0m-9.75 0h9.75" />
+                  </svg>
+                </button>
+
+                {showAutoSettings && (
+                  <div className="absolute bottom-full right-0 mb-2 w-72 bg-white rounded-xl shadow-xl border border-slate-200 p-4 space-y-4">
+                    <div>
+                      <div className="flex justify-between text-xs font-bold text-slate-500 uppercase mb-1">
+                        <span>Sensitivity</span>
+                        <span className="font-mono text-slate-700">{sensitivity}</span>
+                      </div>
+                      <input
+                        type="range"
+                        min={1}
+                        max={10}
+                        value={sensitivity}
+                        onChange={(e) => setSensitivity(Number(e.target.value))}
+                        className="w-full accent-indigo-600"
+                      />
+                      <div className="flex justify-between text-[10px] text-slate-400">
+                        <span>Major changes only</span>
+                        <span>Every small change</span>
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Max candidates</label>
+                      <input
+                        type="number"
+                        min={4}
+                        max={40}
+                        value={maxCandidates}
+                        onChange={(e) => setMaxCandidates(Math.min(40, Math.max(4, Number(e.target.value) || 4)))}
+                        className="w-full border border-slate-300 rounded-lg px-3 py-1.5 text-sm"
+                      />
+                      <p className="text-[10px] text-slate-400 mt-1">Strongest changes are kept and sent to the AI for the final pick.</p>
+                    </div>
+                  </div>
+                )}
+              </div>
+
               {/* Auto Capture Button */}
               <button
                 onClick={handleAutoCapture}
@@ -296,6 +1003,7 @@ const FrameCapturer: React.FC<FrameCapturerProps> = ({ videoFile, onGenerate, on
               <button
                 onClick={captureFrame}
                 disabled={isAnalyzing}
+                title="Capture the current frame (C)"
                 className="px-6 py-3 bg-slate-800 hover:bg-slate-900 text-white rounded-lg font-semibold shadow-md transition-all flex items-center gap-2 active:scale-95 disabled:opacity-50"
               >
                 <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
@@ -305,18 +1013,126 @@ const FrameCapturer: React.FC<FrameCapturerProps> = ({ videoFile, onGenerate, on
                 <span>Capture Frame</span>
               </button>
             </div>
+          </div>
         </div>
+        </>
+        ) : (
+          <div
+            className={`flex-1 rounded-2xl border-2 border-dashed flex flex-col items-center justify-center text-center p-8 transition-colors
+              ${isFileDragOver ? 'border-indigo-400 bg-indigo-50' : 'border-slate-300 bg-white'}`}
+            onDragOver={handleSidebarDragOver}
+            onDragLeave={() => setIsFileDragOver(false)}
+            onDrop={handleSidebarDrop}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-12 h-12 text-slate-300 mb-3">
+              <path strokeLinecap="round" strokeLinejoin="round" d="m2.25 15.75 5.159-5.159a2.25 2.25 0 0 1 3.182 0l5.159 5.159m-1.5-1.5 1.409-1.409a2.25 2.25 0 0 1 3.182 0l2.909 2.909m-18 3.75h16.5a1.5 1.5 0 0 0 1.5-1.5V6a1.5 1.5 0 0 0-1.5-1.5H3.75A1.5 1.5 0 0 0 2.25 6v12a1.5 1.5 0 0 0 1.5 1.5Zm10.5-11.25h.008v.008h-.008V8.25Zm.375 0a.375.375 0 1 1-.75 0 .375.375 0 0 1 .75 0Z" />
+            </svg>
+            <h2 className="text-lg font-bold text-slate-800">Handout from screenshots</h2>
+            <p className="text-sm text-slate-500 mt-1 max-w-sm">
+              This project has no video. Drop more PNG or JPEG files here, paste a screenshot with Ctrl+V, or add them from disk. Arrange the steps in the sidebar, then generate.
+            </p>
+            <div className="mt-4 flex gap-2">
+              <button
+                onClick={() => imageInputRef.current?.click()}
+                disabled={isAnalyzing}
+                className="px-4 py-2 bg-slate-800 hover:bg-slate-900 text-white rounded-lg font-semibold shadow-md disabled:opacity-50"
+              >
+                Add Images
+              </button>
+              <button
+                onClick={() => videoInputRef.current?.click()}
+                disabled={isAnalyzing}
+                className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg font-semibold disabled:opacity-50"
+              >
+                Add Video
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Right: Gallery Sidebar */}
-      <div className="w-80 bg-white border-l border-slate-200 flex flex-col shadow-xl z-10">
+      <div
+        className={`w-80 bg-white border-l flex flex-col shadow-xl z-10 transition-colors ${isFileDragOver ? 'border-indigo-400 bg-indigo-50/50' : 'border-slate-200'}`}
+        onDragOver={handleSidebarDragOver}
+        onDragLeave={(e) => !e.currentTarget.contains(e.relatedTarget as Node) && setIsFileDragOver(false)}
+        onDrop={handleSidebarDrop}
+      >
+        <input
+          type="file"
+          accept={IMPORTABLE_IMAGE_TYPES.join(',')}
+          multiple
+          ref={imageInputRef}
+          onChange={(e) => {
+            if (e.target.files) importImages(Array.from(e.target.files));
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
         <div className="p-4 border-b border-slate-100 bg-slate-50">
-          <h2 className="font-bold text-slate-800">Captured Frames ({frames.length})</h2>
-          <p className="text-xs text-slate-500 mt-1">Manually capture or use Auto-Select.</p>
+          {videoFile && (
+          <div className="flex bg-slate-200/70 rounded-lg p-1 mb-3 text-sm font-semibold">
+            <button
+              onClick={() => setSidebarTab('frames')}
+              className={`flex-1 py-1 rounded-md transition-colors ${sidebarTab === 'frames' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              Frames
+            </button>
+            <button
+              onClick={() => setSidebarTab('transcript')}
+              className={`flex-1 py-1 rounded-md transition-colors ${sidebarTab === 'transcript' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              Transcript
+            </button>
+          </div>
+          )}
+          {sidebarTab === 'frames' || !videoFile ? (
+            <>
+              <div className="flex items-center justify-between">
+                <h2 className="font-bold text-slate-800">{videoFile ? 'Captured Frames' : 'Images'} ({frames.length})</h2>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => imageInputRef.current?.click()}
+                    disabled={isAnalyzing}
+                    className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Add PNG or JPEG files; you can also drop or paste them here"
+                  >
+                    Add images
+                  </button>
+                  <button
+                    onClick={() => runRedactionScan(false)}
+                    disabled={frames.length === 0 || isAnalyzing}
+                    className="text-xs font-semibold text-red-600 hover:text-red-800 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Find emails, keys and other sensitive text and blur it"
+                  >
+                    Redact PII
+                  </button>
+                </div>
+              </div>
+              <p className="text-xs text-slate-500 mt-1">
+                {videoFile ? 'Manually capture, use Auto-Select, or drop in screenshots.' : 'Drop, paste or add screenshots.'} Drag steps to reorder them.
+              </p>
+            </>
+          ) : (
+            <>
+              <h2 className="font-bold text-slate-800">Narration</h2>
+              <p className="text-xs text-slate-500 mt-1">Click a line to jump there; use the camera to capture it.</p>
+            </>
+          )}
         </div>
 
         <div className="flex-1 overflow-y-auto p-4 space-y-4 no-scrollbar">
-          {frames.length === 0 ? (
+          {sidebarTab === 'transcript' && videoFile ? (
+            <TranscriptPanel
+              transcript={clipTranscript}
+              isTranscribing={isTranscribing}
+              statusMessage={transcriptStatus}
+              disabled={isAnalyzing || isTranscribing}
+              onTranscribe={handleTranscribe}
+              onSeek={seekTo}
+              onCapture={captureAt}
+            />
+          ) : frames.length === 0 ? (
             <div className="h-full flex flex-col items-center justify-center text-slate-400 opacity-60">
               <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-12 h-12 mb-2">
                 <path strokeLinecap="round" strokeLinejoin="round" d="m2.25 15.75 5.159-5.159a2.25 2.25 0 0 1 3.182 0l5.159 5.159m-1.5-1.5 1.409-1.409a2.25 2.25 0 0 1 3.182 0l2.909 2.909m-18 3.75h16.5a1.5 1.5 0 0 0 1.5-1.5V6a1.5 1.5 0 0 0-1.5-1.5H3.75A1.5 1.5 0 0 0 2.25 6v12a1.5 1.5 0 0 0 1.5 1.5Zm10.5-11.25h.008v.008h-.008V8.25Zm.375 0a.375.375 0 1 1-.75 0 .375.375 0 0 1 .75 0Z" />
@@ -324,33 +1140,181 @@ const FrameCapturer: React.FC<FrameCapturerProps> = ({ videoFile, onGenerate, on
               <p className="text-sm text-center">Images will appear here</p>
             </div>
           ) : (
-            frames.map((frame, index) => (
-              <div key={frame.id} className="relative group bg-slate-50 p-2 rounded-lg border border-slate-200 shadow-sm transition-transform hover:scale-[1.02]">
-                <div className="absolute top-3 right-3 opacity-0 group-hover:opacity-100 transition-opacity">
-                  <button 
-                    onClick={() => removeFrame(frame.id)}
-                    className="bg-red-500 text-white p-1 rounded-full shadow hover:bg-red-600"
-                    title="Remove frame"
-                  >
+            frameGroups.map((group, groupIndex) => (
+              <React.Fragment key={group[0].id}>
+                {chapterStarts.has(group[0].id) && (
+                  <div className="flex items-center gap-2 pt-1 text-xs font-bold text-violet-700">
                     <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
-                      <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+                      <path d="M3.5 2.75a.75.75 0 0 0-1.5 0v14.5a.75.75 0 0 0 1.5 0v-4.392l1.657-.348a6.449 6.449 0 0 1 4.271.572 7.948 7.948 0 0 0 5.965.524l2.078-.64A.75.75 0 0 0 18 12.25v-8.5a.75.75 0 0 0-.904-.734l-2.38.501a7.25 7.25 0 0 1-4.186-.363l-.502-.2a8.75 8.75 0 0 0-5.053-.439l-1.475.31V2.75Z" />
                     </svg>
-                  </button>
-                </div>
-                <img src={frame.dataUrl} alt={`Frame at ${frame.originalTimeFormatted}`} className="w-full h-auto rounded border border-slate-300" />
-                <div className="mt-2 flex justify-between items-center px-1">
-                    <span className="text-xs font-semibold text-slate-500">Step {index + 1}</span>
-                    <span className="text-xs text-slate-400 font-mono">{frame.originalTimeFormatted}</span>
+                    <span className="truncate">{chapterStarts.get(group[0].id)}</span>
+                    <div className="flex-1 border-t border-violet-200" />
+                  </div>
+                )}
+                <div
+                  draggable={!isAnalyzing}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDragGroup(groupIndex);
+                  }}
+                  onDragOver={(e) => handleGroupDragOver(e, groupIndex)}
+                  onDrop={handleGroupDrop}
+                  onDragEnd={() => {
+                    setDragGroup(null);
+                    setDropIndex(null);
+                  }}
+                  className={`relative bg-slate-50 p-2 rounded-lg border shadow-sm cursor-grab active:cursor-grabbing
+                    ${group.length > 1 ? 'border-indigo-300' : 'border-slate-200'}
+                    ${dragGroup === groupIndex ? 'opacity-40' : ''}`}
+                >
+                  {dropIndex === groupIndex && dragGroup !== null && <div className="absolute -top-2.5 inset-x-0 h-1 bg-indigo-500 rounded-full" />}
+                  {dropIndex === groupIndex + 1 && groupIndex === frameGroups.length - 1 && dragGroup !== null && (
+                    <div className="absolute -bottom-2.5 inset-x-0 h-1 bg-indigo-500 rounded-full" />
+                  )}
+
+                  <div className="flex justify-between items-center px-1 mb-2">
+                    <span className="flex items-center gap-1 text-xs font-semibold text-slate-500">
+                      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4 text-slate-400">
+                        <path fillRule="evenodd" d="M2 4.75A.75.75 0 0 1 2.75 4h14.5a.75.75 0 0 1 0 1.5H2.75A.75.75 0 0 1 2 4.75ZM2 10a.75.75 0 0 1 .75-.75h14.5a.75.75 0 0 1 0 1.5H2.75A.75.75 0 0 1 2 10Zm0 5.25a.75.75 0 0 1 .75-.75h14.5a.75.75 0 0 1 0 1.5H2.75a.75.75 0 0 1-.75-.75Z" clipRule="evenodd" />
+                      </svg>
+                      Step {groupIndex + 1}{group.length > 1 && <span className="font-normal text-indigo-500">· {group.length} images</span>}
+                    </span>
+                    {groupIndex > 0 && (
+                      <button
+                        onClick={() => setFrames(prev => setGroupedWithPrevious(prev, group[0].id, true))}
+                        disabled={isAnalyzing}
+                        className="text-[11px] font-semibold text-indigo-600 hover:text-indigo-800 disabled:opacity-40"
+                        title="Show these images in the same step as the ones above, e.g. a before/after pair"
+                      >
+                        Join step above
+                      </button>
+                    )}
+                  </div>
+
+                  {group.map((frame, index) => (
+                    <React.Fragment key={frame.id}>
+                      {index > 0 && (
+                        <div className="flex items-center gap-2 my-2 text-[11px] text-slate-400">
+                          <div className="flex-1 border-t border-dashed border-slate-300" />
+                          <button
+                            onClick={() => setFrames(prev => setGroupedWithPrevious(prev, frame.id, false))}
+                            disabled={isAnalyzing}
+                            className="font-semibold text-slate-500 hover:text-slate-700 disabled:opacity-40"
+                            title="Start a new step from this image"
+                          >
+                            Split here
+                          </button>
+                          <div className="flex-1 border-t border-dashed border-slate-300" />
+                        </div>
+                      )}
+                      <div className="relative group">
+                        <div className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
+                          {isVideoFrame(frame) && frame.videoId === activeVideo?.id && (
+                          <>
+                          <button
+                            onClick={() => retimeFrame(frame.id, Math.max(0, frame.timestamp - FRAME_STEP))}
+                            disabled={isAnalyzing}
+                            className="bg-white text-slate-700 p-1 rounded-full shadow hover:bg-slate-100"
+                            title="Retake one frame earlier"
+                          >
+                            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                              <path fillRule="evenodd" d="M11.78 5.22a.75.75 0 0 1 0 1.06L8.06 10l3.72 3.72a.75.75 0 1 1-1.06 1.06l-4.25-4.25a.75.75 0 0 1 0-1.06l4.25-4.25a.75.75 0 0 1 1.06 0Z" clipRule="evenodd" />
+                            </svg>
+                          </button>
+                          <button
+                            onClick={() => retimeFrame(frame.id, Math.min(duration || Infinity, frame.timestamp + FRAME_STEP))}
+                            disabled={isAnalyzing}
+                            className="bg-white text-slate-700 p-1 rounded-full shadow hover:bg-slate-100"
+                            title="Retake one frame later"
+                          >
+                            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                              <path fillRule="evenodd" d="M8.22 5.22a.75.75 0 0 1 1.06 0l4.25 4.25a.75.75 0 0 1 0 1.06l-4.25 4.25a.75.75 0 0 1-1.06-1.06L11.94 10 8.22 6.28a.75.75 0 0 1 0-1.06Z" clipRule="evenodd" />
+                            </svg>
+                          </button>
+                          </>
+                          )}
+                          {videoFile && (
+                          <button
+                            onClick={() => retimeFrame(frame.id, currentTime)}
+                            disabled={isAnalyzing}
+                            className="bg-white text-slate-700 p-1 rounded-full shadow hover:bg-slate-100"
+                            title="Replace with the frame at the playhead"
+                          >
+                            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                              <path fillRule="evenodd" d="M15.312 11.424a5.5 5.5 0 0 1-9.201 2.466l-.312-.311h2.433a.75.75 0 0 0 0-1.5H3.989a.75.75 0 0 0-.75.75v4.242a.75.75 0 0 0 1.5 0v-2.43l.31.31a7 7 0 0 0 11.712-3.138.75.75 0 0 0-1.449-.39Zm1.23-3.723a.75.75 0 0 0 .219-.53V2.929a.75.75 0 0 0-1.5 0V5.36l-.31-.31A7 7 0 0 0 3.239 8.188a.75.75 0 1 0 1.448.389A5.5 5.5 0 0 1 13.89 6.11l.311.31h-2.432a.75.75 0 0 0 0 1.5h4.243a.75.75 0 0 0 .53-.219Z" clipRule="evenodd" />
+                            </svg>
+                          </button>
+                          )}
+                          <button
+                            onClick={() => setAnnotatingId(frame.id)}
+                            className="bg-white text-slate-700 p-1 rounded-full shadow hover:bg-slate-100"
+                            title="Annotate frame"
+                          >
+                            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                              <path d="m5.433 13.917 1.262-3.155A4 4 0 0 1 7.58 9.42l6.92-6.918a2.121 2.121 0 0 1 3 3l-6.92 6.918c-.383.383-.84.685-1.343.886l-3.154 1.262a.5.5 0 0 1-.65-.65Z" />
+                              <path d="M3.5 5.75c0-.69.56-1.25 1.25-1.25H10A.75.75 0 0 0 10 3H4.75A2.75 2.75 0 0 0 2 5.75v9.5A2.75 2.75 0 0 0 4.75 18h9.5A2.75 2.75 0 0 0 17 15.25V10a.75.75 0 0 0-1.5 0v5.25c0 .69-.56 1.25-1.25 1.25h-9.5c-.69 0-1.25-.56-1.25-1.25v-9.5Z" />
+                            </svg>
+                          </button>
+                          <button 
+                            onClick={() => deleteFrame(frame.id)}
+                            className="bg-red-500 text-white p-1 rounded-full shadow hover:bg-red-600"
+                            title="Remove frame"
+                          >
+                            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                              <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+                            </svg>
+                          </button>
+                        </div>
+                        <AnnotatedImage frame={frame} alt={frameLabel(frame)} className="w-full h-auto rounded border border-slate-300 pointer-events-none" />
+                        <div className="mt-1 flex items-start justify-between gap-2">
+                          <FrameQualityBadges
+                            quality={frameQualities[frame.id]}
+                            duplicateOfStep={duplicateOf.has(frame.id) ? stepOfFrame.get(duplicateOf.get(frame.id) || '') : undefined}
+                          />
+                          {isVideoFrame(frame) ? (
+                            <button
+                              onClick={() => jumpToFrame(frame)}
+                              className="ml-auto flex-shrink-0 px-1 text-xs text-slate-400 hover:text-indigo-600 font-mono"
+                              title="Jump to this moment"
+                            >
+                              {videos.length > 1 && `Clip ${clipOrder.indexOf(frame.videoId || '') + 1} · `}{frameLabel(frame)}
+                            </button>
+                          ) : (
+                            <div className="ml-auto min-w-0 px-1 text-xs text-slate-400 truncate text-right" title={frameLabel(frame)}>
+                              {frameLabel(frame)}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    </React.Fragment>
+                  ))}
                 </div>
-              </div>
+              </React.Fragment>
             ))
           )}
         </div>
 
         <div className="p-4 border-t border-slate-200 bg-white">
+          <button
+            onClick={() => setShowGenerationOptions(!showGenerationOptions)}
+            className="w-full mb-3 flex items-center justify-between gap-2 text-left"
+          >
+            <span className="min-w-0">
+              <span className="block text-xs font-semibold text-slate-600">Generation options</span>
+              <span className="block text-xs text-slate-400 truncate">{summarizeOptions(generationOptions)}</span>
+            </span>
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className={`w-4 h-4 text-slate-400 flex-shrink-0 transition-transform ${showGenerationOptions ? 'rotate-180' : ''}`}>
+              <path fillRule="evenodd" d="M9.47 6.47a.75.75 0 0 1 1.06 0l4.25 4.25a.75.75 0 1 1-1.06 1.06L10 8.06l-3.72 3.72a.75.75 0 0 1-1.06-1.06l4.25-4.25Z" clipRule="evenodd" />
+            </svg>
+          </button>
+          {showGenerationOptions && (
+            <div className="mb-4 max-h-[50vh] overflow-y-auto">
+              <GenerationOptionsPanel options={generationOptions} onChange={onGenerationOptionsChange} />
+            </div>
+          )}
           <button
             disabled={frames.length === 0 || isAnalyzing}
-            onClick={() => onGenerate(frames)}
+            onClick={handleGenerateClick}
             className={`w-full py-3 rounded-lg font-semibold flex items-center justify-center gap-2 shadow-sm
               ${frames.length === 0 || isAnalyzing
                 ? 'bg-slate-200 text-slate-400 cursor-not-allowed' 
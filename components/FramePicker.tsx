@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { CapturedFrame, HandoutStep } from '../types';
+import AnnotatedImage from './AnnotatedImage';
+import { frameLabel } from '../services/imageImport';
+import { stepLabels } from '../services/handoutContent';
+
+interface FramePickerProps {
+  frames: CapturedFrame[];
+  steps: HandoutStep[];
+  stepIndex: number;
+  onConfirm: (frameIds: string[]) => void;
+  onClose: () => void;
+}
+
+// Modal for choosing which captured frames illustrate a step.
+// Frames already used elsewhere are labelled so the same picture isn't bound twice by accident.
+const FramePicker: React.FC<FramePickerProps> = ({ frames, steps, stepIndex, onConfirm, onClose }) => {
+  const [selected, setSelected] = useState<string[]>(steps[stepIndex]?.frameIds || []);
+
+  const labels = stepLabels(steps);
+
+  const usedBy = (frameId: string) =>
+    steps.flatMap((step, i) => (i !== stepIndex && step.frameIds.includes(frameId) ? [labels[i]] : []));
+
+  const toggle = (frameId: string) => {
+    setSelected(prev => (prev.includes(frameId) ? prev.filter(id => id !== frameId) : [...prev, frameId]));
+  };
+
+  return (
+    <div className="no-print fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-slate-100">
+          <h3 className="text-lg font-bold text-slate-800">Images for Step {labels[stepIndex]}</h3>
+          <p className="text-sm text-slate-500">Click to select or deselect. Images appear in the order you select them.</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 grid grid-cols-2 sm:grid-cols-3 gap-4">
+          {frames.map(frame => {
+            const order = selected.indexOf(frame.id);
+            const others = usedBy(frame.id);
+            return (
+              <button
+                key={frame.id}
+                onClick={() => toggle(frame.id)}
+                className={`relative text-left rounded-lg border-2 p-1.5 transition-colors
+                  ${order >= 0 ? 'border-indigo-600 bg-indigo-50' : 'border-slate-200 hover:border-slate-400'}`}
+              >
+                <AnnotatedImage frame={frame} alt={frameLabel(frame)} className="w-full h-auto rounded" />
+                <div className="mt-1 flex justify-between items-center px-1">
+                  <span className="text-xs text-slate-400 font-mono truncate">{frameLabel(frame)}</span>
+                  {others.length > 0 && (
+                    <span className="text-[10px] font-semibold text-amber-700 bg-amber-100 px-1.5 py-0.5 rounded">
+                      Step {others.join(', ')}
+                    </span>
+                  )}
+                </div>
+                {order >= 0 && (
+                  <div className="absolute top-3 left-3 w-6 h-6 rounded-full bg-indigo-600 text-white text-xs font-bold flex items-center justify-center shadow">
+                    {order + 1}
+                  </div>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 font-semibold rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(selected)}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-md transition-colors"
+          >
+            Use {selected.length} {selected.length === 1 ? 'Image' : 'Images'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FramePicker;
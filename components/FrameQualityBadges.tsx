@@ -0,0 +1,37 @@
+import React from 'react';
+import { FrameQuality, QUALITY_ISSUE_LABELS, qualityIssues } from '../services/frameQuality';
+
+interface FrameQualityBadgesProps {
+  quality?: FrameQuality; // Missing while the frame is still being scored
+  duplicateOfStep?: number; // Step number of an earlier frame that shows the same screen
+}
+
+// Sharpness and brightness of a captured frame, with warnings for frames unlikely to make a good step
+const FrameQualityBadges: React.FC<FrameQualityBadgesProps> = ({ quality, duplicateOfStep }) => {
+  if (!quality) return null;
+  const issues = qualityIssues(quality);
+  const sharpnessColor = quality.sharpness >= 60 ? 'bg-emerald-50 text-emerald-700' : quality.sharpness >= 30 ? 'bg-amber-50 text-amber-700' : 'bg-red-50 text-red-700';
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {issues.map(issue => (
+        <span key={issue} className="px-1.5 rounded text-[10px] font-semibold bg-red-100 text-red-700" title={QUALITY_ISSUE_LABELS[issue].description}>
+          {QUALITY_ISSUE_LABELS[issue].label}
+        </span>
+      ))}
+      {duplicateOfStep !== undefined && (
+        <span className="px-1.5 rounded text-[10px] font-semibold bg-amber-100 text-amber-800" title={`Looks the same as a frame in step ${duplicateOfStep}`}>
+          {QUALITY_ISSUE_LABELS.duplicate.label} of {duplicateOfStep}
+        </span>
+      )}
+      <span className={`px-1.5 rounded text-[10px] font-mono ${sharpnessColor}`} title="Sharpness, 0 to 100">
+        S {quality.sharpness}
+      </span>
+      <span className="px-1.5 rounded text-[10px] font-mono bg-slate-100 text-slate-600" title="Average brightness">
+        B {Math.round(quality.brightness * 100)}%
+      </span>
+    </div>
+  );
+};
+
+export default FrameQualityBadges;
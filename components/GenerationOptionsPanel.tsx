@@ -0,0 +1,115 @@
+import React from 'react';
+import { GenerationOptions } from '../types';
+import {
+  AUDIENCE_SUGGESTIONS,
+  DEFAULT_GENERATION_OPTIONS,
+  LANGUAGE_SUGGESTIONS,
+  READING_LEVELS,
+  TONES,
+  VERBOSITY_LEVELS,
+} from '../services/generationOptions';
+
+interface GenerationOptionsPanelProps {
+  options: GenerationOptions;
+  onChange: (options: GenerationOptions) => void;
+}
+
+type SectionKey = 'includeTips' | 'includeWarnings' | 'includeSubSteps' | 'includePrerequisites' | 'includeMaterials' | 'includeTroubleshooting' | 'includeFaq';
+
+const SECTION_TOGGLES: { key: SectionKey; label: string }[] = [
+  { key: 'includeTips', label: 'Tips & notes' },
+  { key: 'includeWarnings', label: 'Warnings' },
+  { key: 'includeSubSteps', label: 'Sub-steps' },
+  { key: 'includePrerequisites', label: 'Prerequisites' },
+  { key: 'includeMaterials', label: 'Materials' },
+  { key: 'includeTroubleshooting', label: 'Troubleshooting' },
+  { key: 'includeFaq', label: 'FAQ' },
+];
+
+const Segmented = <T extends string>({ value, options, onChange }: {
+  value: T;
+  options: { id: T; label: string }[];
+  onChange: (value: T) => void;
+}) => (
+  <div className="flex bg-slate-100 rounded-lg p-1 text-xs font-semibold">
+    {options.map(option => (
+      <button
+        key={option.id}
+        onClick={() => onChange(option.id)}
+        className={`flex-1 py-1 rounded-md transition-colors ${value === option.id ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+const GenerationOptionsPanel: React.FC<GenerationOptionsPanelProps> = ({ options, onChange }) => {
+  const update = (patch: Partial<GenerationOptions>) => onChange({ ...options, ...patch });
+
+  return (
+    <div className="space-y-3 text-sm">
+      <label className="block text-xs font-semibold text-slate-600">
+        Audience
+        <input
+          list="audience-suggestions"
+          value={options.audience}
+          onChange={(e) => update({ audience: e.target.value })}
+          onBlur={(e) => !e.target.value.trim() && update({ audience: DEFAULT_GENERATION_OPTIONS.audience })}
+          className="mt-1 w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm font-normal focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        <datalist id="audience-suggestions">
+          {AUDIENCE_SUGGESTIONS.map(a => <option key={a} value={a} />)}
+        </datalist>
+      </label>
+
+      <label className="block text-xs font-semibold text-slate-600">
+        Language
+        <input
+          list="language-suggestions"
+          value={options.language}
+          onChange={(e) => update({ language: e.target.value })}
+          onBlur={(e) => !e.target.value.trim() && update({ language: DEFAULT_GENERATION_OPTIONS.language })}
+          className="mt-1 w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm font-normal focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        <datalist id="language-suggestions">
+          {LANGUAGE_SUGGESTIONS.map(l => <option key={l} value={l} />)}
+        </datalist>
+      </label>
+
+      <div>
+        <div className="text-xs font-semibold text-slate-600 mb-1">Reading level</div>
+        <Segmented value={options.readingLevel} options={READING_LEVELS} onChange={(readingLevel) => update({ readingLevel })} />
+      </div>
+
+      <div>
+        <div className="text-xs font-semibold text-slate-600 mb-1">Tone</div>
+        <Segmented value={options.tone} options={TONES} onChange={(tone) => update({ tone })} />
+      </div>
+
+      <div>
+        <div className="text-xs font-semibold text-slate-600 mb-1">Detail</div>
+        <Segmented value={options.verbosity} options={VERBOSITY_LEVELS} onChange={(verbosity) => update({ verbosity })} />
+      </div>
+
+      <div>
+        <div className="text-xs font-semibold text-slate-600 mb-1">Include</div>
+        <div className="grid grid-cols-2 gap-1">
+          {SECTION_TOGGLES.map(toggle => (
+            <label key={toggle.key} className="flex items-center gap-2 text-slate-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options[toggle.key]}
+                onChange={(e) => update({ [toggle.key]: e.target.checked })}
+                className="rounded text-indigo-600 focus:ring-indigo-500"
+              />
+              {toggle.label}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationOptionsPanel;
@@ -1,37 +1,941 @@
-import React from 'react';
-import { HandoutData, CapturedFrame } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Callout, CalloutType, Difficulty, FaqItem, HandoutData, HandoutSection, HandoutStep, HandoutTheme, HandoutTranslation, CapturedFrame, GenerationOptions, TroubleshootingItem } from '../types';
+import EditableText from './EditableText';
+import FramePicker from './FramePicker';
+import AnnotatedImage from './AnnotatedImage';
+import AnnotationEditor from './AnnotationEditor';
+import ThemePanel from './ThemePanel';
+import RewriteDialog, { RewriteField, RewriteProposal } from './RewriteDialog';
+import TranslateDialog from './TranslateDialog';
+import TranslationCompare from './TranslationCompare';
+import { useUndoableState } from '../hooks/useUndoableState';
+import { EXPORT_OPTIONS, ExportFormat, exportHandout, HandoutVariant } from '../services/export';
+import { ResolvedStep, resolveStepImages } from '../services/export/common';
+import { regenerateHeader, regenerateStep, rewriteHandout, translateHandout } from '../services/geminiService';
+import { alignTranslation, isRtlLanguage, isTranslationOutdated } from '../services/translationService';
+import { calloutShades, fillThemeText, fontCss, getTheme, PAGE_SIZES } from '../services/themeService';
+import { CALLOUT_TYPES, calloutLabel, DIFFICULTY_LEVELS, handoutMeta, numberSteps, sectionRuns, stepLabels } from '../services/handoutContent';
 
 interface HandoutDisplayProps {
   data: HandoutData;
   frames: CapturedFrame[];
+  onChange: (data: HandoutData) => void;
+  translations: HandoutTranslation[];
+  onTranslationsChange: (translations: HandoutTranslation[]) => void;
+  onFramesChange: (frames: CapturedFrame[]) => void;
+  themeId: string;
+  generationOptions: GenerationOptions;
+  onThemeChange: (themeId: string) => void;
   onReset: () => void;
 }
 
-const HandoutDisplay: React.FC<HandoutDisplayProps> = ({ data, frames, onReset }) => {
-  // Map step data back to frames by index. 
-  // Assumption: frames were sent sorted, and API returns steps in same order.
-  const stepsWithImages = data.steps.map((step, index) => {
-    // Sort frames again to be safe
-    const sortedFrames = [...frames].sort((a, b) => a.timestamp - b.timestamp);
-    return {
-      ...step,
-      image: sortedFrames[index] || null
-    };
+// The original and its translations share one undo history
+interface HandoutDocument {
+  source: HandoutData;
+  translations: HandoutTranslation[];
+}
+
+type RewriteTarget = { kind: 'step'; index: number } | { kind: 'header' } | { kind: 'handout' };
+
+const calloutLines = (step?: HandoutStep) => (step?.callouts || []).map(c => `${calloutLabel(c.type)}: ${c.text}`).join('\n');
+
+const stepFields = (label: string, before?: HandoutStep, after?: HandoutStep): RewriteField[] => [
+  { label: `${label} title`, before: before?.title || '', after: after?.title || '' },
+  { label: `${label} description`, before: before?.description || '', after: after?.description || '' },
+  { label: `${label} sub-steps`, before: (before?.subSteps || []).join('\n'), after: (after?.subSteps || []).join('\n') },
+  { label: `${label} callouts`, before: calloutLines(before), after: calloutLines(after) },
+];
+
+// Editable lists are typed one entry per line; blank lines are kept while typing and dropped on display
+const splitLines = (text: string): string[] | undefined => (text ? text.split('\n') : undefined);
+
+const HandoutDisplay: React.FC<HandoutDisplayProps> = ({
+  data: initialData,
+  frames,
+  onChange,
+  translations: initialTranslations,
+  onTranslationsChange,
+  onFramesChange,
+  themeId,
+  generationOptions,
+  onThemeChange,
+  onReset,
+}) => {
+  const { state: doc, set: setDoc, undo, redo, canUndo, canRedo } = useUndoableState<HandoutDocument>({
+    source: initialData,
+    translations: initialTranslations,
   });
+  const [language, setLanguage] = useState<string | null>(null); // null shows the original
+  const [isEditing, setIsEditing] = useState(false);
+  const [pickingStep, setPickingStep] = useState<number | null>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [annotatingId, setAnnotatingId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [theme, setTheme] = useState<HandoutTheme>(() => getTheme(themeId));
+  const [showThemePanel, setShowThemePanel] = useState(false);
+  const [rewriteTarget, setRewriteTarget] = useState<RewriteTarget | null>(null);
+  const [showLanguageMenu, setShowLanguageMenu] = useState(false);
+  const [translateLanguages, setTranslateLanguages] = useState<string[] | null>(null);
+  const [showCompare, setShowCompare] = useState(false);
+  const [exportAllLanguages, setExportAllLanguages] = useState(false);
+
+  const translation = language !== null ? doc.translations.find(t => t.language === language) : undefined;
+  const isOriginal = !translation;
+  const data = useMemo(
+    () => (translation ? alignTranslation(doc.source, translation.data) : doc.source),
+    [doc.source, translation]
+  );
+  const rtl = translation ? translation.rtl : isRtlLanguage(generationOptions.language);
+  // Rewrites of a translation stay in its language
+  const activeOptions = translation ? { ...generationOptions, language: translation.language } : generationOptions;
+
+  // Edits go to whichever language is on screen. Structural edits are only offered on the original.
+  const setData = (next: HandoutData | ((prev: HandoutData) => HandoutData), mergeKey?: string) => {
+    setDoc(prev => {
+      const active = language !== null ? prev.translations.find(t => t.language === language) : undefined;
+      const current = active ? alignTranslation(prev.source, active.data) : prev.source;
+      const value = typeof next === 'function' ? next(current) : next;
+      if (value === current) return prev;
+      if (!active) return { ...prev, source: value };
+      return { ...prev, translations: prev.translations.map(t => (t === active ? { ...t, data: value } : t)) };
+    }, mergeKey && `${language ?? ''}:${mergeKey}`);
+  };
+
+  // Report every edit upward so print and export always see the latest version
+  useEffect(() => {
+    onChange(doc.source);
+  }, [doc.source]);
+
+  useEffect(() => {
+    onTranslationsChange(doc.translations);
+  }, [doc.translations]);
+
+  // Undo can remove the translation being viewed
+  useEffect(() => {
+    if (language !== null && !translation) setLanguage(null);
+  }, [language, translation]);
+
+  useEffect(() => {
+    if (!isEditing) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEditing, undo, redo]);
+
+  const stepsWithImages = resolveStepImages(data, frames);
+  const labels = stepLabels(data.steps);
+  const annotatingFrame = frames.find(f => f.id === annotatingId);
+
+  const updateStep = (index: number, patch: Partial<HandoutStep>, field: string) => {
+    setData(prev => ({
+      ...prev,
+      steps: prev.steps.map((step, i) => (i === index ? { ...step, ...patch } : step)),
+    }), `step-${index}-${field}`);
+  };
+
+  // Translations line up with the original by position, so step order changes are applied to all of them
+  const editSteps = (edit: (steps: HandoutStep[], isSource: boolean) => HandoutStep[]) => {
+    setDoc(prev => ({
+      source: { ...prev.source, steps: numberSteps(edit(prev.source.steps, true)) },
+      translations: prev.translations.map(t => ({ ...t, data: { ...t.data, steps: numberSteps(edit(t.data.steps, false)) } })),
+    }));
+  };
+
+  // A new step joins the section of the step before it, or of the first step when inserted at the top
+  const addStep = (atIndex: number, sectionId = (doc.source.steps[atIndex - 1] || doc.source.steps[atIndex])?.sectionId) => {
+    editSteps((prevSteps, isSource) => {
+      const steps = [...prevSteps];
+      // An empty title marks the step as untranslated
+      steps.splice(atIndex, 0, { stepNumber: atIndex + 1, title: isSource ? 'New step' : '', description: '', frameIds: [], sectionId });
+      return steps;
+    });
+  };
+
+  const deleteStep = (index: number) => {
+    editSteps(steps => steps.filter((_, i) => i !== index));
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= doc.source.steps.length) return;
+    // At a section boundary the step moves into the neighbouring section instead of swapping places
+    const sectionId = doc.source.steps[target].sectionId;
+    if (sectionId !== doc.source.steps[index].sectionId) {
+      editSteps(steps => steps.map((step, i) => (i === index ? { ...step, sectionId } : step)));
+      return;
+    }
+    editSteps(prevSteps => {
+      const steps = [...prevSteps];
+      if (target < steps.length) [steps[index], steps[target]] = [steps[target], steps[index]];
+      return steps;
+    });
+  };
+
+  const updateSection = (index: number, patch: Partial<HandoutSection>, field: string) => {
+    setData(prev => ({
+      ...prev,
+      sections: (prev.sections || []).map((section, i) => (i === index ? { ...section, ...patch } : section)),
+    }), `section-${index}-${field}`);
+  };
+
+  // Sections line up with translations by position too. Removing one hands its steps to the section before it.
+  const mergeSectionIntoPrevious = (index: number) => {
+    const sections = doc.source.sections || [];
+    if (index < 1 || index >= sections.length) return;
+    const removed = sections[index].id;
+    const previous = sections[index - 1].id;
+    setDoc(prev => ({
+      source: {
+        ...prev.source,
+        sections: sections.filter((_, i) => i !== index),
+        steps: numberSteps(prev.source.steps.map(step => (step.sectionId === removed ? { ...step, sectionId: previous } : step))),
+      },
+      translations: prev.translations.map(t => ({ ...t, data: { ...t.data, sections: t.data.sections?.filter((_, i) => i !== index) } })),
+    }));
+  };
+
+  const addSection = () => {
+    const section: HandoutSection = { id: Math.random().toString(36).substr(2, 9), title: 'New section', summary: '' };
+    const add = (data: HandoutData, isSource: boolean): HandoutData => ({
+      ...data,
+      sections: [...(data.sections || []), isSource ? section : { ...section, title: '' }],
+      steps: numberSteps([...data.steps, { stepNumber: 1, title: isSource ? 'New step' : '', description: '', frameIds: [], sectionId: section.id }]),
+    });
+    setDoc(prev => ({
+      source: add(prev.source, true),
+      translations: prev.translations.map(t => ({ ...t, data: add(t.data, false) })),
+    }));
+  };
+
+  const setStepFrames = (index: number, frameIds: string[]) => {
+    setData(prev => ({
+      ...prev,
+      steps: prev.steps.map((step, i) => (i === index ? { ...step, frameIds } : step)),
+    }));
+  };
+
+  const updateCallout = (index: number, calloutIndex: number, patch: Partial<Callout>) => {
+    setData(prev => ({
+      ...prev,
+      steps: prev.steps.map((step, i) => (i === index
+        ? { ...step, callouts: (step.callouts || []).map((c, j) => (j === calloutIndex ? { ...c, ...patch } : c)) }
+        : step)),
+    }), `step-${index}-callout-${calloutIndex}`);
+  };
+
+  const addCallout = (index: number, type: CalloutType) => {
+    setData(prev => ({
+      ...prev,
+      steps: prev.steps.map((step, i) => (i === index ? { ...step, callouts: [...(step.callouts || []), { type, text: '' }] } : step)),
+    }));
+  };
+
+  const deleteCallout = (index: number, calloutIndex: number) => {
+    editSteps(steps => steps.map((step, i) => {
+      if (i !== index) return step;
+      const callouts = (step.callouts || []).filter((_, j) => j !== calloutIndex);
+      return { ...step, callouts: callouts.length > 0 ? callouts : undefined };
+    }));
+  };
+
+  // Model calls work on a snapshot; the dialog is modal, so nothing else edits the handout meanwhile
+  const runRewrite = async (target: RewriteTarget, instruction: string): Promise<RewriteProposal> => {
+    switch (target.kind) {
+      case 'step': {
+        const before = data.steps[target.index];
+        const after = await regenerateStep(data, target.index, frames, instruction, activeOptions);
+        return {
+          fields: stepFields(`Step ${labels[target.index]}`, before, after),
+          apply: () => setData(prev => ({
+            ...prev,
+            steps: prev.steps.map((step, i) => (i === target.index ? { ...step, title: after.title, description: after.description, subSteps: after.subSteps, callouts: after.callouts } : step)),
+          })),
+        };
+      }
+      case 'header': {
+        const after = await regenerateHeader(data, instruction, activeOptions);
+        return {
+          fields: [
+            { label: 'Title', before: data.title, after: after.title },
+            { label: 'Summary', before: data.summary, after: after.summary },
+          ],
+          apply: () => setData(prev => ({ ...prev, ...after })),
+        };
+      }
+      case 'handout': {
+        const after = await rewriteHandout(data, frames, instruction, generationOptions);
+        const count = Math.max(data.steps.length, after.steps.length);
+        return {
+          fields: [
+            { label: 'Title', before: data.title, after: after.title },
+            { label: 'Summary', before: data.summary, after: after.summary },
+            { label: 'Estimated time', before: data.estimatedTime || '', after: after.estimatedTime || '' },
+            { label: 'Difficulty', before: data.difficulty || '', after: after.difficulty || '' },
+            { label: 'Prerequisites', before: (data.prerequisites || []).join('\n'), after: (after.prerequisites || []).join('\n') },
+            { label: 'Materials', before: (data.materials || []).join('\n'), after: (after.materials || []).join('\n') },
+            {
+              label: 'Troubleshooting',
+              before: (data.troubleshooting || []).map(t => `${t.problem}: ${t.solution}`).join('\n'),
+              after: (after.troubleshooting || []).map(t => `${t.problem}: ${t.solution}`).join('\n'),
+            },
+            {
+              label: 'FAQ',
+              before: (data.faq || []).map(f => `${f.question}: ${f.answer}`).join('\n'),
+              after: (after.faq || []).map(f => `${f.question}: ${f.answer}`).join('\n'),
+            },
+            ...(data.sections || after.sections ? [{
+              label: 'Sections',
+              before: (data.sections || []).map(s => s.title).join('\n'),
+              after: (after.sections || []).map(s => s.title).join('\n'),
+            }] : []),
+            ...Array.from({ length: count }, (_, i) => stepFields(`Step ${labels[i] || i + 1}`, data.steps[i], after.steps[i])).flat(),
+          ],
+          apply: () => setData(after),
+        };
+      }
+    }
+  };
+
+  const handleTranslate = async (target: string) => {
+    const translated = await translateHandout(doc.source, target);
+    setDoc(prev => ({
+      ...prev,
+      translations: [
+        ...prev.translations.filter(t => t.language !== target),
+        { language: target, rtl: isRtlLanguage(target), data: translated },
+      ],
+    }));
+    setLanguage(target);
+  };
+
+  const deleteTranslation = (target: string) => {
+    if (!window.confirm(`Delete the ${target} translation?`)) return;
+    setDoc(prev => ({ ...prev, translations: prev.translations.filter(t => t.language !== target) }));
+    if (language === target) setLanguage(null);
+  };
 
   const handlePrint = () => {
-    window.print();
+    // Leave edit mode first so the printout shows text, not form fields
+    setIsEditing(false);
+    setTimeout(() => window.print(), 0);
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setShowExportMenu(false);
+    setIsExporting(true);
+    try {
+      const original: HandoutVariant = { language: generationOptions.language, rtl: isRtlLanguage(generationOptions.language), original: true, data: doc.source };
+      const variants: HandoutVariant[] = exportAllLanguages && doc.translations.length > 0
+        ? [original, ...doc.translations.map(t => ({ language: t.language, rtl: t.rtl, original: false, data: alignTranslation(doc.source, t.data) }))]
+        : translation ? [{ language: translation.language, rtl: translation.rtl, original: false, data }] : [original];
+      await exportHandout(format, variants, frames, theme);
+    } catch (err: any) {
+      console.error("Export error:", err);
+      alert(`Export failed.\n\nReason: ${err.message}`);
+    } finally {
+      setIsExporting(false);
+    }
   };
 
+  const editStructure = isEditing && isOriginal;
+  const page = PAGE_SIZES[theme.pageSize];
+  const headingStyle = { fontFamily: fontCss(theme.headingFont) };
+  const compact = theme.layout === 'compact';
+
+  const renderBadge = (step: ResolvedStep) => (
+    <div
+      className={`${compact ? 'w-7 h-7 text-sm' : 'w-10 h-10 text-xl'} flex-shrink-0 text-white rounded-full flex items-center justify-center font-bold`}
+      style={{ backgroundColor: theme.badgeColor }}
+    >
+      {step.stepNumber}
+    </div>
+  );
+
+  const renderTitle = (step: ResolvedStep, idx: number) => (
+    <EditableText
+      as="h3"
+      editing={isEditing}
+      value={step.title}
+      onChange={(title) => updateStep(idx, { title }, 'title')}
+      placeholder="Step title"
+      className={`${compact ? 'text-base' : 'text-xl'} font-bold text-slate-800`}
+      style={headingStyle}
+    />
+  );
+
+  const renderImages = (step: ResolvedStep, idx: number, imageClassName: string) => (
+    <>
+      {step.images.length > 0 && (
+        <div className={`${compact ? 'mb-2' : 'mb-4'} flex flex-wrap gap-3`}>
+          {step.images.map((image, imageIdx) => (
+            <div key={image.id} className="relative group/image border border-slate-200 rounded-lg overflow-hidden shadow-sm bg-slate-50 inline-block max-w-full">
+              <AnnotatedImage 
+               frame={image} 
+               alt={step.images.length > 1 ? `Step ${step.stepNumber} (${imageIdx + 1})` : `Step ${step.stepNumber}`} 
+               className={`${imageClassName} object-contain`}
+              />
+              {editStructure && (
+                <button
+                  onClick={() => setAnnotatingId(image.id)}
+                  className="no-print absolute top-2 left-2 bg-white text-slate-700 px-2 py-1 rounded-full shadow hover:bg-slate-100 text-xs font-semibold opacity-0 group-hover/image:opacity-100 transition-opacity"
+                >
+                  Annotate
+                </button>
+              )}
+              {editStructure && (
+                <button
+                  onClick={() => setStepFrames(idx, step.frameIds.filter(id => id !== image.id))}
+                  className="no-print absolute top-2 right-2 bg-red-500 text-white p-1 rounded-full shadow hover:bg-red-600 opacity-0 group-hover/image:opacity-100 transition-opacity"
+                  title="Remove image from step"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                    <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+                  </svg>
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editStructure && (
+        <button
+          onClick={() => setPickingStep(idx)}
+          className="no-print mb-4 text-sm font-semibold text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+            <path strokeLinecap="round" strokeLinejoin="round" d="m2.25 15.75 5.159-5.159a2.25 2.25 0 0 1 3.182 0l5.159 5.159m-1.5-1.5 1.409-1.409a2.25 2.25 0 0 1 3.182 0l2.909 2.909m-18 3.75h16.5a1.5 1.5 0 0 0 1.5-1.5V6a1.5 1.5 0 0 0-1.5-1.5H3.75A1.5 1.5 0 0 0 2.25 6v12a1.5 1.5 0 0 0 1.5 1.5Z" />
+          </svg>
+          {step.images.length > 0 ? 'Change images' : 'Add image'}
+        </button>
+      )}
+    </>
+  );
+
+  const renderText = (step: ResolvedStep, idx: number) => {
+    const calloutClassName = `border-s-4 rounded-e mb-2 ${compact ? 'p-2 text-xs' : 'p-3 text-sm'}`;
+    const subSteps = (step.subSteps || []).filter(sub => sub.trim());
+    return (
+      <>
+        <EditableText
+          editing={isEditing}
+          multiline
+          value={step.description}
+          onChange={(description) => updateStep(idx, { description }, 'description')}
+          placeholder="Describe what to do in this step"
+          className={`text-slate-700 leading-relaxed ${compact ? 'text-sm mb-2' : 'mb-3'}`}
+        />
+
+        {isEditing ? (
+          <EditableText
+            editing
+            multiline
+            value={(step.subSteps || []).join('\n')}
+            onChange={(text) => updateStep(idx, { subSteps: splitLines(text) }, 'subSteps')}
+            placeholder="Optional sub-steps, one per line"
+            className={`text-slate-700 ${compact ? 'text-sm mb-2' : 'mb-3'}`}
+          />
+        ) : subSteps.length > 0 && (
+          <ol className={`list-[lower-alpha] ps-6 text-slate-700 leading-relaxed space-y-0.5 ${compact ? 'text-sm mb-2' : 'mb-3'}`}>
+            {subSteps.map((sub, i) => <li key={i}>{sub}</li>)}
+          </ol>
+        )}
+
+        {(step.callouts || []).map((callout, calloutIdx) => {
+          if (!isEditing && !callout.text.trim()) return null;
+          const shades = calloutShades(theme, callout.type);
+          return (
+            <div
+              key={calloutIdx}
+              className={calloutClassName}
+              style={{ backgroundColor: shades.background, borderColor: shades.border, color: shades.text }}
+            >
+              {isEditing ? (
+                <>
+                  <div className="flex items-center gap-2">
+                    {isOriginal ? (
+                      <select
+                        value={callout.type}
+                        onChange={(e) => updateCallout(idx, calloutIdx, { type: e.target.value as CalloutType })}
+                        className="no-print bg-white/70 border border-slate-300 rounded px-1 py-0.5 text-xs font-bold"
+                      >
+                        {CALLOUT_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                      </select>
+                    ) : (
+                      <strong>{calloutLabel(callout.type)}:</strong>
+                    )}
+                    {isOriginal && (
+                      <button
+                        onClick={() => deleteCallout(idx, calloutIdx)}
+                        className="no-print ms-auto p-0.5 rounded hover:bg-white/60"
+                        title="Remove callout"
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                          <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+                        </svg>
+                      </button>
+                    )}
+                  </div>
+                  <EditableText
+                    editing
+                    multiline
+                    value={callout.text}
+                    onChange={(text) => updateCallout(idx, calloutIdx, { text })}
+                    placeholder={`${calloutLabel(callout.type)} text`}
+                    className="mt-1"
+                  />
+                </>
+              ) : (
+                <><strong>{calloutLabel(callout.type)}:</strong> {callout.text}</>
+              )}
+            </div>
+          );
+        })}
+
+        {editStructure && (
+          <div className="no-print flex flex-wrap gap-3 text-xs font-semibold text-indigo-600">
+            {CALLOUT_TYPES.map(t => (
+              <button key={t.id} onClick={() => addCallout(idx, t.id)} className="hover:text-indigo-800">
+                + {t.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  const renderControls = (idx: number, direction: 'row' | 'col') => isEditing && (
+    <div className={`no-print flex ${direction === 'col' ? 'flex-col' : 'flex-row'} gap-1 flex-shrink-0`}>
+      <button
+        onClick={() => setRewriteTarget({ kind: 'step', index: idx })}
+        className="p-1.5 rounded bg-indigo-50 hover:bg-indigo-100 text-indigo-600"
+        title="Regenerate step"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904 9 18.75l-.813-2.846a4.5 4.5 0 0 0-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 0 0 3.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 0 0 3.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 0 0-3.09 3.09ZM18.259 8.715 18 9.75l-.259-1.035a3.375 3.375 0 0 0-2.455-2.456L14.25 6l1.036-.259a3.375 3.375 0 0 0 2.455-2.456L18 2.25l.259 1.035a3.375 3.375 0 0 0 2.456 2.456L21.75 6l-1.035.259a3.375 3.375 0 0 0-2.456 2.456ZM16.894 20.567 16.5 21.75l-.394-1.183a2.25 2.25 0 0 0-1.423-1.423L13.5 18.75l1.183-.394a2.25 2.25 0 0 0 1.423-1.423l.394-1.183.394 1.183a2.25 2.25 0 0 0 1.423 1.423l1.183.394-1.183.394a2.25 2.25 0 0 0-1.423 1.423Z" />
+        </svg>
+      </button>
+      {isOriginal && (
+        <>
+          <button
+            onClick={() => moveStep(idx, -1)}
+            disabled={idx === 0}
+            className="p-1.5 rounded bg-slate-100 hover:bg-slate-200 text-slate-600 disabled:opacity-30 disabled:cursor-not-allowed"
+            title="Move step up"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+              <path fillRule="evenodd" d="M9.47 6.47a.75.75 0 0 1 1.06 0l4.25 4.25a.75.75 0 1 1-1.06 1.06L10 8.06l-3.72 3.72a.75.75 0 0 1-1.06-1.06l4.25-4.25Z" clipRule="evenodd" />
+            </svg>
+          </button>
+          <button
+            onClick={() => moveStep(idx, 1)}
+            disabled={idx === stepsWithImages.length - 1}
+            className="p-1.5 rounded bg-slate-100 hover:bg-slate-200 text-slate-600 disabled:opacity-30 disabled:cursor-not-allowed"
+            title="Move step down"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+              <path fillRule="evenodd" d="M5.22 8.22a.75.75 0 0 1 1.06 0L10 11.94l3.72-3.72a.75.75 0 1 1 1.06 1.06l-4.25 4.25a.75.75 0 0 1-1.06 0L5.22 9.28a.75.75 0 0 1 0-1.06Z" clipRule="evenodd" />
+            </svg>
+          </button>
+          <button
+            onClick={() => deleteStep(idx)}
+            className="p-1.5 rounded bg-red-50 hover:bg-red-100 text-red-600"
+            title="Delete step"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+              <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+            </svg>
+          </button>
+        </>
+      )}
+    </div>
+  );
+
+  const renderInsert = (idx: number) => editStructure && (
+    <button
+      onClick={() => addStep(idx + 1)}
+      className="no-print absolute left-1/2 -translate-x-1/2 -bottom-7 opacity-0 group-hover:opacity-100 transition-opacity text-xs font-semibold text-indigo-600 bg-white border border-indigo-200 rounded-full px-3 py-1 shadow-sm hover:bg-indigo-50 z-10"
+    >
+      + Insert step
+    </button>
+  );
+
+  const renderStep = (step: ResolvedStep, idx: number) => {
+    const multiple = step.images.length > 1;
+    switch (theme.layout) {
+      case 'grid':
+      case 'compact':
+        return (
+          <div key={idx} className={`relative group break-inside-avoid border border-slate-200 rounded-xl ${compact ? 'p-3' : 'p-4'}`}>
+            <div className="flex items-start gap-3 mb-3">
+              {renderBadge(step)}
+              <div className="flex-1 min-w-0 pt-1">{renderTitle(step, idx)}</div>
+              {renderControls(idx, 'row')}
+            </div>
+            {renderImages(step, idx, compact ? 'max-h-[110px] w-auto' : `${multiple ? 'max-h-[140px]' : 'max-h-[200px]'} w-auto`)}
+            {renderText(step, idx)}
+            {renderInsert(idx)}
+          </div>
+        );
+      case 'imageLeft':
+        return (
+          <div key={idx} className="relative group flex gap-6 break-inside-avoid page-break mb-8 items-start">
+            <div className="w-[45%] flex-shrink-0">
+              {renderImages(step, idx, `${multiple ? 'max-h-[180px]' : 'max-h-[260px]'} w-auto`)}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-3 mb-2">
+                {renderBadge(step)}
+                {renderTitle(step, idx)}
+              </div>
+              {renderText(step, idx)}
+            </div>
+            {renderControls(idx, 'col')}
+            {renderInsert(idx)}
+          </div>
+        );
+      default:
+        return (
+          <div key={idx} className="relative group flex gap-6 break-inside-avoid page-break mb-8 items-start">
+             {renderBadge(step)}
+
+             <div className="flex-1">
+               <div className="mb-2">{renderTitle(step, idx)}</div>
+               {renderImages(step, idx, `${multiple ? 'max-h-[220px]' : 'max-h-[300px]'} w-auto`)}
+               {renderText(step, idx)}
+             </div>
+
+             {/* Step Controls */}
+             {renderControls(idx, 'col')}
+             {renderInsert(idx)}
+          </div>
+        );
+    }
+  };
+
+  const runs = sectionRuns(data, stepsWithImages);
+  const sectioned = runs.some(run => run.section);
+  const stepsClassName = theme.layout === 'grid' || compact ? `grid grid-cols-2 ${compact ? 'gap-3' : 'gap-6'}` : 'space-y-8';
+
+  const renderSectionHeading = (section: HandoutSection, runIdx: number) => {
+    const sectionIdx = (data.sections || []).indexOf(section);
+    return (
+      <div className={`${compact ? 'mb-4' : 'mb-6'} pb-2 border-b-2 break-after-avoid`} style={{ borderColor: theme.primaryColor }}>
+        <div className="flex items-center gap-3">
+          <span className="text-xs font-bold uppercase tracking-wide" style={{ color: theme.primaryColor }}>Section {runIdx + 1}</span>
+          {editStructure && sectionIdx > 0 && (
+            <button
+              onClick={() => mergeSectionIntoPrevious(sectionIdx)}
+              className="no-print ms-auto text-xs font-semibold text-slate-500 hover:text-red-600"
+              title="Remove this heading; its steps join the section above"
+            >
+              Merge into section above
+            </button>
+          )}
+        </div>
+        <EditableText
+          as="h2"
+          editing={isEditing}
+          value={section.title}
+          onChange={(title) => updateSection(sectionIdx, { title }, 'title')}
+          placeholder="Section title"
+          className={`${compact ? 'text-xl' : 'text-2xl'} font-bold text-slate-900`}
+          style={headingStyle}
+        />
+        {(isEditing || section.summary) && (
+          <EditableText
+            editing={isEditing}
+            multiline
+            value={section.summary}
+            onChange={(summary) => updateSection(sectionIdx, { summary }, 'summary')}
+            placeholder="What this section covers"
+            className={`${compact ? 'text-sm' : ''} text-slate-600 leading-relaxed mt-1`}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const prerequisites = (data.prerequisites || []).filter(p => p.trim());
+  const materials = (data.materials || []).filter(m => m.trim());
+  const meta = handoutMeta(data);
+
+  const updateTroubleshooting = (index: number, patch: Partial<TroubleshootingItem>, field: string) => {
+    setData(prev => ({
+      ...prev,
+      troubleshooting: (prev.troubleshooting || []).map((item, i) => (i === index ? { ...item, ...patch } : item)),
+    }), `troubleshooting-${index}-${field}`);
+  };
+
+  const addTroubleshooting = () => {
+    setData(prev => ({ ...prev, troubleshooting: [...(prev.troubleshooting || []), { problem: '', solution: '' }] }));
+  };
+
+  const updateFaq = (index: number, patch: Partial<FaqItem>, field: string) => {
+    setData(prev => ({
+      ...prev,
+      faq: (prev.faq || []).map((item, i) => (i === index ? { ...item, ...patch } : item)),
+    }), `faq-${index}-${field}`);
+  };
+
+  const addFaq = () => {
+    setData(prev => ({ ...prev, faq: [...(prev.faq || []), { question: '', answer: '' }] }));
+  };
+
+  // Entries after the removed one shift up, so translations lose the same entry
+  const deleteEntry = (list: 'troubleshooting' | 'faq', index: number) => {
+    const remove = (prev: HandoutData): HandoutData => {
+      const troubleshooting = (prev.troubleshooting || []).filter((_, i) => list !== 'troubleshooting' || i !== index);
+      const faq = (prev.faq || []).filter((_, i) => list !== 'faq' || i !== index);
+      return { ...prev, troubleshooting: troubleshooting.length > 0 ? troubleshooting : undefined, faq: faq.length > 0 ? faq : undefined };
+    };
+    setDoc(prev => ({
+      source: remove(prev.source),
+      translations: prev.translations.map(t => ({ ...t, data: remove(t.data) })),
+    }));
+  };
+
+  // Troubleshooting and FAQ share a layout: a bold first line with the longer answer below it
+  const renderEntries = ({ heading, items, placeholders, addLabel, onChange, onAdd, onDelete }: {
+    heading: string;
+    items: { title: string; body: string }[];
+    placeholders: [string, string];
+    addLabel: string;
+    onChange: (index: number, field: 'title' | 'body', value: string) => void;
+    onAdd: () => void;
+    onDelete: (index: number) => void;
+  }) => (isEditing || items.length > 0) && (
+    <section className="mt-12 break-inside-avoid">
+      <h2 className="text-2xl font-bold text-slate-800 mb-4 pb-2 border-b-2" style={{ ...headingStyle, borderColor: theme.primaryColor }}>
+        {heading}
+      </h2>
+      <div className="space-y-4">
+        {items.map((item, i) => (
+          <div key={i} className="relative group">
+            <EditableText
+              editing={isEditing}
+              value={item.title}
+              onChange={(value) => onChange(i, 'title', value)}
+              placeholder={placeholders[0]}
+              className="font-semibold text-slate-800"
+            />
+            <EditableText
+              editing={isEditing}
+              multiline
+              value={item.body}
+              onChange={(value) => onChange(i, 'body', value)}
+              placeholder={placeholders[1]}
+              className="text-slate-700 leading-relaxed mt-1"
+            />
+            {editStructure && (
+              <button
+                onClick={() => onDelete(i)}
+                className="no-print absolute -end-8 top-0 p-1.5 rounded bg-red-50 hover:bg-red-100 text-red-600"
+                title="Delete item"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                  <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+                </svg>
+              </button>
+            )}
+          </div>
+        ))}
+        {editStructure && (
+          <button
+            onClick={onAdd}
+            className="no-print text-sm font-semibold text-indigo-600 hover:text-indigo-800"
+          >
+            {addLabel}
+          </button>
+        )}
+      </div>
+    </section>
+  );
+
+  const footerText = fillThemeText(theme.footerText, data.title);
+  const headerText = fillThemeText(theme.headerText, data.title);
+
   return (
-    <div className="h-full bg-slate-200 overflow-y-auto relative print:overflow-visible print:h-auto print:bg-white print:block">
-      <div className="no-print fixed top-4 right-4 z-50 flex gap-2">
+    <div className={`h-full bg-slate-200 overflow-y-auto relative print:overflow-visible print:h-auto print:bg-white print:block ${showThemePanel ? 'pr-80 print:pr-0' : ''}`}>
+      <div className={`no-print fixed top-4 z-50 flex gap-2 ${showThemePanel ? 'right-[21rem]' : 'right-4'}`}>
+        {isEditing && (
+          <div className="flex bg-white rounded-lg shadow-md border border-slate-300 overflow-hidden">
+            <button
+              onClick={undo}
+              disabled={!canUndo}
+              className="px-3 py-2 text-slate-700 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Undo (Ctrl+Z)"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M9 15 3 9m0 0 6-6M3 9h12a6 6 0 0 1 0 12h-3" />
+              </svg>
+            </button>
+            <button
+              onClick={redo}
+              disabled={!canRedo}
+              className="px-3 py-2 text-slate-700 hover:bg-slate-50 border-l border-slate-200 disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="m15 15 6-6m0 0-6-6m6 6H9a6 6 0 0 0 0 12h3" />
+              </svg>
+            </button>
+          </div>
+        )}
+        {editStructure && (
+          <button
+            onClick={() => setRewriteTarget({ kind: 'handout' })}
+            className="bg-white text-slate-700 px-4 py-2 rounded-lg shadow-md hover:bg-slate-50 font-medium transition-colors border border-slate-300 flex items-center gap-2"
+            title="Rewrite the whole handout with an instruction"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904 9 18.75l-.813-2.846a4.5 4.5 0 0 0-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 0 0 3.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 0 0 3.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 0 0-3.09 3.09ZM18.259 8.715 18 9.75l-.259-1.035a3.375 3.375 0 0 0-2.455-2.456L14.25 6l1.036-.259a3.375 3.375 0 0 0 2.455-2.456L18 2.25l.259 1.035a3.375 3.375 0 0 0 2.456 2.456L21.75 6l-1.035.259a3.375 3.375 0 0 0-2.456 2.456ZM16.894 20.567 16.5 21.75l-.394-1.183a2.25 2.25 0 0 0-1.423-1.423L13.5 18.75l1.183-.394a2.25 2.25 0 0 0 1.423-1.423l.394-1.183.394 1.183a2.25 2.25 0 0 0 1.423 1.423l1.183.394-1.183.394a2.25 2.25 0 0 0-1.423 1.423Z" />
+            </svg>
+            Rewrite
+          </button>
+        )}
+        <button
+          onClick={() => setIsEditing(!isEditing)}
+          className={`px-4 py-2 rounded-lg shadow-md font-medium transition-colors border flex items-center gap-2
+            ${isEditing
+              ? 'bg-green-600 hover:bg-green-700 text-white border-green-700'
+              : 'bg-white hover:bg-slate-50 text-slate-700 border-slate-300'}`}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+            {isEditing ? (
+              <path strokeLinecap="round" strokeLinejoin="round" d="m4.5 12.75 6 6 9-13.5" />
+            ) : (
+              <path strokeLinecap="round" strokeLinejoin="round" d="m16.862 4.487 1.687-1.688a1.875 1.875 0 1 1 2.652 2.652L10.582 16.07a4.5 4.5 0 0 1-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 0 1 1.13-1.897l8.932-8.931Zm0 0L19.5 7.125" />
+            )}
+          </svg>
+          {isEditing ? 'Done Editing' : 'Edit'}
+        </button>
+        <button
+          onClick={() => setShowThemePanel(!showThemePanel)}
+          className="bg-white text-slate-700 px-4 py-2 rounded-lg shadow-md hover:bg-slate-50 font-medium transition-colors border border-slate-300 flex items-center gap-2"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M4.098 19.902a3.75 3.75 0 0 0 5.304 0l6.401-6.402M6.75 21A3.75 3.75 0 0 1 3 17.25V4.125C3 3.504 3.504 3 4.125 3h5.25c.621 0 1.125.504 1.125 1.125v4.072M6.75 21a3.75 3.75 0 0 0 3.75-3.75V8.197M6.75 21h13.125c.621 0 1.125-.504 1.125-1.125v-5.25c0-.621-.504-1.125-1.125-1.125h-4.072M10.5 8.197l2.88-2.88c.438-.439 1.15-.439 1.59 0l3.712 3.713c.44.44.44 1.152 0 1.59l-2.879 2.88M6.75 17.25h.008v.008H6.75v-.008Z" />
+          </svg>
+          Theme
+        </button>
+        <div className="relative">
+          <button
+            onClick={() => setShowLanguageMenu(!showLanguageMenu)}
+            className="bg-white text-slate-700 px-4 py-2 rounded-lg shadow-md hover:bg-slate-50 font-medium transition-colors border border-slate-300 flex items-center gap-2"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+              <path strokeLinecap="round" strokeLinejoin="round" d="m10.5 21 5.25-11.25L21 21m-9-3h7.5M3 5.621a48.474 48.474 0 0 1 6-.371m0 0c1.12 0 2.233.038 3.334.114M9 5.25V3m3.334 2.364C11.176 10.658 7.69 15.08 3 17.502m9.334-12.138c.896.061 1.785.147 2.666.257m-4.589 8.495a18.023 18.023 0 0 1-3.827-5.802" />
+            </svg>
+            {translation ? translation.language : 'Language'}
+          </button>
+          {showLanguageMenu && (
+            <div className="absolute right-0 mt-2 w-64 bg-white rounded-xl shadow-xl border border-slate-200 py-1 overflow-hidden">
+              <button
+                onClick={() => { setLanguage(null); setShowLanguageMenu(false); }}
+                className={`w-full text-left px-4 py-2 text-sm hover:bg-slate-50 ${isOriginal ? 'font-semibold text-indigo-700' : 'text-slate-800'}`}
+              >
+                {generationOptions.language} (original)
+              </button>
+              {doc.translations.map(t => (
+                <div key={t.language} className="flex items-center hover:bg-slate-50">
+                  <button
+                    onClick={() => { setLanguage(t.language); setShowLanguageMenu(false); }}
+                    className={`flex-1 text-left px-4 py-2 text-sm flex items-center gap-2 ${t.language === language ? 'font-semibold text-indigo-700' : 'text-slate-800'}`}
+                  >
+                    {t.language}
+                    {isTranslationOutdated(doc.source, t) && (
+                      <span className="text-[10px] font-bold uppercase text-amber-700 bg-amber-100 rounded px-1.5 py-0.5">Outdated</span>
+                    )}
+                  </button>
+                  <button
+                    onClick={() => deleteTranslation(t.language)}
+                    className="p-2 mr-2 rounded text-slate-400 hover:text-red-600"
+                    title={`Delete ${t.language} translation`}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                      <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+                    </svg>
+                  </button>
+                </div>
+              ))}
+              <div className="border-t border-slate-100 mt-1 pt-1">
+                <button
+                  onClick={() => { setTranslateLanguages([]); setShowLanguageMenu(false); }}
+                  className="w-full text-left px-4 py-2 text-sm font-semibold text-indigo-600 hover:bg-slate-50"
+                >
+                  Translate...
+                </button>
+                {doc.translations.length > 0 && (
+                  <button
+                    onClick={() => { setShowCompare(true); setShowLanguageMenu(false); }}
+                    className="w-full text-left px-4 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-50"
+                  >
+                    Compare side by side
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
         <button 
           onClick={onReset}
           className="bg-white text-slate-700 px-4 py-2 rounded-lg shadow-md hover:bg-slate-50 font-medium transition-colors border border-slate-300"
         >
           Start Over
         </button>
+        <div className="relative">
+          <button
+            onClick={() => setShowExportMenu(!showExportMenu)}
+            disabled={isExporting}
+            className="bg-white text-slate-700 px-4 py-2 rounded-lg shadow-md hover:bg-slate-50 font-medium transition-colors border border-slate-300 flex items-center gap-2 disabled:opacity-60"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3" />
+            </svg>
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+          {showExportMenu && (
+            <div className="absolute right-0 mt-2 w-64 bg-white rounded-xl shadow-xl border border-slate-200 py-1 overflow-hidden">
+              {doc.translations.length > 0 && (
+                <div className="flex m-2 mb-1 bg-slate-100 rounded-lg p-1 text-xs font-semibold">
+                  {[false, true].map(all => (
+                    <button
+                      key={String(all)}
+                      onClick={() => setExportAllLanguages(all)}
+                      className={`flex-1 py-1 rounded-md transition-colors ${exportAllLanguages === all ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                    >
+                      {all ? 'All languages' : 'This language'}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {EXPORT_OPTIONS.map(option => (
+                <button
+                  key={option.format}
+                  onClick={() => handleExport(option.format)}
+                  className="w-full text-left px-4 py-2 hover:bg-slate-50"
+                >
+                  <div className="text-sm font-semibold text-slate-800">{option.label}</div>
+                  <div className="text-xs text-slate-500">{option.description}</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
         <button 
           onClick={handlePrint}
           className="bg-indigo-600 text-white px-4 py-2 rounded-lg shadow-md hover:bg-indigo-700 font-medium transition-colors flex items-center gap-2"
@@ -43,55 +947,282 @@ const HandoutDisplay: React.FC<HandoutDisplayProps> = ({ data, frames, onReset }
         </button>
       </div>
 
-      <div className="max-w-[210mm] mx-auto min-h-[297mm] bg-white shadow-2xl my-8 p-[20mm] box-border text-slate-800 print:my-0 print:shadow-none print:w-full print:max-w-full print:mx-0 print:p-[20mm]">
+      <style>{`@media print { @page { size: ${page.css}; } }`}</style>
+
+      {translation && (
+        <div className="no-print mx-auto mt-8 -mb-4 px-4 py-3 rounded-lg bg-indigo-50 border border-indigo-200 text-sm text-indigo-900 flex items-center gap-3" style={{ maxWidth: `${page.width}mm` }}>
+          <span className="flex-1">
+            {isTranslationOutdated(doc.source, translation)
+              ? <>The {generationOptions.language} original has changed since this {translation.language} translation was made.</>
+              : <>Viewing the {translation.language} translation. Steps, images and layout follow the original.</>}
+          </span>
+          <button
+            onClick={() => setTranslateLanguages([translation.language])}
+            className="font-semibold text-indigo-700 hover:text-indigo-900 whitespace-nowrap"
+          >
+            Re-translate
+          </button>
+          <button
+            onClick={() => setLanguage(null)}
+            className="font-semibold text-indigo-700 hover:text-indigo-900 whitespace-nowrap"
+          >
+            Show original
+          </button>
+        </div>
+      )}
+
+      <div
+        dir={rtl ? 'rtl' : 'ltr'}
+        className="mx-auto bg-white shadow-2xl my-8 p-[20mm] box-border text-slate-800 print:my-0 print:shadow-none print:w-full print:mx-0 print:p-[20mm]"
+        style={{ maxWidth: `${page.width}mm`, minHeight: `${page.height}mm`, fontFamily: fontCss(theme.bodyFont) }}
+      >
+        {(theme.logo || headerText) && (
+          <div className="flex items-center justify-between gap-4 mb-6 text-sm text-slate-500">
+            {theme.logo ? <img src={theme.logo} alt="Logo" className="max-h-12 max-w-[50%] object-contain" /> : <span />}
+            {headerText && <span>{headerText}</span>}
+          </div>
+        )}
+
         {/* Header */}
-        <header className="border-b-4 border-indigo-600 pb-6 mb-8">
-          <h1 className="text-4xl font-extrabold text-slate-900 mb-4">{data.title}</h1>
-          <p className="text-lg text-slate-600 leading-relaxed italic">{data.summary}</p>
+        <header className={`border-b-4 ${compact ? 'pb-4 mb-6' : 'pb-6 mb-8'}`} style={{ borderColor: theme.primaryColor }}>
+          <EditableText
+            as="h1"
+            editing={isEditing}
+            value={data.title}
+            onChange={(title) => setData(prev => ({ ...prev, title }), 'title')}
+            placeholder="Handout title"
+            className={`${compact ? 'text-3xl mb-2' : 'text-4xl mb-4'} font-extrabold text-slate-900`}
+            style={headingStyle}
+          />
+          <EditableText
+            editing={isEditing}
+            multiline
+            value={data.summary}
+            onChange={(summary) => setData(prev => ({ ...prev, summary }), 'summary')}
+            placeholder="Short overview of the procedure"
+            className={`${compact ? 'text-base' : 'text-lg'} text-slate-600 leading-relaxed italic`}
+          />
+          {isEditing ? (
+            <div className="no-print flex flex-wrap items-center gap-4 mt-3 text-sm text-slate-600">
+              {(isOriginal || doc.source.estimatedTime) && (
+                <label className="flex items-center gap-2">
+                  Estimated time
+                  <input
+                    value={data.estimatedTime || ''}
+                    onChange={(e) => setData(prev => ({ ...prev, estimatedTime: e.target.value || undefined }), 'estimatedTime')}
+                    placeholder="e.g. 10 minutes"
+                    className="w-32 px-2 py-1 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                  />
+                </label>
+              )}
+              {isOriginal && (
+                <label className="flex items-center gap-2">
+                  Difficulty
+                  <select
+                    value={data.difficulty || ''}
+                    onChange={(e) => setData(prev => ({ ...prev, difficulty: (e.target.value || undefined) as Difficulty | undefined }))}
+                    className="px-2 py-1 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                  >
+                    <option value="">Not set</option>
+                    {DIFFICULTY_LEVELS.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+                  </select>
+                </label>
+              )}
+            </div>
+          ) : meta.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-3 text-sm">
+              {meta.map(m => (
+                <span key={m.label} className="bg-slate-100 text-slate-600 rounded-full px-3 py-0.5">
+                  <span className="font-semibold">{m.label}:</span> {m.value}
+                </span>
+              ))}
+            </div>
+          )}
+          {isEditing && (
+            <button
+              onClick={() => setRewriteTarget({ kind: 'header' })}
+              className="no-print mt-3 text-sm font-semibold text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904 9 18.75l-.813-2.846a4.5 4.5 0 0 0-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 0 0 3.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 0 0 3.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 0 0-3.09 3.09ZM18.259 8.715 18 9.75l-.259-1.035a3.375 3.375 0 0 0-2.455-2.456L14.25 6l1.036-.259a3.375 3.375 0 0 0 2.455-2.456L18 2.25l.259 1.035a3.375 3.375 0 0 0 2.456 2.456L21.75 6l-1.035.259a3.375 3.375 0 0 0-2.456 2.456ZM16.894 20.567 16.5 21.75l-.394-1.183a2.25 2.25 0 0 0-1.423-1.423L13.5 18.75l1.183-.394a2.25 2.25 0 0 0 1.423-1.423l.394-1.183.394 1.183a2.25 2.25 0 0 0 1.423 1.423l1.183.394-1.183.394a2.25 2.25 0 0 0-1.423 1.423Z" />
+              </svg>
+              Regenerate title &amp; summary
+            </button>
+          )}
         </header>
 
-        {/* Steps */}
-        <div className="space-y-8">
-          {stepsWithImages.map((step, idx) => (
-            <div key={idx} className="flex gap-6 break-inside-avoid page-break mb-8 items-start">
-               {/* Step Number */}
-               <div className="flex-shrink-0">
-                  <div className="w-10 h-10 bg-slate-900 text-white rounded-full flex items-center justify-center font-bold text-xl">
-                    {step.stepNumber}
-                  </div>
-               </div>
-
-               <div className="flex-1">
-                 <h3 className="text-xl font-bold mb-2 text-slate-800">{step.title}</h3>
-                 
-                 {step.image && (
-                   <div className="mb-4 border border-slate-200 rounded-lg overflow-hidden shadow-sm bg-slate-50 inline-block max-w-full">
-                     <img 
-                      src={step.image.dataUrl} 
-                      alt={`Step ${step.stepNumber}`} 
-                      className="max-h-[300px] w-auto object-contain"
-                     />
-                   </div>
-                 )}
-                 
-                 <p className="text-slate-700 mb-3 leading-relaxed">{step.description}</p>
-                 
-                 {step.tips && (
-                   <div className="bg-amber-50 border-l-4 border-amber-400 p-3 rounded-r text-sm text-amber-800">
-                     <strong>Tip:</strong> {step.tips}
-                   </div>
-                 )}
-               </div>
-            </div>
+        {/* Before you start */}
+        {(isEditing || prerequisites.length > 0 || materials.length > 0) && (
+          <section className={`mb-8 p-4 rounded-lg border border-slate-200 bg-slate-50 break-inside-avoid ${!isEditing && prerequisites.length > 0 && materials.length > 0 ? 'grid grid-cols-2 gap-6' : 'space-y-4'}`}>
+            {[
+              { key: 'prerequisites' as const, heading: 'Before you start', items: prerequisites, placeholder: 'One prerequisite per line (leave empty to hide)' },
+              { key: 'materials' as const, heading: 'You will need', items: materials, placeholder: 'One item per line: tools, materials or documents (leave empty to hide)' },
+            ].map(list => (isEditing || list.items.length > 0) && (
+              <div key={list.key}>
+                <h2 className="text-sm font-bold uppercase tracking-wide text-slate-600 mb-2" style={headingStyle}>{list.heading}</h2>
+                {isEditing ? (
+                  <EditableText
+                    editing
+                    multiline
+                    value={(data[list.key] || []).join('\n')}
+                    onChange={(text) => setData(prev => ({ ...prev, [list.key]: splitLines(text) }), list.key)}
+                    placeholder={list.placeholder}
+                    className="text-sm text-slate-700"
+                  />
+                ) : (
+                  <ul className="list-disc ps-5 text-sm text-slate-700 space-y-1">
+                    {list.items.map((item, i) => <li key={i}>{item}</li>)}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </section>
+        )}
+
+        {/* Contents */}
+        {sectioned && (
+          <nav className="mb-8 break-inside-avoid">
+            <h2 className="text-sm font-bold uppercase tracking-wide text-slate-600 mb-2" style={headingStyle}>Contents</h2>
+            <ol className="list-decimal ps-5 space-y-1 text-slate-700">
+              {runs.map((run, runIdx) => run.section && (
+                <li key={runIdx} value={runIdx + 1}>
+                  <a href={`#section-${runIdx + 1}`} className="hover:underline">{run.section.title}</a>
+                  <span className="text-sm text-slate-400"> · {run.steps.length} {run.steps.length === 1 ? 'step' : 'steps'}</span>
+                </li>
+              ))}
+            </ol>
+          </nav>
+        )}
+
+        {/* Steps, one block per section */}
+        <div className="space-y-12">
+          {runs.map((run, runIdx) => (
+            <section key={run.steps[0].index} id={run.section ? `section-${runIdx + 1}` : undefined}>
+              {run.section && renderSectionHeading(run.section, runIdx)}
+              <div className={stepsClassName}>
+                {run.steps.map(({ step, index }) => renderStep(step, index))}
+
+                {editStructure && (
+                  <button
+                    onClick={() => addStep(run.steps[run.steps.length - 1].index + 1, run.section?.id)}
+                    className="no-print w-full py-3 border-2 border-dashed border-slate-300 rounded-lg text-slate-500 font-semibold hover:border-indigo-400 hover:text-indigo-600 transition-colors col-span-2"
+                  >
+                    {run.section ? '+ Add Step to this section' : '+ Add Step'}
+                  </button>
+                )}
+              </div>
+            </section>
           ))}
+
+          {editStructure && (runs.length === 0 || sectioned) && (
+            <button
+              onClick={() => (sectioned ? addSection() : addStep(0))}
+              className="no-print w-full py-3 border-2 border-dashed border-slate-300 rounded-lg text-slate-500 font-semibold hover:border-indigo-400 hover:text-indigo-600 transition-colors"
+            >
+              {sectioned ? '+ Add Section' : '+ Add Step'}
+            </button>
+          )}
         </div>
 
+        {/* Troubleshooting and FAQ */}
+        {renderEntries({
+          heading: 'Troubleshooting',
+          items: (data.troubleshooting || []).map(item => ({ title: item.problem, body: item.solution })),
+          placeholders: ['Problem', 'How to fix it'],
+          addLabel: '+ Add troubleshooting item',
+          onChange: (i, field, value) => updateTroubleshooting(i, field === 'title' ? { problem: value } : { solution: value }, field),
+          onAdd: addTroubleshooting,
+          onDelete: (i) => deleteEntry('troubleshooting', i),
+        })}
+        {renderEntries({
+          heading: 'Frequently asked questions',
+          items: (data.faq || []).map(item => ({ title: item.question, body: item.answer })),
+          placeholders: ['Question', 'Answer'],
+          addLabel: '+ Add question',
+          onChange: (i, field, value) => updateFaq(i, field === 'title' ? { question: value } : { answer: value }, field),
+          onAdd: addFaq,
+          onDelete: (i) => deleteEntry('faq', i),
+        })}
+
         {/* Footer */}
         <footer className="mt-12 pt-6 border-t border-slate-200 text-center text-slate-400 text-sm flex justify-between">
-           <span>Generated with Gemini 2.5 Flash</span>
+           <span>{footerText}</span>
            <span>{new Date().toLocaleDateString()}</span>
         </footer>
       </div>
+
+      {pickingStep !== null && (
+        <FramePicker
+          frames={frames}
+          steps={data.steps}
+          stepIndex={pickingStep}
+          onConfirm={(frameIds) => {
+            setStepFrames(pickingStep, frameIds);
+            setPickingStep(null);
+          }}
+          onClose={() => setPickingStep(null)}
+        />
+      )}
+
+      {annotatingFrame && (
+        <AnnotationEditor
+          frame={annotatingFrame}
+          onSave={(annotations) => {
+            onFramesChange(frames.map(f => (f.id === annotatingFrame.id ? { ...f, annotations } : f)));
+            setAnnotatingId(null);
+          }}
+          onClose={() => setAnnotatingId(null)}
+        />
+      )}
+
+      {rewriteTarget && (
+        <RewriteDialog
+          title={
+            rewriteTarget.kind === 'step' ? `Regenerate step ${labels[rewriteTarget.index]}`
+            : rewriteTarget.kind === 'header' ? 'Regenerate title & summary'
+            : 'Rewrite handout'
+          }
+          description={
+            rewriteTarget.kind === 'step' ? 'The step is rewritten from its screenshots, with the other steps as context.'
+            : rewriteTarget.kind === 'header' ? 'The title and summary are rewritten to match the current steps.'
+            : 'Every step is rewritten to follow your instruction. Images stay with the text that describes them.'
+          }
+          requireInstruction={rewriteTarget.kind === 'handout'}
+          onRun={(instruction) => runRewrite(rewriteTarget, instruction)}
+          onClose={() => setRewriteTarget(null)}
+        />
+      )}
+
+      {translateLanguages && (
+        <TranslateDialog
+          originalLanguage={generationOptions.language}
+          existing={doc.translations.map(t => t.language)}
+          initialLanguages={translateLanguages}
+          onTranslate={handleTranslate}
+          onClose={() => setTranslateLanguages(null)}
+        />
+      )}
+
+      {showCompare && (
+        <TranslationCompare
+          source={doc.source}
+          originalLanguage={generationOptions.language}
+          translations={doc.translations}
+          initialLanguage={translation?.language}
+          onClose={() => setShowCompare(false)}
+        />
+      )}
+
+      {showThemePanel && (
+        <ThemePanel
+          theme={theme}
+          onChange={(next) => {
+            setTheme(next);
+            onThemeChange(next.id);
+          }}
+          onClose={() => setShowThemePanel(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { ProjectSummary } from '../types';
+import { deleteProject, duplicateProject, listProjects, renameProject } from '../services/projectStore';
+
+interface ProjectLibraryProps {
+  onOpen: (id: string) => void;
+}
+
+const formatDate = (ms: number) =>
+  new Date(ms).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ onOpen }) => {
+  const [projects, setProjects] = useState<ProjectSummary[] | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error("Could not load projects:", err);
+      setProjects([]);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const startRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = async () => {
+    const id = renamingId;
+    const name = draftName.trim();
+    setRenamingId(null);
+    if (id && name) {
+      await renameProject(id, name);
+      refresh();
+    }
+  };
+
+  const handleDuplicate = async (id: string) => {
+    await duplicateProject(id);
+    refresh();
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!window.confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    await deleteProject(project.id);
+    refresh();
+  };
+
+  // Nothing to show until the first project exists; the uploader then has the screen to itself
+  if (!projects || projects.length === 0) return null;
+
+  return (
+    <div className="w-96 bg-white border-l border-slate-200 flex flex-col shadow-xl">
+      <div className="p-4 border-b border-slate-100 bg-slate-50">
+        <h2 className="font-bold text-slate-800">Your Handouts ({projects.length})</h2>
+        <p className="text-xs text-slate-500 mt-1">Saved automatically in this browser.</p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3 no-scrollbar">
+        {projects.map(project => (
+          <div
+            key={project.id}
+            className="group flex gap-3 p-2 rounded-lg border border-slate-200 hover:border-indigo-300 hover:bg-indigo-50/40 transition-colors cursor-pointer"
+            onClick={() => renamingId !== project.id && onOpen(project.id)}
+          >
+            <div className="w-24 h-16 flex-shrink-0 rounded bg-slate-100 border border-slate-200 overflow-hidden flex items-center justify-center">
+              {project.thumbnail ? (
+                <img src={project.thumbnail} alt="" className="w-full h-full object-cover" />
+              ) : (
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6 text-slate-300">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="m15.75 10.5 4.72-4.72a.75.75 0 0 1 1.28.53v11.38a.75.75 0 0 1-1.28.53l-4.72-4.72M4.5 18.75h9a2.25 2.25 0 0 0 2.25-2.25v-9a2.25 2.25 0 0 0-2.25-2.25h-9A2.25 2.25 0 0 0 2.25 7.5v9a2.25 2.25 0 0 0 2.25 2.25Z" />
+                </svg>
+              )}
+            </div>
+
+            <div className="flex-1 min-w-0">
+              {renamingId === project.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onClick={(e) => e.stopPropagation()}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="w-full text-sm font-semibold border border-indigo-300 rounded px-1 py-0.5 outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              ) : (
+                <h3 className="text-sm font-semibold text-slate-800 truncate" title={project.name}>{project.name}</h3>
+              )}
+              <p className="text-xs text-slate-500 mt-0.5">
+                {project.stepCount > 0 ? `${project.stepCount} steps` : `${project.frameCount} frames`} · {formatDate(project.updatedAt)}
+              </p>
+
+              <div className="mt-1 flex gap-3 text-xs font-medium opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
+                <button onClick={() => startRename(project)} className="text-slate-500 hover:text-indigo-600">Rename</button>
+                <button onClick={() => handleDuplicate(project.id)} className="text-slate-500 hover:text-indigo-600">Duplicate</button>
+                <button onClick={() => handleDelete(project)} className="text-slate-500 hover:text-red-600">Delete</button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLibrary;
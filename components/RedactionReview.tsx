@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { CapturedFrame, RedactionCandidate } from '../types';
+import { frameLabel } from '../services/imageImport';
+
+interface RedactionReviewProps {
+  frames: CapturedFrame[];
+  candidates: RedactionCandidate[];
+  onApply: (accepted: RedactionCandidate[]) => void;
+  onCancel: () => void;
+  onSkip?: () => void; // Shown before generating: go ahead with the frames as they are
+}
+
+// Lists every detected region over its frame. Everything starts accepted; the user rejects false positives.
+const RedactionReview: React.FC<RedactionReviewProps> = ({ frames, candidates, onApply, onCancel, onSkip }) => {
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    setRejected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const framesWithHits = frames.filter(f => candidates.some(c => c.frameId === f.id));
+  const acceptedCount = candidates.length - rejected.size;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="p-5 border-b border-slate-100">
+          <h3 className="text-lg font-bold text-slate-800">Review Sensitive Information</h3>
+          <p className="text-sm text-slate-500">
+            Found {candidates.length} {candidates.length === 1 ? 'region' : 'regions'} in {framesWithHits.length} {framesWithHits.length === 1 ? 'frame' : 'frames'}.
+            Click a region to keep it visible instead of blurring it.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          {framesWithHits.map(frame => {
+            const hits = candidates.filter(c => c.frameId === frame.id);
+            return (
+              <div key={frame.id} className="flex gap-4 items-start">
+                <div className="relative flex-1 min-w-0 rounded-lg overflow-hidden border border-slate-200">
+                  <img src={frame.dataUrl} alt={frameLabel(frame)} className="w-full h-auto block" />
+                  {hits.map(c => (
+                    <button
+                      key={c.id}
+                      onClick={() => toggle(c.id)}
+                      title={`${c.label}: ${c.text}`}
+                      className={`absolute border-2 transition-colors ${rejected.has(c.id)
+                        ? 'border-dashed border-slate-400 bg-transparent'
+                        : 'border-red-500 bg-red-500/40 backdrop-blur-sm'}`}
+                      style={{
+                        left: `${c.box.x * 100}%`,
+                        top: `${c.box.y * 100}%`,
+                        width: `${c.box.width * 100}%`,
+                        height: `${c.box.height * 100}%`,
+                      }}
+                    />
+                  ))}
+                </div>
+
+                <div className="w-64 flex-shrink-0 space-y-2">
+                  <div className="text-xs font-mono text-slate-400 truncate">{frameLabel(frame)}</div>
+                  {hits.map(c => (
+                    <label key={c.id} className="flex items-start gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!rejected.has(c.id)}
+                        onChange={() => toggle(c.id)}
+                        className="mt-1 accent-red-600"
+                      />
+                      <span className="min-w-0">
+                        <span className="block text-xs font-semibold text-slate-500">{c.label}</span>
+                        <span className={`block font-mono text-xs break-all ${rejected.has(c.id) ? 'text-slate-400 line-through' : 'text-slate-800'}`}>{c.text}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 font-semibold rounded-lg transition-colors"
+          >
+            {onSkip ? "Cancel" : "Don't Redact"}
+          </button>
+          {onSkip && (
+            <button
+              onClick={onSkip}
+              className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 font-semibold rounded-lg transition-colors"
+            >
+              Generate Without Redacting
+            </button>
+          )}
+          <button
+            onClick={() => onApply(candidates.filter(c => !rejected.has(c.id)))}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg shadow-md transition-colors"
+          >
+            Blur {acceptedCount} {acceptedCount === 1 ? 'Region' : 'Regions'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RedactionReview;
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { diffWords } from '../services/textDiff';
+
+export interface RewriteField {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface RewriteProposal {
+  fields: RewriteField[];
+  apply: () => void;
+}
+
+interface RewriteDialogProps {
+  title: string;
+  description: string;
+  requireInstruction?: boolean;
+  onRun: (instruction: string) => Promise<RewriteProposal>;
+  onClose: () => void;
+}
+
+const PRESETS = [
+  "Make this shorter",
+  "Add more detail",
+  "Assume the reader is a beginner",
+  "Use a more formal tone",
+  "Fix grammar and spelling only",
+];
+
+const DiffText: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+  <p className="text-sm text-slate-700 leading-relaxed whitespace-pre-wrap">
+    {diffWords(before, after).map((part, i) =>
+      part.type === 'same' ? (
+        <span key={i}>{part.text}</span>
+      ) : part.type === 'added' ? (
+        <span key={i} className="bg-green-100 text-green-800 rounded-sm">{part.text}</span>
+      ) : (
+        <span key={i} className="bg-red-100 text-red-700 line-through rounded-sm">{part.text}</span>
+      )
+    )}
+  </p>
+);
+
+// Collects an optional instruction, runs the rewrite, then shows a word diff to accept or reject
+const RewriteDialog: React.FC<RewriteDialogProps> = ({ title, description, requireInstruction = false, onRun, onClose }) => {
+  const [instruction, setInstruction] = useState("");
+  const [isRunning, setIsRunning] = useState(false);
+  const [proposal, setProposal] = useState<RewriteProposal | null>(null);
+
+  const changedFields = proposal?.fields.filter(f => f.before !== f.after) || [];
+  const canRun = !isRunning && (!requireInstruction || instruction.trim().length > 0);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      setProposal(await onRun(instruction));
+    } catch (err: any) {
+      console.error("Rewrite failed:", err);
+      alert(`Rewrite failed.\n\nReason: ${err.message}`);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleAccept = () => {
+    proposal?.apply();
+    onClose();
+  };
+
+  return (
+    <div className="no-print fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={isRunning ? undefined : onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-slate-100">
+          <h2 className="text-xl font-bold text-slate-800">{title}</h2>
+          <p className="text-sm text-slate-500 mt-1">{description}</p>
+        </div>
+
+        {!proposal ? (
+          <div className="p-6 space-y-3">
+            <textarea
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder={requireInstruction ? "How should it change?" : "Optional: how should it change? Leave empty for a fresh attempt."}
+              rows={3}
+              autoFocus
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none resize-none"
+            />
+            <div className="flex flex-wrap gap-2">
+              {PRESETS.map(preset => (
+                <button
+                  key={preset}
+                  onClick={() => setInstruction(preset)}
+                  className="text-xs font-medium px-2.5 py-1 rounded-full bg-slate-100 hover:bg-indigo-50 hover:text-indigo-700 text-slate-600"
+                >
+                  {preset}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="p-6 space-y-4 overflow-y-auto">
+            {changedFields.length === 0 ? (
+              <p className="text-sm text-slate-500 italic">The model returned the same text. Try a more specific instruction.</p>
+            ) : (
+              changedFields.map((field, i) => (
+                <div key={i}>
+                  <div className="text-xs font-bold uppercase tracking-wide text-slate-500 mb-1">{field.label}</div>
+                  <DiffText before={field.before} after={field.after} />
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+          {!proposal ? (
+            <>
+              <button onClick={onClose} disabled={isRunning} className="px-4 py-2 text-slate-600 font-medium hover:bg-slate-100 rounded-lg disabled:opacity-50">
+                Cancel
+              </button>
+              <button
+                onClick={handleRun}
+                disabled={!canRun}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                {isRunning && <span className="w-4 h-4 border-2 border-white/40 border-t-white rounded-full animate-spin" />}
+                {isRunning ? 'Rewriting...' : 'Rewrite'}
+              </button>
+            </>
+          ) : (
+            <>
+              <button onClick={() => setProposal(null)} className="px-4 py-2 text-slate-600 font-medium hover:bg-slate-100 rounded-lg mr-auto">
+                Try again
+              </button>
+              <button onClick={onClose} className="px-4 py-2 text-red-600 font-medium hover:bg-red-50 rounded-lg">
+                Reject
+              </button>
+              <button
+                onClick={handleAccept}
+                disabled={changedFields.length === 0}
+                className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Accept changes
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RewriteDialog;
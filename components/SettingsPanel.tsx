@@ -0,0 +1,346 @@
+import React, { useState } from 'react';
+import { ModelImageFormat, ModelImageSettings, RedactionSettings, UsageSettings } from '../types';
+import { AIProviderId, AISettings, PROVIDER_OPTIONS } from '../services/providers';
+import {
+  defaultAISettings,
+  loadAISettings,
+  loadModelImageSettings,
+  loadRedactionSettings,
+  loadUsageSettings,
+  saveAISettings,
+  saveModelImageSettings,
+  saveRedactionSettings,
+  saveUsageSettings,
+} from '../services/settingsService';
+import { DEFAULT_MODEL_IMAGE_SETTINGS, MODEL_IMAGE_FORMATS, MODEL_IMAGE_SIZES } from '../services/modelImages';
+import UsagePanel from './UsagePanel';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
+  const [tab, setTab] = useState<'provider' | 'images' | 'privacy' | 'usage'>('provider');
+  const [settings, setSettings] = useState<AISettings>(loadAISettings);
+  const [redaction, setRedaction] = useState<RedactionSettings>(loadRedactionSettings);
+  const [imageSettings, setImageSettings] = useState<ModelImageSettings>(loadModelImageSettings);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [newPatternLabel, setNewPatternLabel] = useState("");
+  const [newPattern, setNewPattern] = useState("");
+
+  const selected = PROVIDER_OPTIONS.find(o => o.id === settings.provider) || PROVIDER_OPTIONS[0];
+  const needsEndpoint = settings.provider === 'openai' || settings.provider === 'local';
+  const needsApiKey = settings.provider === 'gemini' || settings.provider === 'openai';
+  const allowsApiKey = needsApiKey || settings.provider === 'local';
+  const choosesModel = settings.provider !== 'server'; // The server picks its own model
+
+  const selectProvider = (provider: AIProviderId) => {
+    // Switching provider starts from that provider's defaults; model names don't carry over between them
+    setSettings(defaultAISettings(provider));
+  };
+
+  const patternError = (() => {
+    if (!newPattern) return null;
+    try {
+      new RegExp(newPattern, 'i');
+      return null;
+    } catch (e: any) {
+      return e.message as string;
+    }
+  })();
+
+  const addPattern = () => {
+    if (!newPattern || patternError) return;
+    setRedaction(prev => ({
+      ...prev,
+      patterns: [
+        ...prev.patterns,
+        { id: Math.random().toString(36).substr(2, 9), label: newPatternLabel.trim() || 'Custom pattern', pattern: newPattern, enabled: true },
+      ],
+    }));
+    setNewPatternLabel("");
+    setNewPattern("");
+  };
+
+  const updatePattern = (id: string, patch: { enabled?: boolean }) => {
+    setRedaction(prev => ({ ...prev, patterns: prev.patterns.map(p => (p.id === id ? { ...p, ...patch } : p)) }));
+  };
+
+  const removePattern = (id: string) => {
+    setRedaction(prev => ({ ...prev, patterns: prev.patterns.filter(p => p.id !== id) }));
+  };
+
+  const handleSave = () => {
+    saveAISettings(settings);
+    saveRedactionSettings(redaction);
+    saveModelImageSettings(imageSettings);
+    saveUsageSettings(usageSettings);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-slate-100">
+          <h2 className="text-xl font-bold text-slate-800">Settings</h2>
+          <div className="flex bg-slate-100 rounded-lg p-1 mt-3 text-sm font-semibold">
+            <button
+              onClick={() => setTab('provider')}
+              className={`flex-1 py-1 rounded-md transition-colors ${tab === 'provider' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              AI Provider
+            </button>
+            <button
+              onClick={() => setTab('images')}
+              className={`flex-1 py-1 rounded-md transition-colors ${tab === 'images' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              Images
+            </button>
+            <button
+              onClick={() => setTab('privacy')}
+              className={`flex-1 py-1 rounded-md transition-colors ${tab === 'privacy' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              Privacy
+            </button>
+            <button
+              onClick={() => setTab('usage')}
+              className={`flex-1 py-1 rounded-md transition-colors ${tab === 'usage' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              Usage
+            </button>
+          </div>
+        </div>
+
+        {tab === 'usage' ? (
+          <UsagePanel
+            monthlyBudget={usageSettings.monthlyBudget}
+            onBudgetChange={(monthlyBudget) => setUsageSettings({ ...usageSettings, monthlyBudget })}
+          />
+        ) : tab === 'images' ? (
+          <div className="p-6 space-y-5">
+            <p className="text-sm text-slate-500">
+              Frames are sent to the AI as smaller copies, which is faster, cheaper and stays within request size limits. Your frames stay at full resolution for printing and export.
+            </p>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Longest side</label>
+                <select
+                  value={imageSettings.maxDimension}
+                  onChange={(e) => setImageSettings({ ...imageSettings, maxDimension: Number(e.target.value) })}
+                  className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm bg-white"
+                >
+                  {MODEL_IMAGE_SIZES.map(size => <option key={size.value} value={size.value}>{size.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Format</label>
+                <select
+                  value={imageSettings.format}
+                  onChange={(e) => setImageSettings({ ...imageSettings, format: e.target.value as ModelImageFormat })}
+                  className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm bg-white"
+                >
+                  {MODEL_IMAGE_FORMATS.map(format => <option key={format.id} value={format.id}>{format.label}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">
+                Quality <span className="normal-case font-normal">({Math.round(imageSettings.quality * 100)}%)</span>
+              </label>
+              <input
+                type="range"
+                min={0.4}
+                max={0.95}
+                step={0.05}
+                value={imageSettings.quality}
+                onChange={(e) => setImageSettings({ ...imageSettings, quality: Number(e.target.value) })}
+                className="w-full accent-indigo-600"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Request limit (MB)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={imageSettings.maxRequestMB}
+                  onChange={(e) => setImageSettings({ ...imageSettings, maxRequestMB: Math.max(1, Number(e.target.value)) })}
+                  className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Token budget</label>
+                <input
+                  type="number"
+                  min={4000}
+                  step={1000}
+                  value={imageSettings.maxRequestTokens}
+                  onChange={(e) => setImageSettings({ ...imageSettings, maxRequestTokens: Math.max(4000, Number(e.target.value)) })}
+                  className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-slate-400 -mt-2">
+              Larger sets of frames are shrunk further or split into batches to stay under these limits. Lower the token budget for local models with a small context window.
+            </p>
+
+            <button
+              onClick={() => setImageSettings(DEFAULT_MODEL_IMAGE_SETTINGS)}
+              className="text-xs font-medium text-slate-500 hover:text-indigo-600"
+            >
+              Restore defaults
+            </button>
+          </div>
+        ) : tab === 'privacy' ? (
+          <div className="p-6 space-y-5 max-h-[60vh] overflow-y-auto">
+            <p className="text-sm text-slate-500">
+              Text in your frames is read locally and anything matching these patterns is offered for blurring before it reaches the AI or an export.
+            </p>
+
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+              <input
+                type="checkbox"
+                checked={redaction.scanBeforeGenerate}
+                onChange={(e) => setRedaction({ ...redaction, scanBeforeGenerate: e.target.checked })}
+                className="accent-indigo-600"
+              />
+              Scan frames for sensitive info before generating
+            </label>
+            <p className="text-xs text-slate-400 -mt-3">
+              Covers the handout only. Auto-Select sends its candidate frames to the AI without a scan, so leave it off for recordings with sensitive screens.
+            </p>
+
+            <div className="space-y-2">
+              {redaction.patterns.map(p => (
+                <div key={p.id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={p.enabled}
+                    onChange={(e) => updatePattern(p.id, { enabled: e.target.checked })}
+                    className="accent-indigo-600"
+                  />
+                  <span className="font-medium text-slate-700">{p.label}</span>
+                  {!p.builtIn && (
+                    <>
+                      <code className="text-xs text-slate-400 truncate flex-1">{p.pattern}</code>
+                      <button onClick={() => removePattern(p.id)} className="text-xs text-slate-400 hover:text-red-600">Remove</button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="border-t border-slate-100 pt-4">
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Add custom pattern</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newPatternLabel}
+                  onChange={(e) => setNewPatternLabel(e.target.value)}
+                  placeholder="Label"
+                  className="w-1/3 border border-slate-300 rounded-lg px-3 py-2 text-sm"
+                />
+                <input
+                  type="text"
+                  value={newPattern}
+                  onChange={(e) => setNewPattern(e.target.value)}
+                  placeholder="Regular expression, e.g. CUST-\d{6}"
+                  className="flex-1 border border-slate-300 rounded-lg px-3 py-2 text-sm font-mono"
+                />
+                <button
+                  onClick={addPattern}
+                  disabled={!newPattern || !!patternError}
+                  className="px-3 py-2 bg-slate-800 text-white text-sm font-semibold rounded-lg disabled:opacity-40"
+                >
+                  Add
+                </button>
+              </div>
+              {patternError && <p className="text-xs text-red-600 mt-1">{patternError}</p>}
+            </div>
+          </div>
+        ) : (
+        <div className="p-6 space-y-5">
+          <div className="grid grid-cols-2 gap-2">
+            {PROVIDER_OPTIONS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => selectProvider(option.id)}
+                className={`text-left p-3 rounded-lg border-2 transition-colors
+                  ${settings.provider === option.id ? 'border-indigo-600 bg-indigo-50' : 'border-slate-200 hover:border-slate-300'}`}
+              >
+                <div className="font-semibold text-sm text-slate-800">{option.label}</div>
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-slate-500 -mt-2">{selected.description}</p>
+
+          {choosesModel && (
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Model</label>
+            <input
+              type="text"
+              value={settings.model}
+              onChange={(e) => setSettings({ ...settings, model: e.target.value })}
+              disabled={settings.provider === 'mock'}
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm font-mono disabled:bg-slate-50 disabled:text-slate-400"
+            />
+            {settings.provider === 'local' && (
+              <p className="text-xs text-slate-400 mt-1">Use a vision-capable model, e.g. llava, llama3.2-vision or qwen2.5vl.</p>
+            )}
+          </div>
+          )}
+
+          {needsEndpoint && (
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Endpoint</label>
+              <input
+                type="url"
+                value={settings.endpoint}
+                onChange={(e) => setSettings({ ...settings, endpoint: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm font-mono"
+              />
+            </div>
+          )}
+
+          {allowsApiKey && (
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">
+                API Key {!needsApiKey && <span className="normal-case font-normal">(optional)</span>}
+              </label>
+              <input
+                type="password"
+                value={settings.apiKey}
+                onChange={(e) => setSettings({ ...settings, apiKey: e.target.value })}
+                className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm font-mono"
+              />
+              <p className="text-xs text-slate-400 mt-1">Stored only in this browser.</p>
+            </div>
+          )}
+        </div>
+        )}
+
+        <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 font-semibold rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={(choosesModel && !settings.model) || (needsEndpoint && !settings.endpoint) || (needsApiKey && !settings.apiKey)}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-md transition-colors disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,237 @@
+import React, { useRef, useState } from 'react';
+import { HandoutTheme, PageSize } from '../types';
+import {
+  deleteTheme,
+  FONT_OPTIONS,
+  LAYOUT_OPTIONS,
+  loadThemes,
+  PAGE_SIZES,
+  resizeLogo,
+  saveTheme,
+} from '../services/themeService';
+
+interface ThemePanelProps {
+  theme: HandoutTheme;
+  onChange: (theme: HandoutTheme) => void;
+  onClose: () => void;
+}
+
+const ThemePanel: React.FC<ThemePanelProps> = ({ theme, onChange, onClose }) => {
+  const [themes, setThemes] = useState<HandoutTheme[]>(loadThemes);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const persist = (next: HandoutTheme) => {
+    saveTheme(next);
+    setThemes(loadThemes());
+    onChange(next);
+  };
+
+  // Built-in themes are read-only; the first edit forks them into a custom copy
+  const updateTheme = (patch: Partial<HandoutTheme>) => {
+    if (theme.builtIn) {
+      persist({ ...theme, ...patch, id: Math.random().toString(36).substr(2, 9), name: `${theme.name} (custom)`, builtIn: false });
+    } else {
+      persist({ ...theme, ...patch });
+    }
+  };
+
+  const duplicate = () => {
+    persist({ ...theme, id: Math.random().toString(36).substr(2, 9), name: `${theme.name} copy`, builtIn: false });
+  };
+
+  const remove = () => {
+    if (!window.confirm(`Delete the theme "${theme.name}"? Projects using it will fall back to Classic.`)) return;
+    deleteTheme(theme.id);
+    const remaining = loadThemes();
+    setThemes(remaining);
+    onChange(remaining[0]);
+  };
+
+  const handleLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      updateTheme({ logo: await resizeLogo(file) });
+    } catch (err: any) {
+      alert(`Could not use that logo.\n\nReason: ${err.message}`);
+    }
+  };
+
+  const colorField = (label: string, key: 'primaryColor' | 'badgeColor' | 'tipColor') => (
+    <label className="flex items-center justify-between gap-2 text-sm text-slate-700">
+      {label}
+      <input
+        type="color"
+        value={theme[key]}
+        onChange={(e) => updateTheme({ [key]: e.target.value })}
+        className="w-10 h-8 rounded border border-slate-300 cursor-pointer"
+      />
+    </label>
+  );
+
+  const fontField = (label: string, key: 'headingFont' | 'bodyFont') => (
+    <label className="block text-sm text-slate-700">
+      {label}
+      <select
+        value={theme[key]}
+        onChange={(e) => updateTheme({ [key]: e.target.value })}
+        className="mt-1 w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+      >
+        {Object.keys(FONT_OPTIONS).map(name => (
+          <option key={name} value={name}>{name}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="no-print fixed top-0 right-0 bottom-0 z-[60] w-80 bg-white shadow-2xl border-l border-slate-200 flex flex-col">
+      <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+        <h2 className="text-lg font-bold text-slate-800">Theme</h2>
+        <button onClick={onClose} className="p-1 rounded hover:bg-slate-100 text-slate-500" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
+            <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6">
+        <section>
+          <h3 className="text-xs font-bold uppercase tracking-wide text-slate-500 mb-2">Saved themes</h3>
+          <div className="space-y-1">
+            {themes.map(t => (
+              <button
+                key={t.id}
+                onClick={() => onChange(t)}
+                className={`w-full text-left px-3 py-2 rounded-lg border flex items-center gap-2 text-sm transition-colors
+                  ${t.id === theme.id ? 'border-indigo-500 bg-indigo-50 text-indigo-800' : 'border-slate-200 hover:bg-slate-50 text-slate-700'}`}
+              >
+                <span className="flex gap-0.5">
+                  {[t.primaryColor, t.badgeColor, t.tipColor].map((c, i) => (
+                    <span key={i} className="w-3 h-3 rounded-full border border-black/10" style={{ backgroundColor: c }} />
+                  ))}
+                </span>
+                <span className="flex-1 truncate font-medium">{t.name}</span>
+                {t.builtIn && <span className="text-[10px] uppercase text-slate-400">Built-in</span>}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-2">
+            <button onClick={duplicate} className="flex-1 text-xs font-semibold py-1.5 rounded-lg bg-slate-100 hover:bg-slate-200 text-slate-700">
+              Duplicate
+            </button>
+            {!theme.builtIn && (
+              <button onClick={remove} className="flex-1 text-xs font-semibold py-1.5 rounded-lg bg-red-50 hover:bg-red-100 text-red-600">
+                Delete
+              </button>
+            )}
+          </div>
+          {theme.builtIn && (
+            <p className="text-xs text-slate-500 mt-2">Changing a built-in theme saves your edits as a new custom theme.</p>
+          )}
+        </section>
+
+        {!theme.builtIn && (
+          <label className="block text-sm text-slate-700">
+            Name
+            <input
+              value={theme.name}
+              onChange={(e) => updateTheme({ name: e.target.value })}
+              className="mt-1 w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+          </label>
+        )}
+
+        <section>
+          <h3 className="text-xs font-bold uppercase tracking-wide text-slate-500 mb-2">Layout</h3>
+          <div className="space-y-1">
+            {LAYOUT_OPTIONS.map(option => (
+              <label key={option.id} className="flex items-start gap-2 p-2 rounded-lg hover:bg-slate-50 cursor-pointer">
+                <input
+                  type="radio"
+                  name="layout"
+                  checked={theme.layout === option.id}
+                  onChange={() => updateTheme({ layout: option.id })}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-semibold text-slate-800">{option.label}</span>
+                  <span className="block text-xs text-slate-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="flex bg-slate-100 rounded-lg p-1 mt-3 text-sm font-semibold">
+            {(Object.keys(PAGE_SIZES) as PageSize[]).map(size => (
+              <button
+                key={size}
+                onClick={() => updateTheme({ pageSize: size })}
+                className={`flex-1 py-1 rounded-md transition-colors ${theme.pageSize === size ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {size}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="text-xs font-bold uppercase tracking-wide text-slate-500">Colors</h3>
+          {colorField('Accent', 'primaryColor')}
+          {colorField('Step badges', 'badgeColor')}
+          {colorField('Tips', 'tipColor')}
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-xs font-bold uppercase tracking-wide text-slate-500">Fonts</h3>
+          {fontField('Headings', 'headingFont')}
+          {fontField('Body text', 'bodyFont')}
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-xs font-bold uppercase tracking-wide text-slate-500">Branding</h3>
+          <div className="flex items-center gap-3">
+            {theme.logo ? (
+              <img src={theme.logo} alt="Logo" className="h-10 max-w-[120px] object-contain border border-slate-200 rounded p-1" />
+            ) : (
+              <div className="h-10 w-20 border-2 border-dashed border-slate-300 rounded flex items-center justify-center text-xs text-slate-400">No logo</div>
+            )}
+            <button
+              onClick={() => logoInputRef.current?.click()}
+              className="text-xs font-semibold px-3 py-1.5 rounded-lg bg-slate-100 hover:bg-slate-200 text-slate-700"
+            >
+              {theme.logo ? 'Replace' : 'Upload'}
+            </button>
+            {theme.logo && (
+              <button onClick={() => updateTheme({ logo: undefined })} className="text-xs font-semibold text-red-600 hover:text-red-700">
+                Remove
+              </button>
+            )}
+            <input ref={logoInputRef} type="file" accept="image/*" className="hidden" onChange={handleLogo} />
+          </div>
+          <label className="block text-sm text-slate-700">
+            Header text
+            <input
+              value={theme.headerText}
+              onChange={(e) => updateTheme({ headerText: e.target.value })}
+              placeholder="e.g. Acme Corp · Internal"
+              className="mt-1 w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+          </label>
+          <label className="block text-sm text-slate-700">
+            Footer text
+            <input
+              value={theme.footerText}
+              onChange={(e) => updateTheme({ footerText: e.target.value })}
+              placeholder="e.g. {title} · Support team"
+              className="mt-1 w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+          </label>
+          <p className="text-xs text-slate-500">Use {'{title}'} and {'{date}'} to insert the handout title or today's date.</p>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default ThemePanel;
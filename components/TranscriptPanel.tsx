@@ -0,0 +1,95 @@
+import React from 'react';
+import { TranscriptSegment } from '../types';
+import { formatTimestamp } from '../services/transcriptService';
+
+interface TranscriptPanelProps {
+  transcript: TranscriptSegment[] | null;
+  isTranscribing: boolean;
+  statusMessage: string;
+  disabled: boolean;
+  onTranscribe: () => void;
+  onSeek: (time: number) => void;
+  onCapture: (time: number) => void;
+}
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({
+  transcript,
+  isTranscribing,
+  statusMessage,
+  disabled,
+  onTranscribe,
+  onSeek,
+  onCapture,
+}) => {
+  if (isTranscribing) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-slate-500 gap-3">
+        <div className="w-8 h-8 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin"></div>
+        <p className="text-sm text-center animate-pulse">{statusMessage}</p>
+      </div>
+    );
+  }
+
+  if (!transcript) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-center gap-3 px-2">
+        <p className="text-sm text-slate-500">
+          Transcribe the narration so step descriptions reflect what the presenter actually says.
+        </p>
+        <button
+          onClick={onTranscribe}
+          disabled={disabled}
+          className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-semibold rounded-lg shadow-md transition-colors disabled:opacity-50"
+        >
+          Transcribe Audio
+        </button>
+      </div>
+    );
+  }
+
+  if (transcript.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-center gap-3 px-2">
+        <p className="text-sm text-slate-500">No speech was found in this video.</p>
+        <button onClick={onTranscribe} disabled={disabled} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800 disabled:opacity-50">
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {transcript.map((seg, i) => (
+        <div key={i} className="group flex gap-2 items-start rounded-lg p-2 hover:bg-slate-50">
+          <button
+            onClick={() => onSeek(seg.start)}
+            className="text-xs font-mono text-indigo-600 hover:underline pt-0.5 flex-shrink-0"
+            title="Jump to this moment"
+          >
+            {formatTimestamp(seg.start)}
+          </button>
+          <p
+            onClick={() => onSeek(seg.start)}
+            className="flex-1 text-sm text-slate-700 leading-snug cursor-pointer"
+          >
+            {seg.text}
+          </p>
+          <button
+            onClick={() => onCapture(seg.start)}
+            disabled={disabled}
+            className="opacity-0 group-hover:opacity-100 transition-opacity p-1 rounded bg-slate-800 text-white hover:bg-slate-900 flex-shrink-0 disabled:opacity-30"
+            title="Capture frame at this moment"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3.5 h-3.5">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6.827 6.175A2.31 2.31 0 0 1 5.186 7.23c-.38.054-.757.112-1.134.175C2.999 7.58 2.25 8.507 2.25 9.574V18a2.25 2.25 0 0 0 2.25 2.25h15A2.25 2.25 0 0 0 21.75 18V9.574c0-1.067-.75-1.994-1.802-2.169a47.865 47.865 0 0 0-1.134-.175 2.31 2.31 0 0 1-1.64-1.055l-.822-1.316a2.192 2.192 0 0 0-1.736-1.039 48.774 48.774 0 0 0-5.232 0 2.192 2.192 0 0 0-1.736 1.039l-.821 1.316Z" />
+              <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 12.75a4.5 4.5 0 1 1-9 0 4.5 4.5 0 0 1 9 0Z" />
+            </svg>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { LANGUAGE_SUGGESTIONS } from '../services/generationOptions';
+
+interface TranslateDialogProps {
+  originalLanguage: string;
+  existing: string[];
+  initialLanguages?: string[];
+  onTranslate: (language: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// Picks target languages and translates into each in turn, so one failure doesn't lose the others
+const TranslateDialog: React.FC<TranslateDialogProps> = ({ originalLanguage, existing, initialLanguages = [], onTranslate, onClose }) => {
+  const [selected, setSelected] = useState<string[]>(initialLanguages);
+  const [custom, setCustom] = useState("");
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const suggestions = Array.from(new Set([...LANGUAGE_SUGGESTIONS, ...existing, ...initialLanguages]))
+    .filter(l => l.toLowerCase() !== originalLanguage.toLowerCase());
+
+  const toggle = (language: string) => {
+    setSelected(prev => (prev.includes(language) ? prev.filter(l => l !== language) : [...prev, language]));
+  };
+
+  const addCustom = () => {
+    const language = custom.trim();
+    if (language && !selected.includes(language)) setSelected(prev => [...prev, language]);
+    setCustom("");
+  };
+
+  const handleTranslate = async () => {
+    const failures: string[] = [];
+    for (let i = 0; i < selected.length; i++) {
+      setProgress(`Translating into ${selected[i]} (${i + 1} of ${selected.length})...`);
+      try {
+        await onTranslate(selected[i]);
+      } catch (err: any) {
+        console.error(`Translation into ${selected[i]} failed:`, err);
+        failures.push(`${selected[i]}: ${err.message}`);
+      }
+    }
+    setProgress(null);
+    if (failures.length > 0) {
+      alert(`Some translations failed.\n\n${failures.join('\n')}`);
+    }
+    onClose();
+  };
+
+  return (
+    <div className="no-print fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={progress ? undefined : onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-slate-100">
+          <h2 className="text-xl font-bold text-slate-800">Translate handout</h2>
+          <p className="text-sm text-slate-500 mt-1">
+            Translations keep the same steps and images as the {originalLanguage} original. Existing translations are replaced.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {[...suggestions, ...selected.filter(l => !suggestions.includes(l))].map(language => (
+              <button
+                key={language}
+                onClick={() => toggle(language)}
+                disabled={!!progress}
+                className={`text-sm px-3 py-1 rounded-full border transition-colors
+                  ${selected.includes(language)
+                    ? 'bg-indigo-600 border-indigo-600 text-white'
+                    : 'bg-white border-slate-300 text-slate-700 hover:border-indigo-400'}`}
+              >
+                {language}
+                {existing.includes(language) && <span className="ml-1 opacity-70">✓</span>}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={custom}
+              onChange={(e) => setCustom(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addCustom()}
+              placeholder="Other language, e.g. Swahili"
+              disabled={!!progress}
+              className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <button
+              onClick={addCustom}
+              disabled={!custom.trim() || !!progress}
+              className="px-3 py-2 text-sm font-semibold bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+          {progress && (
+            <div className="flex items-center gap-2 text-sm text-indigo-700">
+              <span className="w-4 h-4 border-2 border-indigo-200 border-t-indigo-600 rounded-full animate-spin" />
+              {progress}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+          <button onClick={onClose} disabled={!!progress} className="px-4 py-2 text-slate-600 font-medium hover:bg-slate-100 rounded-lg disabled:opacity-50">
+            Cancel
+          </button>
+          <button
+            onClick={handleTranslate}
+            disabled={selected.length === 0 || !!progress}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Translate{selected.length > 1 ? ` into ${selected.length} languages` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TranslateDialog;
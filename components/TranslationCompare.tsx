@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { HandoutData, HandoutTranslation } from '../types';
+import { alignTranslation, isRtlLanguage } from '../services/translationService';
+import { calloutLabel, stepLabels } from '../services/handoutContent';
+
+interface TranslationCompareProps {
+  source: HandoutData;
+  originalLanguage: string;
+  translations: HandoutTranslation[];
+  initialLanguage?: string;
+  onClose: () => void;
+}
+
+interface Row {
+  label: string;
+  original: string;
+  translated: string;
+}
+
+const buildRows = (source: HandoutData, translated: HandoutData, labels = stepLabels(source.steps)): Row[] => [
+  { label: 'Title', original: source.title, translated: translated.title },
+  { label: 'Summary', original: source.summary, translated: translated.summary },
+  ...(source.estimatedTime ? [{ label: 'Estimated time', original: source.estimatedTime, translated: translated.estimatedTime || '' }] : []),
+  ...(source.prerequisites || []).map((item, i) => ({ label: `Prerequisite ${i + 1}`, original: item, translated: translated.prerequisites?.[i] || '' })),
+  ...(source.materials || []).map((item, i) => ({ label: `Material ${i + 1}`, original: item, translated: translated.materials?.[i] || '' })),
+  ...(source.sections || []).flatMap((section, i) => [
+    { label: `Section ${i + 1}`, original: section.title, translated: translated.sections?.[i]?.title || '' },
+    { label: '', original: section.summary, translated: translated.sections?.[i]?.summary || '' },
+  ]),
+  ...source.steps.flatMap((step, i) => {
+    const t = translated.steps[i];
+    return [
+      { label: `Step ${labels[i]}`, original: step.title, translated: t.title },
+      { label: '', original: step.description, translated: t.description },
+      ...(step.subSteps || []).map((sub, j) => ({ label: '', original: `${String.fromCharCode(97 + j)}. ${sub}`, translated: `${String.fromCharCode(97 + j)}. ${t.subSteps?.[j] || ''}` })),
+      ...(step.callouts || []).map((callout, j) => ({ label: calloutLabel(callout.type), original: callout.text, translated: t.callouts?.[j]?.text || '' })),
+    ];
+  }),
+  ...(source.troubleshooting || []).flatMap((item, i) => [
+    { label: 'Problem', original: item.problem, translated: translated.troubleshooting?.[i]?.problem || '' },
+    { label: 'Solution', original: item.solution, translated: translated.troubleshooting?.[i]?.solution || '' },
+  ]),
+  ...(source.faq || []).flatMap((item, i) => [
+    { label: 'Question', original: item.question, translated: translated.faq?.[i]?.question || '' },
+    { label: 'Answer', original: item.answer, translated: translated.faq?.[i]?.answer || '' },
+  ]),
+];
+
+// Read-only review of the original and a translation, row by row
+const TranslationCompare: React.FC<TranslationCompareProps> = ({ source, originalLanguage, translations, initialLanguage, onClose }) => {
+  const [language, setLanguage] = useState(initialLanguage || translations[0]?.language);
+  const translation = translations.find(t => t.language === language) || translations[0];
+  if (!translation) return null;
+
+  const rows = buildRows(source, alignTranslation(source, translation.data));
+
+  return (
+    <div className="no-print fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between gap-4">
+          <h2 className="text-xl font-bold text-slate-800">Compare translation</h2>
+          <div className="flex items-center gap-2">
+            <select
+              value={translation.language}
+              onChange={(e) => setLanguage(e.target.value)}
+              className="px-2 py-1.5 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {translations.map(t => <option key={t.language} value={t.language}>{t.language}</option>)}
+            </select>
+            <button onClick={onClose} className="p-1 rounded hover:bg-slate-100 text-slate-500" title="Close">
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
+                <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="w-28 p-3 text-left font-semibold"></th>
+                <th className="p-3 text-left font-semibold">{originalLanguage} (original)</th>
+                <th className="p-3 text-left font-semibold">{translation.language}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, i) => (
+                <tr key={i} className={`align-top ${row.label ? 'border-t border-slate-100' : ''}`}>
+                  <td className="p-3 text-xs font-semibold text-slate-400">{row.label}</td>
+                  <td className="p-3 text-slate-700 whitespace-pre-wrap" dir={isRtlLanguage(originalLanguage) ? 'rtl' : 'ltr'}>{row.original}</td>
+                  <td className="p-3 text-slate-700 whitespace-pre-wrap" dir={translation.rtl ? 'rtl' : 'ltr'}>{row.translated}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TranslationCompare;
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { ProjectSummary } from '../types';
+import { clearUsage, formatCost, loadUsage, totalUsage, UsageEntry, usageThisMonth } from '../services/usageLedger';
+import { clearResponseCache, countCachedResponses } from '../services/responseCache';
+import { listProjects } from '../services/projectStore';
+
+interface UsagePanelProps {
+  monthlyBudget: number;
+  onBudgetChange: (budget: number) => void;
+}
+
+const RECENT_CALLS = 25;
+
+const TASK_LABELS: Record<UsageEntry['task'], string> = {
+  handout: "Handout",
+  stepRewrite: "Step rewrite",
+  headerRewrite: "Title rewrite",
+  handoutRewrite: "Handout rewrite",
+  translation: "Translation",
+  frameSelection: "Auto-select",
+  transcription: "Transcription",
+};
+
+const formatTokens = (tokens: number) => (tokens >= 10000 ? `${Math.round(tokens / 1000)}k` : tokens.toLocaleString());
+
+// Spending against the monthly budget, totals per project and the latest calls. Lives in the Settings dialog.
+const UsagePanel: React.FC<UsagePanelProps> = ({ monthlyBudget, onBudgetChange }) => {
+  const [entries, setEntries] = useState<UsageEntry[]>(loadUsage);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [cachedCount, setCachedCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listProjects().then(list => { if (!cancelled) setProjects(list); }).catch(() => {});
+    countCachedResponses().then(count => { if (!cancelled) setCachedCount(count); }).catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const month = totalUsage(usageThisMonth(entries));
+  const budgetShare = monthlyBudget > 0 ? Math.min(1, month.cost / monthlyBudget) : 0;
+
+  const byProject = Array.from(new Set(entries.map(e => e.projectId || '')))
+    .map(id => ({
+      id,
+      name: id ? projects.find(p => p.id === id)?.name || "Deleted project" : "No project",
+      totals: totalUsage(entries.filter(e => (e.projectId || '') === id)),
+    }))
+    .sort((a, b) => b.totals.cost - a.totals.cost || b.totals.calls - a.totals.calls);
+
+  const handleClearCache = async () => {
+    if (!window.confirm("Clear all saved AI replies? The next generation on the same frames will call the model again.")) return;
+    await clearResponseCache().catch(err => alert(`Could not clear the cache.\n\nReason: ${err.message}`));
+    setCachedCount(0);
+  };
+
+  const handleClearHistory = () => {
+    if (!window.confirm("Clear the usage history? This month's spending starts again from zero.")) return;
+    clearUsage();
+    setEntries([]);
+  };
+
+  return (
+    <div className="p-6 space-y-5">
+      <div>
+        <div className="flex items-baseline justify-between">
+          <span className="text-xs font-bold text-slate-500 uppercase">This month</span>
+          <span className="text-sm text-slate-700">
+            <span className="font-bold">{formatCost(month.cost)}</span>
+            {monthlyBudget > 0 && <span className="text-slate-400"> of {formatCost(monthlyBudget)}</span>}
+          </span>
+        </div>
+        {monthlyBudget > 0 && (
+          <div className="h-2 mt-2 bg-slate-100 rounded-full overflow-hidden">
+            <div className={`h-full ${budgetShare >= 1 ? 'bg-red-500' : budgetShare >= 0.8 ? 'bg-amber-500' : 'bg-indigo-500'}`} style={{ width: `${budgetShare * 100}%` }} />
+          </div>
+        )}
+        <p className="text-xs text-slate-400 mt-1">
+          {month.calls} calls, {month.cachedCalls} answered from the cache · {formatTokens(month.inputTokens)} tokens in, {formatTokens(month.outputTokens)} out
+          {month.unpricedCalls > 0 && ` · ${month.unpricedCalls} calls to models without a known price aren't counted`}
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Monthly budget (USD)</label>
+        <input
+          type="number"
+          min={0}
+          step={1}
+          value={monthlyBudget}
+          onChange={(e) => onBudgetChange(Math.max(0, Number(e.target.value)))}
+          className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm"
+        />
+        <p className="text-xs text-slate-400 mt-1">
+          You're asked before a call that would go over it. 0 means no limit. Costs are estimated from list prices.
+        </p>
+      </div>
+
+      {byProject.length > 0 && (
+        <div>
+          <span className="block text-xs font-bold text-slate-500 uppercase mb-1">By project</span>
+          <div className="max-h-32 overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-100">
+            {byProject.map(({ id, name, totals }) => (
+              <div key={id || 'none'} className="flex items-center justify-between gap-2 px-3 py-1.5 text-xs">
+                <span className="truncate text-slate-700" title={name}>{name}</span>
+                <span className="flex-shrink-0 text-slate-500">
+                  {totals.calls} calls · <span className="font-semibold text-slate-700">{formatCost(totals.cost)}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <span className="block text-xs font-bold text-slate-500 uppercase mb-1">Recent calls</span>
+        {entries.length === 0 ? (
+          <p className="text-xs text-slate-400">No AI calls recorded yet.</p>
+        ) : (
+          <div className="max-h-48 overflow-y-auto border border-slate-200 rounded-lg">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                <tr>
+                  <th className="text-left font-semibold px-2 py-1">When</th>
+                  <th className="text-left font-semibold px-2 py-1">Task</th>
+                  <th className="text-right font-semibold px-2 py-1">Tokens</th>
+                  <th className="text-right font-semibold px-2 py-1">Time</th>
+                  <th className="text-right font-semibold px-2 py-1">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {entries.slice(-RECENT_CALLS).reverse().map(entry => (
+                  <tr key={entry.id} className={entry.failed ? 'text-red-600' : 'text-slate-700'} title={`${entry.provider} · ${entry.model}${entry.failed ? ' · failed' : ''}`}>
+                    <td className="px-2 py-1 whitespace-nowrap">{new Date(entry.time).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</td>
+                    <td className="px-2 py-1">{TASK_LABELS[entry.task] || entry.task}</td>
+                    <td className="px-2 py-1 text-right font-mono">{entry.cached ? '–' : `${formatTokens(entry.inputTokens)} / ${formatTokens(entry.outputTokens)}`}</td>
+                    <td className="px-2 py-1 text-right font-mono">{(entry.latencyMs / 1000).toFixed(1)}s</td>
+                    <td className="px-2 py-1 text-right">
+                      {entry.cached ? <span className="text-emerald-600 font-semibold">Cached</span> : entry.cost === null ? '?' : formatCost(entry.cost)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-4">
+        <button onClick={handleClearCache} className="text-xs font-medium text-slate-500 hover:text-indigo-600">
+          Clear cached replies{cachedCount !== null && ` (${cachedCount})`}
+        </button>
+        <button onClick={handleClearHistory} disabled={entries.length === 0} className="text-xs font-medium text-slate-500 hover:text-red-600 disabled:opacity-40">
+          Clear usage history
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
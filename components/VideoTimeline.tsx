@@ -0,0 +1,158 @@
+import React, { useRef, useState } from 'react';
+import { CapturedFrame } from '../types';
+import { TimelineThumbnail } from '../services/videoThumbnails';
+import { formatTimestamp } from '../services/transcriptService';
+import { groupFrames } from '../services/frameGroups';
+
+interface VideoTimelineProps {
+  duration: number;
+  currentTime: number;
+  frames: CapturedFrame[];
+  chapters?: { id: string; start: number; title: string }[]; // Titles already resolved for display
+  thumbnails: (TimelineThumbnail | undefined)[];
+  onSeek: (time: number) => void;
+  onRetimeFrame: (id: string, time: number) => void;
+  disabled?: boolean;
+}
+
+const DRAG_THRESHOLD = 3; // Pixels a marker must move before a press counts as a drag
+
+// Seek bar over a thumbnail strip, with a draggable marker for every captured frame and a flag per chapter
+const VideoTimeline: React.FC<VideoTimelineProps> = ({ duration, currentTime, frames, chapters = [], thumbnails, onSeek, onRetimeFrame, disabled }) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const [dragging, setDragging] = useState<{ id: string; startX: number; time: number; moved: boolean } | null>(null);
+
+  const hasDuration = isFinite(duration) && duration > 0;
+  const percent = (time: number) => (hasDuration ? Math.min(100, Math.max(0, (time / duration) * 100)) : 0);
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || !hasDuration) return 0;
+    return Math.min(duration, Math.max(0, ((clientX - rect.left) / rect.width) * duration));
+  };
+
+  const handleTrackDown = (e: React.PointerEvent) => {
+    if (disabled || !hasDuration) return;
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    setIsScrubbing(true);
+    onSeek(timeAt(e.clientX));
+  };
+
+  const handleMarkerDown = (e: React.PointerEvent, frame: CapturedFrame) => {
+    if (disabled) return;
+    e.stopPropagation();
+    trackRef.current?.setPointerCapture(e.pointerId);
+    setDragging({ id: frame.id, startX: e.clientX, time: frame.timestamp, moved: false });
+  };
+
+  const handleMove = (e: React.PointerEvent) => {
+    const time = timeAt(e.clientX);
+    setHoverTime(time);
+    if (dragging) {
+      const moved = dragging.moved || Math.abs(e.clientX - dragging.startX) > DRAG_THRESHOLD;
+      setDragging({ ...dragging, time, moved });
+    } else if (isScrubbing) {
+      onSeek(time);
+    }
+  };
+
+  const handleUp = () => {
+    if (dragging) {
+      const frame = frames.find(f => f.id === dragging.id);
+      if (dragging.moved) onRetimeFrame(dragging.id, dragging.time);
+      else if (frame) onSeek(frame.timestamp);
+    }
+    setDragging(null);
+    setIsScrubbing(false);
+  };
+
+  const stepOf = new Map(groupFrames(frames).flatMap((group, i) => group.map(f => [f.id, i + 1] as const)));
+
+  const previewTime = dragging?.moved ? dragging.time : hoverTime;
+  const previewThumb = previewTime !== null && thumbnails.length > 0
+    ? thumbnails[Math.min(thumbnails.length - 1, Math.floor((previewTime / duration) * thumbnails.length))]
+    : undefined;
+
+  return (
+    <div className={`select-none ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+      <div
+        ref={trackRef}
+        className="relative h-12 rounded-lg overflow-visible bg-slate-800 cursor-pointer touch-none"
+        onPointerDown={handleTrackDown}
+        onPointerMove={handleMove}
+        onPointerUp={handleUp}
+        onPointerCancel={handleUp}
+        onPointerLeave={() => !isScrubbing && !dragging && setHoverTime(null)}
+      >
+        {/* Thumbnail strip */}
+        <div className="absolute inset-0 flex rounded-lg overflow-hidden">
+          {thumbnails.map((thumb, i) => (
+            <div key={i} className="flex-1 h-full bg-slate-700 border-r border-slate-900/40 last:border-r-0">
+              {thumb && <img src={thumb.dataUrl} alt="" className="w-full h-full object-cover opacity-80" draggable={false} />}
+            </div>
+          ))}
+        </div>
+
+        {/* Played portion */}
+        <div className="absolute inset-y-0 left-0 bg-indigo-500/25 rounded-l-lg pointer-events-none" style={{ width: `${percent(currentTime)}%` }} />
+
+        {/* Chapter starts */}
+        {chapters.map(chapter => (
+          <div
+            key={chapter.id}
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              onSeek(chapter.start);
+            }}
+            className="absolute inset-y-0 w-3 -ml-1.5 flex justify-center cursor-pointer z-10 group/chapter"
+            style={{ left: `${percent(chapter.start)}%` }}
+            title={`${chapter.title} at ${formatTimestamp(chapter.start)}`}
+          >
+            <div className="w-0.5 h-full bg-violet-400 group-hover/chapter:bg-violet-300" />
+            <div className="absolute -bottom-2 left-1/2 w-2.5 h-2.5 bg-violet-500 rotate-45 -translate-x-1/2 border border-white" />
+          </div>
+        ))}
+
+        {/* Captured frame markers */}
+        {frames.map(frame => {
+          const isDragged = dragging?.id === frame.id;
+          const time = isDragged ? dragging.time : frame.timestamp;
+          return (
+            <div
+              key={frame.id}
+              onPointerDown={(e) => handleMarkerDown(e, frame)}
+              className={`absolute -top-2 -bottom-2 w-3 -ml-1.5 flex flex-col items-center cursor-ew-resize group/marker ${isDragged ? 'z-20' : 'z-10'}`}
+              style={{ left: `${percent(time)}%` }}
+              title={`Step ${stepOf.get(frame.id)} at ${formatTimestamp(time)} — click to jump, drag to retime`}
+            >
+              <div className={`w-3 h-3 rounded-full border-2 border-white shadow ${isDragged ? 'bg-amber-400' : 'bg-amber-500 group-hover/marker:bg-amber-400'}`} />
+              <div className="flex-1 w-0.5 bg-amber-400" />
+            </div>
+          );
+        })}
+
+        {/* Playhead */}
+        <div className="absolute -top-1 -bottom-1 w-0.5 bg-white shadow pointer-events-none z-30" style={{ left: `${percent(currentTime)}%` }} />
+
+        {/* Hover preview */}
+        {previewTime !== null && hasDuration && (
+          <div
+            className="absolute bottom-full mb-3 -translate-x-1/2 bg-slate-900 text-white rounded-lg shadow-xl p-1 pointer-events-none z-40"
+            style={{ left: `${percent(previewTime)}%` }}
+          >
+            {previewThumb && <img src={previewThumb.dataUrl} alt="" className="h-20 w-auto rounded" />}
+            <div className="text-center text-xs font-mono mt-1">{formatTimestamp(previewTime)}</div>
+          </div>
+        )}
+      </div>
+      <div className="flex justify-between text-[10px] font-mono text-slate-400 mt-2">
+        <span>{formatTimestamp(currentTime)}</span>
+        <span>{hasDuration ? formatTimestamp(duration) : '--:--'}</span>
+      </div>
+    </div>
+  );
+};
+
+export default VideoTimeline;
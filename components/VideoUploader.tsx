@@ -1,21 +1,57 @@
-import React, { useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { IMPORTABLE_IMAGE_TYPES } from '../services/imageImport';
 
 interface VideoUploaderProps {
-  onVideoSelected: (file: File) => void;
+  onVideosSelected: (files: File[]) => void;
+  onImagesSelected: (files: File[]) => void;
+  onOpenSettings: () => void;
 }
 
-const VideoUploader: React.FC<VideoUploaderProps> = ({ onVideoSelected }) => {
+const VideoUploader: React.FC<VideoUploaderProps> = ({ onVideosSelected, onImagesSelected, onOpenSettings }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  // React doesn't know the non-standard folder picker attribute, so it's set directly
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onVideoSelected(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      onVideosSelected(Array.from(e.target.files));
+    }
+  };
+
+  const handleImagesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      onImagesSelected(Array.from(e.target.files));
     }
+    e.target.value = '';
+  };
+
+  // Dropped videos start a video project; anything else is treated as a set of screenshots
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const files = Array.from(e.dataTransfer.files);
+    const videos = files.filter(f => f.type.startsWith('video/'));
+    if (videos.length > 0) onVideosSelected(videos);
+    else if (files.length > 0) onImagesSelected(files);
   };
 
   return (
-    <div className="flex flex-col items-center justify-center h-full p-8 text-center bg-slate-50">
-      <div className="max-w-md w-full bg-white p-10 rounded-2xl shadow-xl border border-slate-100">
+    <div
+      className="flex flex-col items-center justify-center h-full p-8 text-center bg-slate-50"
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+    >
+      <div className={`max-w-md w-full bg-white p-10 rounded-2xl shadow-xl border transition-colors ${isDragOver ? 'border-indigo-400 ring-4 ring-indigo-100' : 'border-slate-100'}`}>
         <div className="w-20 h-20 bg-indigo-100 rounded-full flex items-center justify-center mx-auto mb-6 text-indigo-600">
           <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-10 h-10">
             <path strokeLinecap="round" strokeLinejoin="round" d="m15.75 10.5 4.72-4.72a.75.75 0 0 1 1.28.53v11.38a.75.75 0 0 1-1.28.53l-4.72-4.72M4.5 18.75h9a2.25 2.25 0 0 0 2.25-2.25v-9a2.25 2.25 0 0 0-2.25-2.25h-9A2.25 2.25 0 0 0 2.25 7.5v9a2.25 2.25 0 0 0 2.25 2.25Z" />
@@ -24,7 +60,7 @@ const VideoUploader: React.FC<VideoUploaderProps> = ({ onVideoSelected }) => {
         
         <h1 className="text-3xl font-bold text-slate-800 mb-2">Create Video Handouts</h1>
         <p className="text-slate-500 mb-8">
-          Upload a video file to start capturing frames. We'll use AI to generate step-by-step instructions.
+          Upload a video file to start capturing frames, or start from screenshots you already have. We'll use AI to generate step-by-step instructions.
         </p>
 
         <button
@@ -34,20 +70,61 @@ const VideoUploader: React.FC<VideoUploaderProps> = ({ onVideoSelected }) => {
           <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
             <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5m-13.5-9L12 3m0 0 4.5 4.5M12 3v13.5" />
           </svg>
-          Select Video File
+          Select Video Files
         </button>
         
         <input
           type="file"
           accept="video/*"
+          multiple
           ref={fileInputRef}
           onChange={handleFileChange}
           className="hidden"
         />
 
+        <div className="mt-3 flex gap-2">
+          <button
+            onClick={() => imageInputRef.current?.click()}
+            className="flex-1 py-2.5 bg-slate-100 hover:bg-slate-200 text-slate-700 font-semibold rounded-xl transition-colors text-sm"
+          >
+            Select Screenshots
+          </button>
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            className="flex-1 py-2.5 bg-slate-100 hover:bg-slate-200 text-slate-700 font-semibold rounded-xl transition-colors text-sm"
+          >
+            Select Folder
+          </button>
+        </div>
+        <input
+          type="file"
+          accept={IMPORTABLE_IMAGE_TYPES.join(',')}
+          multiple
+          ref={imageInputRef}
+          onChange={handleImagesChange}
+          className="hidden"
+        />
+        <input
+          type="file"
+          ref={folderInputRef}
+          onChange={handleImagesChange}
+          className="hidden"
+        />
+
         <p className="mt-4 text-xs text-slate-400">
-          Note: Due to browser security restrictions, we cannot process YouTube URLs directly. Please upload a .mp4, .webm, or .mov file.
+          Note: Due to browser security restrictions, we cannot process YouTube URLs directly. Please upload .mp4, .webm, or .mov files; several clips are combined into one handout. Screenshots can be PNG or JPEG, and you can drop files anywhere on this page.
         </p>
+
+        <button
+          onClick={onOpenSettings}
+          className="mt-6 text-sm font-medium text-slate-500 hover:text-indigo-600 inline-flex items-center gap-1"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M9.594 3.94c.09-.542.56-.94 1.11-.94h2.593c.55 0 1.02.398 1.11.94l.213 1.281c.063.374.313.686.645.87.074.04.147.083.22.127.325.196.72.257 1.075.124l1.217-.456a1.125 1.125 0 0 1 1.37.49l1.296 2.247a1.125 1.125 0 0 1-.26 1.431l-1.003.827c-.293.241-.438.613-.43.992a7.723 7.723 0 0 1 0 .255c-.008.378.137.75.43.991l1.004.827c.424.35.534.955.26 1.43l-1.298 2.247a1.125 1.125 0 0 1-1.369.491l-1.217-.456c-.355-.133-.75-.072-1.076.124a6.47 6.47 0 0 1-.22.128c-.331.183-.581.495-.644.869l-.213 1.281c-.09.543-.56.94-1.11.94h-2.594c-.55 0-1.019-.398-1.11-.94l-.213-1.281c-.062-.374-.312-.686-.644-.87a6.52 6.52 0 0 1-.22-.127c-.325-.196-.72-.257-1.076-.124l-1.217.456a1.125 1.125 0 0 1-1.369-.49l-1.297-2.247a1.125 1.125 0 0 1 .26-1.431l1.004-.827c.292-.24.437-.613.43-.991a6.932 6.932 0 0 1 0-.255c.007-.38-.138-.751-.43-.992l-1.004-.827a1.125 1.125 0 0 1-.26-1.43l1.297-2.247a1.125 1.125 0 0 1 1.37-.491l1.216.456c.356.133.751.072 1.076-.124.072-.044.146-.086.22-.128.332-.183.582-.495.644-.869l.214-1.28Z" />
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 1 1-6 0 3 3 0 0 1 6 0Z" />
+          </svg>
+          Settings
+        </button>
       </div>
     </div>
   );
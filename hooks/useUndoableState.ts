@@ -0,0 +1,75 @@
+import { useCallback, useState } from 'react';
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Key of the last update, kept in state so the updaters stay pure (StrictMode runs them twice)
+  mergeKey: string | null;
+}
+
+const HISTORY_LIMIT = 100;
+
+/**
+ * State with an undo/redo stack.
+ *
+ * Passing a `mergeKey` to `set` folds consecutive updates that share the key
+ * into a single history entry, so typing into a field undoes as one edit
+ * rather than one keystroke at a time.
+ */
+export const useUndoableState = <T,>(initial: T) => {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [], mergeKey: null });
+
+  const set = useCallback((next: T | ((prev: T) => T), mergeKey?: string) => {
+    setHistory(h => {
+      const value = typeof next === 'function' ? (next as (prev: T) => T)(h.present) : next;
+      if (Object.is(value, h.present)) return h;
+
+      const merge = mergeKey !== undefined && mergeKey === h.mergeKey;
+      return {
+        past: merge ? h.past : [...h.past, h.present].slice(-HISTORY_LIMIT),
+        present: value,
+        future: [],
+        mergeKey: mergeKey ?? null,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (h.past.length === 0) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: h.past[h.past.length - 1],
+        future: [h.present, ...h.future],
+        mergeKey: null,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (h.future.length === 0) return h;
+      return {
+        past: [...h.past, h.present],
+        present: h.future[0],
+        future: h.future.slice(1),
+        mergeKey: null,
+      };
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [], mergeKey: null });
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
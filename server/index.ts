@@ -0,0 +1,172 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync } from 'node:fs';
+import { AIError, AIErrorKind, AITask, TokenUsage, toAIError } from '../services/providers';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { buildTaskRequest } from '../services/taskPrompts';
+import { parseTaskInput } from './taskInput';
+import { createRateLimiter } from './rateLimit';
+import { serveStatic } from './staticFiles';
+
+/**
+ * Holds the Gemini API key so it never reaches the browser. The app posts each task's inputs to
+ * /api/ai/<task>; the server builds the app's prompt for that task from them and sends it to Gemini,
+ * or answers from the mock provider in stub mode. Clients can't send prompts or schemas of their own,
+ * and free text such as the author's instruction and the handout is length-limited (see taskInput.ts).
+ * It also serves the built app from dist/, so one process is enough in production.
+ */
+
+for (const file of ['.env.local', '.env']) {
+  if (existsSync(file)) process.loadEnvFile(file);
+}
+
+const PORT = Number(process.env.API_PORT) || 8787;
+const STUB = process.argv.includes('--stub') || process.env.AI_STUB === '1';
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 30;
+const MAX_BODY_BYTES = (Number(process.env.MAX_BODY_MB) || 20) * 1024 * 1024;
+const TRUST_PROXY = process.env.TRUST_PROXY === '1'; // Behind a reverse proxy, the client address comes from X-Forwarded-For
+const STATIC_DIR = 'dist';
+
+const TASKS: AITask[] = ['handout', 'stepRewrite', 'headerRewrite', 'handoutRewrite', 'translation', 'frameSelection', 'transcription'];
+
+// The app reads the error kind from the body; the status is for logs and for clients that only look at it
+const STATUS_FOR_KIND: Record<AIErrorKind, number> = {
+  quota: 429,
+  auth: 502,
+  safety: 422,
+  invalidOutput: 502,
+  payloadTooLarge: 413,
+  network: 502,
+  server: 502,
+  rejected: 400,
+  cancelled: 499,
+};
+
+if (!STUB && !process.env.GEMINI_API_KEY) {
+  console.error("GEMINI_API_KEY is not set. Add it to .env.local, or start the server with --stub to run without a model.");
+  process.exit(1);
+}
+
+const provider = STUB
+  ? createMockProvider({ provider: 'mock', model: 'stub', endpoint: '', apiKey: '' })
+  : createGeminiProvider({ provider: 'gemini', model: process.env.GEMINI_MODEL || 'gemini-2.5-flash', endpoint: '', apiKey: process.env.GEMINI_API_KEY || '' });
+
+const limiter = createRateLimiter(RATE_LIMIT_PER_MINUTE, 60 * 1000);
+
+// Rate limits are per address, not per user: everyone behind the same NAT or office proxy shares one allowance
+const clientAddress = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return (TRUST_PROXY && first) || req.socket.remoteAddress || 'unknown';
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: AIError) => {
+  const headers: Record<string, string> = {};
+  if (error.retryAfterMs !== undefined) headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000));
+  // The rest of an oversized upload isn't wanted; don't keep the connection for another request
+  if (error.kind === 'payloadTooLarge') headers.Connection = 'close';
+  sendJson(res, STATUS_FOR_KIND[error.kind], { error: { kind: error.kind, message: error.message } }, headers);
+};
+
+// An oversized body is read to the end and dropped rather than cut off, so the client gets the 413 instead of a reset connection
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+    req.on('data', (chunk: Buffer) => {
+      if (tooLarge) return;
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        tooLarge = true;
+        chunks.length = 0;
+        req.resume();
+        reject(new AIError('payloadTooLarge', `The request is larger than the server's limit of ${MAX_BODY_BYTES / 1024 / 1024} MB.`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (!tooLarge) resolve(Buffer.concat(chunks).toString('utf8'));
+    });
+    req.on('error', reject);
+  });
+
+const handleModelRequest = async (req: IncomingMessage, res: ServerResponse, task: AITask, client: string) => {
+  const limit = limiter.check(client);
+  if (!limit.allowed) {
+    throw new AIError('quota', `Too many requests from this address; the limit is ${RATE_LIMIT_PER_MINUTE} a minute.`, { retryAfterMs: limit.retryAfterMs });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch (err) {
+    if (err instanceof AIError) throw err;
+    throw new AIError('rejected', "The request body is not valid JSON.");
+  }
+  const request = buildTaskRequest(parseTaskInput(task, body));
+
+  // Stop paying for a reply nobody is waiting for
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  // Passed back so the app can keep its usage ledger
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let model = provider.model;
+  const data = await provider.generateJson<unknown>({
+    ...request,
+    signal: controller.signal,
+    onUsage: (reply) => {
+      usage.inputTokens += reply.inputTokens;
+      usage.outputTokens += reply.outputTokens;
+      model = reply.model || model;
+    },
+  });
+  sendJson(res, 200, { data, model, usage: { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens } });
+};
+
+const server = createServer(async (req, res) => {
+  const started = Date.now();
+  const client = clientAddress(req);
+  const url = new URL(req.url || '/', 'http://localhost');
+  let note = '';
+
+  // One line per request; prompts and images are never logged
+  res.on('close', () => {
+    const size = Number(req.headers['content-length']) || 0;
+    console.log(`${new Date().toISOString()} ${client} ${req.method} ${url.pathname} ${res.statusCode} ${Date.now() - started}ms ${(size / 1024).toFixed(0)}KB${note ? ` ${note}` : ''}`);
+  });
+
+  try {
+    const aiRoute = url.pathname.match(/^\/api\/ai\/([A-Za-z]+)$/);
+    if (aiRoute) {
+      const task = TASKS.find(t => t === aiRoute[1]);
+      if (req.method !== 'POST' || !task) throw new AIError('rejected', `Unknown endpoint ${req.method} ${url.pathname}`);
+      await handleModelRequest(req, res, task, client);
+    } else if (url.pathname === '/api/health') {
+      sendJson(res, 200, { ok: true, stub: STUB, model: provider.model });
+    } else if (url.pathname.startsWith('/api/')) {
+      throw new AIError('rejected', `Unknown endpoint ${req.method} ${url.pathname}`);
+    } else if (req.method !== 'GET' || !(await serveStatic(STATIC_DIR, url.pathname, res))) {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end("Not found. Run `npm run build` to serve the app from here, or use `npm run dev` during development.");
+    }
+  } catch (err) {
+    const error = toAIError(err);
+    note = `${error.kind}: ${error.message}`;
+    if (!res.headersSent) sendError(res, error);
+    else res.end();
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`API server listening on http://localhost:${PORT}${STUB ? ' (stub mode: canned answers, no network)' : ` with ${provider.model}`}`);
+});
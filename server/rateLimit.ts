@@ -0,0 +1,36 @@
+export interface RateLimiter {
+  // Records a request from `client` if it is allowed; otherwise says how long until the next one would be
+  check: (client: string) => { allowed: boolean; retryAfterMs: number };
+}
+
+const SWEEP_THRESHOLD = 10000; // Clients tracked before idle ones are forgotten
+
+/**
+ * Sliding-window limiter: each client may make at most `limit` requests in any `windowMs`.
+ * State is in memory, so limits reset when the server restarts.
+ */
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  const hits = new Map<string, number[]>();
+
+  const sweep = (now: number) => {
+    for (const [client, times] of hits) {
+      if (times.every(t => now - t >= windowMs)) hits.delete(client);
+    }
+  };
+
+  return {
+    check: (client) => {
+      const now = Date.now();
+      if (hits.size > SWEEP_THRESHOLD) sweep(now);
+
+      const recent = (hits.get(client) || []).filter(t => now - t < windowMs);
+      if (recent.length >= limit) {
+        hits.set(client, recent);
+        return { allowed: false, retryAfterMs: windowMs - (now - recent[0]) };
+      }
+      recent.push(now);
+      hits.set(client, recent);
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+};
@@ -0,0 +1,36 @@
+import { readFile, stat } from 'node:fs/promises';
+import { extname, join, resolve, sep } from 'node:path';
+import { ServerResponse } from 'node:http';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+  '.wasm': 'application/wasm',
+};
+
+const isFile = async (path: string) => (await stat(path).catch(() => null))?.isFile() ?? false;
+
+/**
+ * Serves the built app from `root`. Unknown paths get index.html, so a reload on any screen still
+ * opens the app. Returns false when there is no build to serve.
+ */
+export const serveStatic = async (root: string, urlPath: string, res: ServerResponse): Promise<boolean> => {
+  const base = resolve(root);
+  const index = join(base, 'index.html');
+  if (!(await isFile(index))) return false;
+
+  const requested = resolve(base, `.${decodeURIComponent(urlPath)}`);
+  // Anything resolving outside the build folder (e.g. "/../.env.local") falls back to the app
+  const path = requested.startsWith(base + sep) && (await isFile(requested)) ? requested : index;
+
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(path)] || 'application/octet-stream' });
+  res.end(await readFile(path));
+  return true;
+};
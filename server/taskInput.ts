@@ -0,0 +1,221 @@
+import { GenerationOptions, HandoutData, HandoutStep } from '../types';
+import { AIError, AITask } from '../services/providers';
+import { HandoutFrameInput, PromptImage, SectionContext, TaskInput } from '../services/taskPrompts';
+import { READING_LEVELS, TONES, VERBOSITY_LEVELS } from '../services/generationOptions';
+import { CALLOUT_TYPES, DIFFICULTY_LEVELS } from '../services/handoutContent';
+
+// Generous for real use, small enough that the endpoints can't be used to run arbitrary prompts at length
+const MAX_IMAGES = 100;
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const AUDIO_TYPES = ['audio/wav'];
+const MAX_AUDIO_SECONDS = 10 * 60;
+const MAX_LABEL_CHARS = 200; // Frame origins, audience, language, chapter titles
+const MAX_TEXT_CHARS = 2000; // Narration, the author's instruction, and handout titles and list entries
+const MAX_PARAGRAPH_CHARS = 5000; // Handout summaries, step descriptions, solutions and answers
+const MAX_ID_CHARS = 64;
+const MAX_STEPS = 200;
+const MAX_LIST_ENTRIES = 50; // Sections, sub-steps, callouts, prerequisites and the like
+const MAX_HANDOUT_CHARS = 200 * 1000; // The handout sent along for rewrites and translations, as JSON
+
+type Fields = Record<string, unknown>;
+
+const reject = (message: string): never => {
+  throw new AIError('rejected', `Invalid request: ${message}.`);
+};
+
+const object = (value: unknown, name: string): Fields =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Fields : reject(`${name} must be an object`);
+
+const list = (value: unknown, name: string, max: number): unknown[] => {
+  if (!Array.isArray(value)) return reject(`${name} must be a list`);
+  if (value.length > max) return reject(`${name} has more than ${max} entries`);
+  return value;
+};
+
+const text = (value: unknown, name: string, max: number): string => {
+  if (typeof value !== 'string') return reject(`${name} must be text`);
+  if (value.length > max) return reject(`${name} is longer than ${max} characters`);
+  return value;
+};
+
+const optionalText = (value: unknown, name: string, max: number): string | undefined =>
+  value === undefined || value === null ? undefined : text(value, name, max);
+
+const integer = (value: unknown, name: string, min: number, max: number): number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+    ? value as number
+    : reject(`${name} must be a whole number from ${min} to ${max}`);
+
+const oneOf = <T extends string>(value: unknown, name: string, allowed: readonly T[]): T =>
+  allowed.includes(value as T) ? value as T : reject(`${name} must be one of ${allowed.join(', ')}`);
+
+const image = (value: unknown, name: string): PromptImage => {
+  const fields = object(value, name);
+  return {
+    mimeType: oneOf(fields.mimeType, `${name}.mimeType`, IMAGE_TYPES),
+    data: text(fields.data, `${name}.data`, Infinity), // Bounded by the request size limit
+    width: typeof fields.width === 'number' ? fields.width : undefined,
+    height: typeof fields.height === 'number' ? fields.height : undefined,
+  };
+};
+
+const options = (value: unknown): GenerationOptions => {
+  const fields = object(value, 'options');
+  const flag = (key: keyof GenerationOptions) => fields[key] === true;
+  return {
+    audience: text(fields.audience, 'options.audience', MAX_LABEL_CHARS),
+    readingLevel: oneOf(fields.readingLevel, 'options.readingLevel', READING_LEVELS.map(l => l.id)),
+    tone: oneOf(fields.tone, 'options.tone', TONES.map(t => t.id)),
+    language: text(fields.language, 'options.language', MAX_LABEL_CHARS),
+    verbosity: oneOf(fields.verbosity, 'options.verbosity', VERBOSITY_LEVELS.map(v => v.id)),
+    includeTips: flag('includeTips'),
+    includeWarnings: flag('includeWarnings'),
+    includeSubSteps: flag('includeSubSteps'),
+    includePrerequisites: flag('includePrerequisites'),
+    includeMaterials: flag('includeMaterials'),
+    includeTroubleshooting: flag('includeTroubleshooting'),
+    includeFaq: flag('includeFaq'),
+  };
+};
+
+const optionalList = <T,>(value: unknown, name: string, item: (value: unknown, name: string) => T): T[] | undefined =>
+  value === undefined || value === null ? undefined : list(value, name, MAX_LIST_ENTRIES).map((entry, i) => item(entry, `${name}[${i}]`));
+
+const step = (value: unknown, name: string): HandoutStep => {
+  const fields = object(value, name);
+  return {
+    stepNumber: integer(fields.stepNumber, `${name}.stepNumber`, 1, MAX_STEPS),
+    title: text(fields.title, `${name}.title`, MAX_TEXT_CHARS),
+    description: text(fields.description, `${name}.description`, MAX_PARAGRAPH_CHARS),
+    subSteps: optionalList(fields.subSteps, `${name}.subSteps`, (entry, entryName) => text(entry, entryName, MAX_TEXT_CHARS)),
+    callouts: optionalList(fields.callouts, `${name}.callouts`, (entry, entryName) => {
+      const callout = object(entry, entryName);
+      return {
+        type: oneOf(callout.type, `${entryName}.type`, CALLOUT_TYPES.map(c => c.id)),
+        text: text(callout.text, `${entryName}.text`, MAX_TEXT_CHARS),
+      };
+    }),
+    frameIds: list(fields.frameIds, `${name}.frameIds`, MAX_IMAGES).map((id, i) => text(id, `${name}.frameIds[${i}]`, MAX_ID_CHARS)),
+    sectionId: optionalText(fields.sectionId, `${name}.sectionId`, MAX_ID_CHARS),
+  };
+};
+
+// The handout goes into the prompt as context, so it is rebuilt from its known fields, each with a length limit
+const handout = (value: unknown): HandoutData => {
+  const fields = object(value, 'handout');
+  if (JSON.stringify(fields).length > MAX_HANDOUT_CHARS) reject(`the handout is longer than ${MAX_HANDOUT_CHARS} characters`);
+  const entry = (max: number) => (item: unknown, name: string) => text(item, name, max);
+  return {
+    title: text(fields.title, 'handout.title', MAX_TEXT_CHARS),
+    summary: text(fields.summary, 'handout.summary', MAX_PARAGRAPH_CHARS),
+    estimatedTime: optionalText(fields.estimatedTime, 'handout.estimatedTime', MAX_LABEL_CHARS),
+    difficulty: fields.difficulty === undefined || fields.difficulty === null
+      ? undefined
+      : oneOf(fields.difficulty, 'handout.difficulty', DIFFICULTY_LEVELS.map(d => d.id)),
+    prerequisites: optionalList(fields.prerequisites, 'handout.prerequisites', entry(MAX_TEXT_CHARS)),
+    materials: optionalList(fields.materials, 'handout.materials', entry(MAX_TEXT_CHARS)),
+    sections: optionalList(fields.sections, 'handout.sections', (item, name) => {
+      const section = object(item, name);
+      return {
+        id: text(section.id, `${name}.id`, MAX_ID_CHARS),
+        title: text(section.title, `${name}.title`, MAX_TEXT_CHARS),
+        summary: text(section.summary, `${name}.summary`, MAX_TEXT_CHARS),
+      };
+    }),
+    steps: list(fields.steps, 'handout.steps', MAX_STEPS).map((item, i) => step(item, `handout.steps[${i}]`)),
+    troubleshooting: optionalList(fields.troubleshooting, 'handout.troubleshooting', (item, name) => {
+      const entryFields = object(item, name);
+      return {
+        problem: text(entryFields.problem, `${name}.problem`, MAX_TEXT_CHARS),
+        solution: text(entryFields.solution, `${name}.solution`, MAX_PARAGRAPH_CHARS),
+      };
+    }),
+    faq: optionalList(fields.faq, 'handout.faq', (item, name) => {
+      const entryFields = object(item, name);
+      return {
+        question: text(entryFields.question, `${name}.question`, MAX_TEXT_CHARS),
+        answer: text(entryFields.answer, `${name}.answer`, MAX_PARAGRAPH_CHARS),
+      };
+    }),
+  };
+};
+
+const frame = (value: unknown, i: number): HandoutFrameInput => {
+  const fields = object(value, `frames[${i}]`);
+  return {
+    id: text(fields.id, `frames[${i}].id`, MAX_ID_CHARS),
+    origin: text(fields.origin, `frames[${i}].origin`, MAX_LABEL_CHARS),
+    grouped: fields.grouped === true,
+    narration: optionalText(fields.narration, `frames[${i}].narration`, MAX_TEXT_CHARS),
+    image: image(fields.image, `frames[${i}].image`),
+  };
+};
+
+const section = (value: unknown): SectionContext | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const fields = object(value, 'section');
+  const count = integer(fields.count, 'section.count', 1, MAX_IMAGES);
+  return {
+    index: integer(fields.index, 'section.index', 0, count - 1),
+    count,
+    title: optionalText(fields.title, 'section.title', MAX_LABEL_CHARS),
+  };
+};
+
+/**
+ * Checks a request body from the app and returns the task's inputs, rebuilt from known fields only.
+ * The prompt is then built from these on the server, so clients can't send prompts, schemas or
+ * system instructions of their own.
+ */
+export const parseTaskInput = (task: AITask, body: unknown): TaskInput => {
+  const input = object(object(body, 'the body').input, 'input');
+  if (input.task !== task) reject(`the input is for "${String(input.task)}", not "${task}"`);
+
+  switch (task) {
+    case 'handout': {
+      const frames = list(input.frames, 'frames', MAX_IMAGES).map(frame);
+      if (frames.length === 0) reject('there are no frames');
+      return { task, frames, fromVideo: input.fromVideo === true, options: options(input.options), section: section(input.section) };
+    }
+    case 'stepRewrite': {
+      const data = handout(input.handout);
+      return {
+        task,
+        handout: data,
+        stepIndex: integer(input.stepIndex, 'stepIndex', 0, data.steps.length - 1),
+        screenshots: list(input.screenshots, 'screenshots', MAX_IMAGES).map((value, i) => {
+          const fields = object(value, `screenshots[${i}]`);
+          return { origin: text(fields.origin, `screenshots[${i}].origin`, MAX_LABEL_CHARS), image: image(fields.image, `screenshots[${i}].image`) };
+        }),
+        instruction: optionalText(input.instruction, 'instruction', MAX_TEXT_CHARS),
+        options: options(input.options),
+      };
+    }
+    case 'headerRewrite':
+      return { task, handout: handout(input.handout), instruction: optionalText(input.instruction, 'instruction', MAX_TEXT_CHARS), options: options(input.options) };
+    case 'handoutRewrite':
+      return { task, handout: handout(input.handout), instruction: text(input.instruction, 'instruction', MAX_TEXT_CHARS), options: options(input.options) };
+    case 'translation':
+      return { task, handout: handout(input.handout), language: text(input.language, 'language', MAX_LABEL_CHARS) };
+    case 'frameSelection': {
+      const images = list(input.images, 'images', MAX_IMAGES).map((value, i) => image(value, `images[${i}]`));
+      if (images.length === 0) reject('there are no images');
+      // Capped at the number of images rather than rejected; there can't be more picks than frames
+      const min = integer(input.min, 'min', 1, MAX_IMAGES);
+      const max = integer(input.max, 'max', min, MAX_IMAGES);
+      return { task, images, min: Math.min(min, images.length), max: Math.min(max, images.length), partOfLargerSet: input.partOfLargerSet === true };
+    }
+    case 'transcription': {
+      const audio = object(input.audio, 'audio');
+      const durationSeconds = input.durationSeconds;
+      if (typeof durationSeconds !== 'number' || !(durationSeconds > 0 && durationSeconds <= MAX_AUDIO_SECONDS)) {
+        reject(`durationSeconds must be a number of seconds up to ${MAX_AUDIO_SECONDS}`);
+      }
+      return {
+        task,
+        audio: { mimeType: oneOf(audio.mimeType, 'audio.mimeType', AUDIO_TYPES), data: text(audio.data, 'audio.data', Infinity) },
+        durationSeconds: durationSeconds as number,
+      };
+    }
+  }
+};
@@ -0,0 +1,192 @@
+import { Annotation, CapturedFrame, FrameAnnotations } from "../types";
+
+// Sizes scale with image width so annotations look the same on a 720p clip and a 4K screencast
+export const strokeWidthFor = (width: number) => Math.max(2, width * 0.004);
+export const calloutRadiusFor = (width: number) => Math.max(10, width * 0.018);
+
+export const loadImage = (dataUrl: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load frame image"));
+    img.src = dataUrl;
+  });
+
+export const hasAnnotations = (annotations?: FrameAnnotations): annotations is FrameAnnotations =>
+  !!annotations && (annotations.shapes.length > 0 || !!annotations.crop);
+
+const drawRedaction = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  shape: Extract<Annotation, { type: 'redact' }>
+) => {
+  const x = shape.x * width;
+  const y = shape.y * height;
+  const w = shape.width * width;
+  const h = shape.height * height;
+  if (w < 1 || h < 1) return;
+
+  if (shape.mode === 'blur') {
+    ctx.save();
+    ctx.filter = `blur(${Math.max(6, width * 0.012)}px)`;
+    // Without canvas filter support the assignment is ignored and the region would be redrawn sharp,
+    // so check it took effect; otherwise the region is pixelated instead
+    if ('filter' in CanvasRenderingContext2D.prototype && ctx.filter !== 'none') {
+      ctx.beginPath();
+      ctx.rect(x, y, w, h);
+      ctx.clip();
+      ctx.drawImage(source, 0, 0, width, height);
+      ctx.restore();
+      return;
+    }
+    ctx.restore();
+  }
+
+  // Pixelate by shrinking the region and scaling it back up without smoothing
+  const block = Math.max(6, width * 0.012);
+  const small = document.createElement('canvas');
+  small.width = Math.max(1, Math.round(w / block));
+  small.height = Math.max(1, Math.round(h / block));
+  // The base image is already on the canvas at full size, so sample from there
+  small.getContext('2d')?.drawImage(ctx.canvas, x, y, w, h, 0, 0, small.width, small.height);
+  ctx.save();
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(small, x, y, w, h);
+  ctx.restore();
+};
+
+const drawShape = (ctx: CanvasRenderingContext2D, width: number, height: number, shape: Annotation) => {
+  const lineWidth = strokeWidthFor(width);
+  ctx.save();
+  ctx.lineJoin = 'round';
+  ctx.lineCap = 'round';
+
+  switch (shape.type) {
+    case 'arrow': {
+      const x1 = shape.x1 * width, y1 = shape.y1 * height;
+      const x2 = shape.x2 * width, y2 = shape.y2 * height;
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const head = lineWidth * 4.5;
+      ctx.strokeStyle = shape.color;
+      ctx.fillStyle = shape.color;
+      ctx.lineWidth = lineWidth * 1.5;
+      ctx.beginPath();
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2 - Math.cos(angle) * head * 0.8, y2 - Math.sin(angle) * head * 0.8);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(x2, y2);
+      ctx.lineTo(x2 - head * Math.cos(angle - Math.PI / 7), y2 - head * Math.sin(angle - Math.PI / 7));
+      ctx.lineTo(x2 - head * Math.cos(angle + Math.PI / 7), y2 - head * Math.sin(angle + Math.PI / 7));
+      ctx.closePath();
+      ctx.fill();
+      break;
+    }
+    case 'rect':
+      ctx.strokeStyle = shape.color;
+      ctx.lineWidth = lineWidth * 1.25;
+      ctx.strokeRect(shape.x * width, shape.y * height, shape.width * width, shape.height * height);
+      break;
+    case 'callout': {
+      const r = calloutRadiusFor(width);
+      const cx = shape.x * width, cy = shape.y * height;
+      ctx.fillStyle = shape.color;
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = lineWidth;
+      ctx.beginPath();
+      ctx.arc(cx, cy, r, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      ctx.fillStyle = '#ffffff';
+      ctx.font = `bold ${Math.round(r * 1.1)}px Inter, sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(String(shape.number), cx, cy + r * 0.05);
+      break;
+    }
+    case 'text': {
+      const size = shape.fontSize * width;
+      ctx.font = `bold ${Math.round(size)}px Inter, sans-serif`;
+      ctx.textBaseline = 'top';
+      // White halo keeps labels readable on busy screenshots
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = size * 0.2;
+      ctx.strokeText(shape.text, shape.x * width, shape.y * height);
+      ctx.fillStyle = shape.color;
+      ctx.fillText(shape.text, shape.x * width, shape.y * height);
+      break;
+    }
+    case 'redact':
+      break;
+  }
+  ctx.restore();
+};
+
+/**
+ * Draws the source image with its annotations onto a canvas of exactly `width` x `height` (crop is not applied).
+ * Redactions go first so arrows and labels drawn over a blurred area stay sharp.
+ */
+export const drawAnnotatedImage = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  annotations: FrameAnnotations
+) => {
+  ctx.drawImage(source, 0, 0, width, height);
+  for (const shape of annotations.shapes) {
+    if (shape.type === 'redact') drawRedaction(ctx, source, width, height, shape);
+  }
+  for (const shape of annotations.shapes) {
+    if (shape.type !== 'redact') drawShape(ctx, width, height, shape);
+  }
+};
+
+const flattenCache = new WeakMap<FrameAnnotations, Promise<string>>();
+
+/**
+ * Bakes annotations and crop into a new image. Returns the original data URL when there is nothing to draw.
+ * Results are cached per annotations object, which is replaced on every edit.
+ */
+export const flattenFrame = (frame: CapturedFrame): Promise<string> => {
+  const annotations = frame.annotations;
+  if (!hasAnnotations(annotations)) return Promise.resolve(frame.dataUrl);
+
+  const cached = flattenCache.get(annotations);
+  if (cached) return cached;
+
+  const result = (async () => {
+    const img = await loadImage(frame.dataUrl);
+    const width = img.naturalWidth;
+    const height = img.naturalHeight;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return frame.dataUrl;
+    drawAnnotatedImage(ctx, img, width, height, annotations);
+
+    const crop = annotations.crop;
+    if (!crop) return canvas.toDataURL('image/jpeg', 0.9);
+
+    const cropped = document.createElement('canvas');
+    cropped.width = Math.max(1, Math.round(crop.width * width));
+    cropped.height = Math.max(1, Math.round(crop.height * height));
+    cropped.getContext('2d')?.drawImage(
+      canvas,
+      crop.x * width, crop.y * height, cropped.width, cropped.height,
+      0, 0, cropped.width, cropped.height
+    );
+    return cropped.toDataURL('image/jpeg', 0.9);
+  })();
+
+  flattenCache.set(annotations, result);
+  return result;
+};
+
+// Copies of the frames with annotations baked in, for export and model calls
+export const flattenFrames = async (frames: CapturedFrame[]): Promise<CapturedFrame[]> =>
+  Promise.all(frames.map(async frame => (hasAnnotations(frame.annotations) ? { ...frame, dataUrl: await flattenFrame(frame) } : frame)));
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { CapturedFrame, Chapter } from '../types';
+import { splitFramesByChapter } from './chapters';
+
+const frame = (id: string, videoId: string | undefined, timestamp: number, extra: Partial<CapturedFrame> = {}): CapturedFrame => ({
+  id,
+  dataUrl: '',
+  timestamp,
+  originalTimeFormatted: '',
+  videoId,
+  ...extra,
+});
+
+const chapter = (id: string, videoId: string, start: number): Chapter => ({ id, videoId, start, title: '' });
+
+const runs = (frames: CapturedFrame[], chapters: Chapter[]) =>
+  splitFramesByChapter(frames, chapters).map(run => [run.chapter?.id, run.frames.map(f => f.id)]);
+
+describe('splitFramesByChapter', () => {
+  const intro = chapter('intro', 'v1', 0);
+  const setup = chapter('setup', 'v1', 300);
+
+  it('splits the steps at chapter starts', () => {
+    const frames = [frame('a', 'v1', 10), frame('b', 'v1', 200), frame('c', 'v1', 320), frame('d', 'v1', 400)];
+    expect(runs(frames, [intro, setup])).toEqual([['intro', ['a', 'b']], ['setup', ['c', 'd']]]);
+  });
+
+  it('counts frames before the first chapter as part of it', () => {
+    expect(runs([frame('a', 'v1', 5)], [chapter('late', 'v1', 60)])).toEqual([['late', ['a']]]);
+  });
+
+  it('keeps a step together under the chapter of its first frame', () => {
+    const frames = [frame('a', 'v1', 290), frame('b', 'v1', 310, { groupWithPrevious: true })];
+    expect(runs(frames, [intro, setup])).toEqual([['intro', ['a', 'b']]]);
+  });
+
+  it('keeps imported images with the step before them', () => {
+    const frames = [frame('a', 'v1', 320), frame('img', undefined, 0, { source: 'image' }), frame('b', 'v1', 10)];
+    expect(runs(frames, [intro, setup])).toEqual([['setup', ['a', 'img']], ['intro', ['b']]]);
+  });
+
+  it('leaves clips without chapters in runs with no chapter', () => {
+    const frames = [frame('a', 'v1', 10), frame('b', 'v2', 10), frame('c', 'v2', 20)];
+    expect(runs(frames, [intro])).toEqual([['intro', ['a']], [undefined, ['b', 'c']]]);
+  });
+});
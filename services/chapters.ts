@@ -0,0 +1,78 @@
+import { CapturedFrame, Chapter, VideoClip } from "../types";
+import { groupFrames } from "./frameGroups";
+import { isVideoFrame } from "./imageImport";
+import { scanForSceneChanges } from "./sceneDetection";
+
+const MIN_CHAPTER_SECONDS = 120; // Detected chapters shorter than this are merged into their neighbours
+const MAX_DETECTED_CHAPTERS = 12;
+
+export const createChapter = (videoId: string, start: number, title = ''): Chapter => ({
+  id: Math.random().toString(36).substr(2, 9),
+  videoId,
+  start,
+  title,
+});
+
+// Playlist order, then time within each clip
+export const sortChapters = (chapters: Chapter[], videos: VideoClip[]): Chapter[] => {
+  const clipIndex = new Map(videos.map((v, i) => [v.id, i]));
+  return [...chapters].sort((a, b) => (clipIndex.get(a.videoId) ?? 0) - (clipIndex.get(b.videoId) ?? 0) || a.start - b.start);
+};
+
+// `chapters` in sortChapters order, so unnamed chapters are numbered as they appear
+export const chapterTitle = (chapter: Chapter, chapters: Chapter[]): string =>
+  chapter.title.trim() || `Chapter ${chapters.indexOf(chapter) + 1}`;
+
+// Frames before a clip's first chapter mark count as part of that first chapter
+export const chapterAt = (chapters: Chapter[], videoId: string | undefined, time: number): Chapter | undefined => {
+  const inClip = chapters.filter(c => c.videoId === videoId).sort((a, b) => a.start - b.start);
+  return [...inClip].reverse().find(c => c.start <= time) || inClip[0];
+};
+
+// Where a chapter stops: the next chapter in the same clip, or the end of the clip
+export const chapterEnd = (chapter: Chapter, chapters: Chapter[], duration: number): number =>
+  Math.min(duration, ...chapters.filter(c => c.videoId === chapter.videoId && c.start > chapter.start).map(c => c.start));
+
+/**
+ * Splits the sidebar into runs of consecutive steps from the same chapter, in sidebar order.
+ * A step belongs to the chapter of its first video frame; imported images stay with the step before them.
+ * Steps from clips without chapters form runs with no chapter.
+ */
+export const splitFramesByChapter = (frames: CapturedFrame[], chapters: Chapter[]): { chapter?: Chapter; frames: CapturedFrame[] }[] => {
+  const runs: { chapter?: Chapter; frames: CapturedFrame[] }[] = [];
+  for (const group of groupFrames(frames)) {
+    const last = runs[runs.length - 1];
+    const videoFrame = group.find(isVideoFrame);
+    const chapter = videoFrame ? chapterAt(chapters, videoFrame.videoId, videoFrame.timestamp) : last?.chapter;
+    if (last && last.chapter === chapter) last.frames.push(...group);
+    else runs.push({ chapter, frames: [...group] });
+  }
+  return runs;
+};
+
+/**
+ * Proposes chapter starts for one clip: the strongest scene changes, kept at least a couple of minutes
+ * apart. Returns nothing for clips too short to need chapters.
+ */
+export const detectChapters = async (
+  video: HTMLVideoElement,
+  clip: VideoClip,
+  onProgress?: (fraction: number) => void
+): Promise<Chapter[]> => {
+  const duration = video.duration;
+  const minLength = Math.max(MIN_CHAPTER_SECONDS, duration / MAX_DETECTED_CHAPTERS);
+  if (duration < 2 * minLength) return [];
+
+  const changes = await scanForSceneChanges(video, { sensitivity: 1, maxCandidates: 200, file: clip.file, onProgress });
+  const starts = [0];
+  for (const change of [...changes].sort((a, b) => b.score - a.score)) {
+    if (starts.length >= MAX_DETECTED_CHAPTERS) break;
+    const fitsBetween = change.timestamp >= minLength && duration - change.timestamp >= minLength;
+    if (fitsBetween && starts.every(start => Math.abs(start - change.timestamp) >= minLength)) {
+      starts.push(change.timestamp);
+    }
+  }
+  if (starts.length < 2) return [];
+
+  return starts.sort((a, b) => a - b).map(start => createChapter(clip.id, start));
+};
@@ -0,0 +1,64 @@
+import { CapturedFrame, HandoutData, HandoutStep } from "../../types";
+
+export interface ResolvedStep extends HandoutStep {
+  images: CapturedFrame[];
+}
+
+// Resolve each step's frame references to the captured images, skipping any that were deleted
+export const resolveStepImages = (data: HandoutData, frames: CapturedFrame[]): ResolvedStep[] => {
+  const framesById = new Map(frames.map(f => [f.id, f]));
+  return data.steps.map(step => ({
+    ...step,
+    images: step.frameIds
+      .map(id => framesById.get(id))
+      .filter((f): f is CapturedFrame => f !== undefined),
+  }));
+};
+
+export const dataUrlToBytes = (dataUrl: string): { bytes: Uint8Array; mimeType: string } => {
+  const [header, base64] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'image/jpeg';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { bytes, mimeType };
+};
+
+export const extensionForMimeType = (mimeType: string): string =>
+  mimeType === 'image/png' ? 'png' : mimeType === 'image/webp' ? 'webp' : 'jpeg';
+
+export const getImageSize = (dataUrl: string): Promise<{ width: number; height: number }> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error("Could not read image dimensions"));
+    img.src = dataUrl;
+  });
+};
+
+export const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const slugify = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'handout';
+
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,376 @@
+import { CapturedFrame, HandoutData, HandoutTheme } from "../../types";
+import { BUILT_IN_THEMES, calloutShades, fillThemeText, fontDocx, PAGE_SIZES } from "../themeService";
+import { CALLOUT_TYPES, calloutLabel, handoutMeta, sectionRuns } from "../handoutContent";
+import { dataUrlToBytes, escapeXml, extensionForMimeType, getImageSize, resolveStepImages, ResolvedStep } from "./common";
+import { createZip, ZipEntry } from "./zip";
+
+// 20mm margins, matching the on-screen page. Word measures in twips (1/20 pt) and images in EMUs.
+const MARGIN = 1134;
+const BADGE_COLUMN = 900;
+const CARD_PADDING = 160;
+const EMU_PER_TWIP = 635;
+const EMU_PER_PX = 9525;
+const MAX_IMAGE_HEIGHT_PX = 300;
+const MAX_MULTI_IMAGE_HEIGHT_PX = 220;
+const MAX_LOGO_HEIGHT_PX = 48;
+
+const mmToTwips = (mm: number) => Math.round((mm / 25.4) * 1440);
+const hex = (color: string) => color.replace('#', '').toUpperCase();
+
+const NS = {
+  w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  pic: 'http://schemas.openxmlformats.org/drawingml/2006/picture',
+};
+
+interface RunOptions {
+  bold?: boolean;
+  italic?: boolean;
+  color?: string;
+  size?: number; // Half-points
+  shading?: string;
+}
+
+const run = (text: string, opts: RunOptions = {}): string => {
+  const props = [
+    opts.bold ? '<w:b/>' : '',
+    opts.italic ? '<w:i/>' : '',
+    opts.color ? `<w:color w:val="${opts.color}"/>` : '',
+    opts.size ? `<w:sz w:val="${opts.size}"/><w:szCs w:val="${opts.size}"/>` : '',
+    opts.shading ? `<w:shd w:val="clear" w:color="auto" w:fill="${opts.shading}"/>` : '',
+  ].join('');
+  // Preserve line breaks the author typed into descriptions
+  const body = text
+    .split('\n')
+    .map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join('<w:br/>');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${body}</w:r>`;
+};
+
+const paragraph = (content: string, props = ''): string => `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+
+interface EmbeddedImage {
+  relId: string;
+  path: string;
+  bytes: Uint8Array;
+  widthEmu: number;
+  heightEmu: number;
+}
+
+const drawing = (image: EmbeddedImage, id: number): string => `
+<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="114300">
+  <wp:extent cx="${image.widthEmu}" cy="${image.heightEmu}"/>
+  <wp:docPr id="${id}" name="Picture ${id}"/>
+  <wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>
+  <a:graphic><a:graphicData uri="${NS.pic}"><pic:pic>
+    <pic:nvPicPr><pic:cNvPr id="${id}" name="${image.path}"/><pic:cNvPicPr/></pic:nvPicPr>
+    <pic:blipFill><a:blip r:embed="${image.relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>
+    <pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${image.widthEmu}" cy="${image.heightEmu}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>
+  </pic:pic></a:graphicData></a:graphic>
+</wp:inline></w:drawing></w:r>`;
+
+const fitImage = async (dataUrl: string, maxHeightPx: number, maxWidthEmu: number) => {
+  const { width, height } = await getImageSize(dataUrl);
+  let heightEmu = Math.min(height, maxHeightPx) * EMU_PER_PX;
+  let widthEmu = (heightEmu * width) / height;
+  if (widthEmu > maxWidthEmu) {
+    heightEmu = (heightEmu * maxWidthEmu) / widthEmu;
+    widthEmu = maxWidthEmu;
+  }
+  return { widthEmu: Math.round(widthEmu), heightEmu: Math.round(heightEmu) };
+};
+
+// Word has no logical start/end sides in the transitional schema, so right-to-left documents swap them
+const stylesXml = (theme: HandoutTheme, rtl: boolean): string => {
+  const start = rtl ? 'right' : 'left';
+  const body = fontDocx(theme.bodyFont);
+  const heading = fontDocx(theme.headingFont);
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${NS.w}">
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="${body}" w:hAnsi="${body}" w:cs="${body}"/><w:color w:val="334155"/><w:sz w:val="22"/>${rtl ? '<w:rtl/>' : ''}</w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr>${rtl ? '<w:bidi/>' : ''}<w:spacing w:after="120" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:spacing w:after="240"/></w:pPr>
+    <w:rPr><w:rFonts w:ascii="${heading}" w:hAnsi="${heading}" w:cs="${heading}"/><w:b/><w:color w:val="0F172A"/><w:sz w:val="60"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:keepNext/><w:spacing w:before="0" w:after="120"/><w:outlineLvl w:val="2"/></w:pPr>
+    <w:rPr><w:rFonts w:ascii="${heading}" w:hAnsi="${heading}" w:cs="${heading}"/><w:b/><w:color w:val="1E293B"/><w:sz w:val="30"/></w:rPr>
+  </w:style>
+${CALLOUT_TYPES.map(({ id, label }) => {
+    const shades = calloutShades(theme, id);
+    return `  <w:style w:type="paragraph" w:styleId="${label}"><w:name w:val="${label}"/><w:basedOn w:val="Normal"/>
+    <w:pPr>
+      <w:pBdr><w:${start} w:val="single" w:sz="24" w:space="8" w:color="${hex(shades.border)}"/></w:pBdr>
+      <w:shd w:val="clear" w:color="auto" w:fill="${hex(shades.background)}"/>
+      <w:spacing w:before="60" w:after="120"/><w:ind w:${start}="200"/>
+    </w:pPr>
+    <w:rPr><w:color w:val="${hex(shades.text)}"/><w:sz w:val="20"/></w:rPr>
+  </w:style>`;
+  }).join('\n')}
+  <w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:keepNext/><w:spacing w:before="480" w:after="200"/><w:outlineLvl w:val="1"/></w:pPr>
+    <w:rPr><w:rFonts w:ascii="${heading}" w:hAnsi="${heading}" w:cs="${heading}"/><w:b/><w:color w:val="1E293B"/><w:sz w:val="36"/></w:rPr>
+  </w:style>
+</w:styles>`;
+};
+
+const NO_BORDERS = '<w:top w:val="nil"/><w:left w:val="nil"/><w:bottom w:val="nil"/><w:right w:val="nil"/><w:insideH w:val="nil"/><w:insideV w:val="nil"/>';
+
+const table = (columns: number[], rows: string[][], borders = NO_BORDERS, padding = 0, rtl = false): string => `
+<w:tbl>
+  <w:tblPr>${rtl ? '<w:bidiVisual/>' : ''}<w:tblW w:w="${columns.reduce((a, b) => a + b, 0)}" w:type="dxa"/>
+    <w:tblBorders>${borders}</w:tblBorders><w:tblLayout w:type="fixed"/>
+    ${padding ? `<w:tblCellMar><w:top w:w="${padding}" w:type="dxa"/><w:left w:w="${padding}" w:type="dxa"/><w:bottom w:w="${padding}" w:type="dxa"/><w:right w:w="${padding}" w:type="dxa"/></w:tblCellMar>` : ''}
+  </w:tblPr>
+  <w:tblGrid>${columns.map(w => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>
+  ${rows.map(cells => `<w:tr><w:trPr><w:cantSplit/></w:trPr>
+    ${cells.map((cell, i) => `<w:tc><w:tcPr><w:tcW w:w="${columns[i]}" w:type="dxa"/></w:tcPr>${cell || paragraph('')}</w:tc>`).join('')}
+  </w:tr>`).join('')}
+</w:tbl>`;
+
+/**
+ * Builds a .docx with the same layout as the preview: title with an accent rule, italic summary,
+ * and the steps laid out per the theme with numbered badges, embedded images and shaded callout boxes.
+ * The theme's logo and header text go in the page header, its footer text in the page footer.
+ */
+export const exportDocx = async (
+  data: HandoutData,
+  frames: CapturedFrame[],
+  theme: HandoutTheme = BUILT_IN_THEMES[0],
+  rtl = false
+): Promise<Blob> => {
+  const pageWidth = mmToTwips(PAGE_SIZES[theme.pageSize].width);
+  const pageHeight = mmToTwips(PAGE_SIZES[theme.pageSize].height);
+  const textWidth = pageWidth - 2 * MARGIN;
+  const cards = theme.layout === 'grid' || theme.layout === 'compact';
+  const compact = theme.layout === 'compact';
+  const badgeColor = hex(theme.badgeColor);
+
+  const images: EmbeddedImage[] = [];
+  const headerImages: EmbeddedImage[] = [];
+  const body: string[] = [];
+
+  // Header images need their own relationships part, so they're collected separately
+  const embed = async (dataUrl: string, maxHeightPx: number, maxWidthTwips: number, target = images, relPrefix = 'rIdImg'): Promise<EmbeddedImage> => {
+    const { bytes, mimeType } = dataUrlToBytes(dataUrl);
+    const size = await fitImage(dataUrl, maxHeightPx, maxWidthTwips * EMU_PER_TWIP);
+    const index = images.length + headerImages.length + 1;
+    const image: EmbeddedImage = {
+      relId: `${relPrefix}${index}`,
+      path: `media/image${index}.${extensionForMimeType(mimeType)}`,
+      bytes,
+      ...size,
+    };
+    target.push(image);
+    return image;
+  };
+
+  const imageParagraph = async (step: ResolvedStep, width: number, maxHeightPx: number, maxMultiHeightPx: number) => {
+    if (step.images.length === 0) return '';
+    const multi = step.images.length > 1;
+    const runs: string[] = [];
+    for (const frame of step.images) {
+      const image = await embed(frame.dataUrl, multi ? maxMultiHeightPx : maxHeightPx, multi ? width / 2 - 200 : width);
+      runs.push(drawing(image, images.length));
+    }
+    return paragraph(runs.join(''), `<w:spacing w:after="${compact ? 120 : 200}"/>`);
+  };
+
+  // Badge as a shaded run, for layouts where the number sits inline with the title
+  const inlineHeading = (step: ResolvedStep) => {
+    const size = compact ? 24 : undefined;
+    return paragraph(
+      run(` ${step.stepNumber} `, { bold: true, color: 'FFFFFF', shading: badgeColor, size }) + run('  ', { size }) + run(step.title, { size }),
+      '<w:pStyle w:val="Heading3"/>'
+    );
+  };
+
+  const textParagraphs = (step: ResolvedStep) => {
+    const size = compact ? 20 : undefined;
+    const calloutSize = compact ? 18 : undefined;
+    const content = [paragraph(run(step.description, { size }))];
+    (step.subSteps || []).forEach((sub, i) => {
+      content.push(paragraph(run(`${String.fromCharCode(97 + (i % 26))}.  ${sub}`, { size }), `<w:spacing w:after="60"/><w:ind w:${rtl ? 'right' : 'left'}="360" w:hanging="280"/>`));
+    });
+    for (const callout of step.callouts || []) {
+      const label = calloutLabel(callout.type);
+      content.push(paragraph(run(`${label}: `, { bold: true, size: calloutSize }) + run(callout.text, { size: calloutSize }), `<w:pStyle w:val="${label}"/>`));
+    }
+    return content.join('');
+  };
+
+  body.push(paragraph(run(data.title), `<w:pStyle w:val="Title"/><w:pBdr><w:bottom w:val="single" w:sz="24" w:space="12" w:color="${hex(theme.primaryColor)}"/></w:pBdr>`));
+  const headerSpacing = `<w:spacing w:after="${compact ? 320 : 480}"/>`;
+  const meta = handoutMeta(data);
+  body.push(paragraph(run(data.summary, { italic: true, color: '475569', size: compact ? 24 : 28 }), meta.length > 0 ? '' : headerSpacing));
+  if (meta.length > 0) {
+    body.push(paragraph(meta.map(m => run(`${m.label}: `, { bold: true, color: '475569', size: 20 }) + run(`${m.value}    `, { color: '475569', size: 20 })).join(''), headerSpacing));
+  }
+
+  const list = (heading: string, items?: string[]) => {
+    const kept = (items || []).filter(item => item.trim());
+    if (kept.length === 0) return;
+    body.push(paragraph(run(heading, { bold: true, color: '475569', size: 20 }), '<w:keepNext/>'));
+    for (const item of kept) {
+      body.push(paragraph(run(`•  ${item}`), `<w:spacing w:after="60"/><w:ind w:${rtl ? 'right' : 'left'}="360" w:hanging="240"/>`));
+    }
+    body.push(paragraph('', '<w:spacing w:after="240"/>'));
+  };
+  list('Before you start', data.prerequisites);
+  list('You will need', data.materials);
+
+  const renderSteps = async (steps: ResolvedStep[]) => {
+    if (cards) {
+      const column = Math.floor(textWidth / 2);
+      const cells: string[] = [];
+      for (const step of steps) {
+        cells.push(inlineHeading(step) + await imageParagraph(step, column - 2 * CARD_PADDING, compact ? 110 : 200, compact ? 110 : 140) + textParagraphs(step));
+      }
+      const rows: string[][] = [];
+      for (let i = 0; i < cells.length; i += 2) {
+        rows.push([cells[i], cells[i + 1] || '']);
+      }
+      const cardBorders = '<w:top w:val="single" w:sz="4" w:color="E2E8F0"/><w:left w:val="single" w:sz="4" w:color="E2E8F0"/><w:bottom w:val="single" w:sz="4" w:color="E2E8F0"/><w:right w:val="single" w:sz="4" w:color="E2E8F0"/><w:insideH w:val="single" w:sz="4" w:color="E2E8F0"/><w:insideV w:val="single" w:sz="4" w:color="E2E8F0"/>';
+      body.push(table([column, column], rows, cardBorders, CARD_PADDING, rtl));
+    } else {
+      for (const step of steps) {
+        if (theme.layout === 'imageLeft') {
+          const mediaColumn = Math.floor(textWidth * 0.45);
+          const media = await imageParagraph(step, mediaColumn - 200, 260, 180);
+          body.push(table([mediaColumn, textWidth - mediaColumn], [[media, inlineHeading(step) + textParagraphs(step)]], NO_BORDERS, 0, rtl));
+        } else {
+          const contentColumn = textWidth - BADGE_COLUMN;
+          const content = paragraph(run(step.title), '<w:pStyle w:val="Heading3"/>')
+            + await imageParagraph(step, contentColumn, MAX_IMAGE_HEIGHT_PX, MAX_MULTI_IMAGE_HEIGHT_PX)
+            + textParagraphs(step);
+          const badge = paragraph(run(String(step.stepNumber), { bold: true, color: 'FFFFFF', size: 28 }), `<w:shd w:val="clear" w:color="auto" w:fill="${badgeColor}"/><w:ind w:${rtl ? 'left' : 'right'}="240"/><w:jc w:val="center"/>`);
+          body.push(table([BADGE_COLUMN, contentColumn], [[badge, content]], NO_BORDERS, 0, rtl));
+        }
+        body.push(paragraph('', '<w:spacing w:after="240"/>'));
+      }
+    }
+  };
+
+  // Sections get a bookmarked heading and summary; the contents list links to the bookmarks
+  const runs = sectionRuns(data, resolveStepImages(data, frames));
+  if (runs.some(r => r.section)) {
+    body.push(paragraph(run('Contents', { bold: true, color: '475569', size: 20 }), '<w:keepNext/>'));
+    runs.forEach((r, i) => {
+      if (!r.section) return;
+      const label = `${i + 1}.  ${r.section.title}`;
+      body.push(paragraph(`<w:hyperlink w:anchor="section_${i + 1}">${run(label, { color: hex(theme.primaryColor) })}</w:hyperlink>`, `<w:spacing w:after="60"/><w:ind w:${rtl ? 'right' : 'left'}="360"/>`));
+    });
+    body.push(paragraph('', '<w:spacing w:after="240"/>'));
+  }
+  for (const [i, r] of runs.entries()) {
+    if (r.section) {
+      body.push(paragraph(run(`Section ${i + 1}`, { bold: true, color: hex(theme.primaryColor), size: 18 }), '<w:keepNext/><w:spacing w:before="240" w:after="0"/>'));
+      body.push(paragraph(
+        `<w:bookmarkStart w:id="${i + 1}" w:name="section_${i + 1}"/>${run(r.section.title)}<w:bookmarkEnd w:id="${i + 1}"/>`,
+        `<w:pStyle w:val="Heading2"/>${r.section.summary ? '<w:keepNext/>' : ''}<w:pBdr><w:bottom w:val="single" w:sz="12" w:space="4" w:color="${hex(theme.primaryColor)}"/></w:pBdr>`
+      ));
+      if (r.section.summary) body.push(paragraph(run(r.section.summary, { italic: true, color: '475569' }), '<w:spacing w:after="240"/>'));
+    }
+    await renderSteps(r.steps.map(({ step }) => step));
+  }
+
+  const closing = (heading: string, items: { title: string; body: string }[]) => {
+    if (items.length === 0) return;
+    body.push(paragraph(run(heading), `<w:pStyle w:val="Heading2"/><w:pBdr><w:bottom w:val="single" w:sz="12" w:space="4" w:color="${hex(theme.primaryColor)}"/></w:pBdr>`));
+    for (const item of items) {
+      body.push(paragraph(run(item.title, { bold: true, color: '1E293B' }), '<w:keepNext/><w:spacing w:after="60"/>'));
+      body.push(paragraph(run(item.body), '<w:spacing w:after="200"/>'));
+    }
+  };
+  closing('Troubleshooting', (data.troubleshooting || []).map(item => ({ title: item.problem, body: item.solution })));
+  closing('Frequently asked questions', (data.faq || []).map(item => ({ title: item.question, body: item.answer })));
+
+  // Header and footer parts repeat on every page
+  const headerText = fillThemeText(theme.headerText, data.title);
+  let headerXml: string | null = null;
+  if (theme.logo || headerText) {
+    let logoRun = '';
+    if (theme.logo) {
+      const logo = await embed(theme.logo, MAX_LOGO_HEIGHT_PX, textWidth / 2, headerImages, 'rIdLogo');
+      logoRun = drawing(logo, images.length + 1);
+    }
+    headerXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:hdr xmlns:w="${NS.w}" xmlns:r="${NS.r}" xmlns:wp="${NS.wp}" xmlns:a="${NS.a}" xmlns:pic="${NS.pic}">
+  ${paragraph(logoRun + `<w:r><w:tab/></w:r>` + run(headerText, { color: '64748B', size: 20 }), `<w:tabs><w:tab w:val="right" w:pos="${textWidth}"/></w:tabs>`)}
+</w:hdr>`;
+  }
+
+  const footerXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:ftr xmlns:w="${NS.w}">
+  ${paragraph(
+    run(fillThemeText(theme.footerText, data.title), { color: '94A3B8', size: 20 }) + `<w:r><w:tab/></w:r>` + run(new Date().toLocaleDateString(), { color: '94A3B8', size: 20 }),
+    `<w:pBdr><w:top w:val="single" w:sz="4" w:space="12" w:color="E2E8F0"/></w:pBdr><w:tabs><w:tab w:val="right" w:pos="${textWidth}"/></w:tabs>`
+  )}
+</w:ftr>`;
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${NS.w}" xmlns:r="${NS.r}" xmlns:wp="${NS.wp}" xmlns:a="${NS.a}" xmlns:pic="${NS.pic}">
+  <w:body>
+    ${body.join('\n')}
+    <w:sectPr>
+      ${headerXml ? '<w:headerReference w:type="default" r:id="rIdHeader"/>' : ''}
+      <w:footerReference w:type="default" r:id="rIdFooter"/>
+      <w:pgSz w:w="${pageWidth}" w:h="${pageHeight}"/>
+      <w:pgMar w:top="${MARGIN}" w:right="${MARGIN}" w:bottom="${MARGIN}" w:left="${MARGIN}" w:header="708" w:footer="708" w:gutter="0"/>
+    </w:sectPr>
+  </w:body>
+</w:document>`;
+
+  const relsXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+  <Relationship Id="rIdFooter" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>
+  ${headerXml ? '<Relationship Id="rIdHeader" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>' : ''}
+  ${images.map(img => `<Relationship Id="${img.relId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="${img.path}"/>`).join('\n  ')}
+</Relationships>`;
+
+  const contentTypesXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Default Extension="jpeg" ContentType="image/jpeg"/>
+  <Default Extension="png" ContentType="image/png"/>
+  <Default Extension="webp" ContentType="image/webp"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>
+  ${headerXml ? '<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>' : ''}
+</Types>`;
+
+  const headerRelsXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  ${headerImages.map(img => `<Relationship Id="${img.relId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="${img.path}"/>`).join('\n  ')}
+</Relationships>`;
+
+  const packageRelsXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+  const entries: ZipEntry[] = [
+    { path: '[Content_Types].xml', data: contentTypesXml },
+    { path: '_rels/.rels', data: packageRelsXml },
+    { path: 'word/document.xml', data: documentXml },
+    { path: 'word/styles.xml', data: stylesXml(theme, rtl) },
+    { path: 'word/footer1.xml', data: footerXml },
+    { path: 'word/_rels/document.xml.rels', data: relsXml },
+    ...[...images, ...headerImages].map(img => ({ path: `word/${img.path}`, data: img.bytes })),
+  ];
+  if (headerXml) {
+    entries.push({ path: 'word/header1.xml', data: headerXml }, { path: 'word/_rels/header1.xml.rels', data: headerRelsXml });
+  }
+
+  const zip = createZip(entries);
+  return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+};
@@ -0,0 +1,208 @@
+import { CapturedFrame, HandoutData, HandoutTheme } from "../../types";
+import { BUILT_IN_THEMES, calloutShades, fillThemeText, fontCss, PAGE_SIZES } from "../themeService";
+import { CALLOUT_TYPES, calloutLabel, handoutMeta, sectionRuns } from "../handoutContent";
+import { escapeXml, resolveStepImages, ResolvedStep } from "./common";
+
+// Mirrors the Tailwind classes used by HandoutDisplay so the file looks like the on-screen page
+const themeStyles = (theme: HandoutTheme): string => {
+  const page = PAGE_SIZES[theme.pageSize];
+  const compact = theme.layout === 'compact';
+  return `
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #e2e8f0; font-family: ${fontCss(theme.bodyFont)}; color: #1e293b; }
+  .page { max-width: ${page.width}mm; min-height: ${page.height}mm; margin: 32px auto; padding: 20mm; background: #fff; box-shadow: 0 25px 50px -12px rgba(0,0,0,.25); }
+  .brand { display: flex; align-items: center; justify-content: space-between; gap: 16px; margin-bottom: 24px; font-size: 14px; color: #64748b; }
+  .brand img { max-height: 48px; max-width: 50%; }
+  header { border-bottom: 4px solid ${theme.primaryColor}; padding-bottom: ${compact ? 16 : 24}px; margin-bottom: ${compact ? 24 : 32}px; }
+  h1, h2, h3, h4 { font-family: ${fontCss(theme.headingFont)}; }
+  h1 { font-size: ${compact ? 30 : 36}px; font-weight: 800; color: #0f172a; margin: 0 0 ${compact ? 8 : 16}px; line-height: 1.1; }
+  .summary { font-size: ${compact ? 16 : 18}px; color: #475569; line-height: 1.625; font-style: italic; margin: 0; }
+  .meta { display: flex; flex-wrap: wrap; gap: 8px; margin-top: 12px; font-size: 14px; }
+  .meta span { background: #f1f5f9; color: #475569; border-radius: 9999px; padding: 2px 12px; }
+  .step { display: flex; gap: 24px; margin-bottom: 32px; align-items: flex-start; break-inside: avoid; }
+  .badge { flex-shrink: 0; width: 40px; height: 40px; border-radius: 9999px; background: ${theme.badgeColor}; color: #fff; display: flex; align-items: center; justify-content: center; font-weight: 700; font-size: 20px; }
+  .body { flex: 1; min-width: 0; }
+  h3 { font-size: 20px; font-weight: 700; margin: 0 0 8px; color: #1e293b; }
+  .heading { display: flex; align-items: center; gap: 12px; margin-bottom: 8px; }
+  .heading h3 { margin: 0; }
+  .images { display: flex; flex-wrap: wrap; gap: 12px; margin-bottom: 16px; }
+  .images img { max-height: 300px; max-width: 100%; border: 1px solid #e2e8f0; border-radius: 8px; background: #f8fafc; }
+  .images.multi img { max-height: 220px; }
+  .description { color: #334155; line-height: 1.625; margin: 0 0 12px; white-space: pre-wrap; }
+  .substeps { margin: 0 0 12px; padding-inline-start: 24px; color: #334155; line-height: 1.625; list-style-type: lower-alpha; }
+  .callout { border-inline-start: 4px solid; padding: 12px; border-start-end-radius: 4px; border-end-end-radius: 4px; font-size: 14px; margin-bottom: 8px; white-space: pre-wrap; }
+${CALLOUT_TYPES.map(({ id }) => {
+    const shades = calloutShades(theme, id);
+    return `  .callout-${id} { background: ${shades.background}; border-color: ${shades.border}; color: ${shades.text}; }`;
+  }).join('\n')}
+  .prerequisites { margin-bottom: 32px; padding: 16px; border: 1px solid #e2e8f0; border-radius: 8px; background: #f8fafc; font-size: 14px; }
+  .prerequisites h2 { font-size: 14px; text-transform: uppercase; letter-spacing: .025em; color: #475569; margin: 0 0 8px; }
+  .prerequisites ul { margin: 0; padding-inline-start: 20px; }
+  .prerequisites ul + h2 { margin-top: 16px; }
+  .toc { margin-bottom: 32px; break-inside: avoid; }
+  .toc h2 { font-size: 14px; text-transform: uppercase; letter-spacing: .025em; color: #475569; margin: 0 0 8px; }
+  .toc ol { margin: 0; padding-inline-start: 20px; color: #334155; line-height: 1.75; }
+  .toc a { color: inherit; text-decoration: none; }
+  .toc span { color: #94a3b8; font-size: 14px; }
+  .chapter + .chapter { margin-top: 48px; }
+  .section-head { margin-bottom: ${compact ? 16 : 24}px; padding-bottom: 8px; border-bottom: 2px solid ${theme.primaryColor}; break-after: avoid; }
+  .section-label { margin: 0; font-size: 12px; font-weight: 700; text-transform: uppercase; letter-spacing: .025em; color: ${theme.primaryColor}; }
+  .section-head h2 { font-size: ${compact ? 20 : 24}px; font-weight: 700; color: #0f172a; margin: 0; }
+  .section-summary { margin: 4px 0 0; color: #475569; line-height: 1.625; white-space: pre-wrap; }
+  .closing { margin-top: 48px; break-inside: avoid; }
+  .closing h2 { font-size: 24px; font-weight: 700; color: #1e293b; margin: 0 0 16px; padding-bottom: 8px; border-bottom: 2px solid ${theme.primaryColor}; }
+  .closing h4 { margin: 0 0 4px; font-size: 16px; color: #1e293b; }
+  .closing p { margin: 0 0 16px; color: #334155; line-height: 1.625; white-space: pre-wrap; }
+  .media { width: 45%; flex-shrink: 0; }
+  .media .images img { max-height: 260px; }
+  .media .images.multi img { max-height: 180px; }
+  .cards { display: grid; grid-template-columns: 1fr 1fr; gap: ${compact ? 12 : 24}px; }
+  .cards .step { display: block; margin: 0; border: 1px solid #e2e8f0; border-radius: 12px; padding: ${compact ? 12 : 16}px; }
+  .cards .heading { margin-bottom: 12px; }
+  .cards .images img { max-height: ${compact ? 110 : 200}px; }
+  .cards .images.multi img { max-height: ${compact ? 110 : 140}px; }
+  .compact .badge { width: 28px; height: 28px; font-size: 14px; }
+  .compact h3 { font-size: 16px; }
+  .compact .images { margin-bottom: 8px; }
+  .compact .description { font-size: 14px; margin-bottom: 8px; }
+  .compact .substeps { font-size: 14px; margin-bottom: 8px; }
+  .compact .callout { padding: 8px; font-size: 12px; }
+  footer { margin-top: 48px; padding-top: 24px; border-top: 1px solid #e2e8f0; color: #94a3b8; font-size: 14px; display: flex; justify-content: space-between; }
+  @page { size: ${page.css}; }
+  @media print {
+    body { background: #fff; }
+    .page { margin: 0; box-shadow: none; max-width: none; }
+    * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  }
+`;
+};
+
+/**
+ * Renders the handout as a single self-contained HTML document with images inlined as data URLs.
+ * Styles use logical (start/end) properties so right-to-left translations mirror correctly.
+ */
+export const renderHandoutHtml = (data: HandoutData, frames: CapturedFrame[], theme: HandoutTheme = BUILT_IN_THEMES[0], rtl = false): string => {
+  const cards = theme.layout === 'grid' || theme.layout === 'compact';
+  const renderStep = (step: ResolvedStep) => {
+    const images = step.images.length > 0
+      ? `<div class="images${step.images.length > 1 ? ' multi' : ''}">${step.images
+          .map((image, i) => `<img src="${image.dataUrl}" alt="Step ${step.stepNumber}${step.images.length > 1 ? ` (${i + 1})` : ''}">`)
+          .join('')}</div>`
+      : '';
+    const badge = `<div class="badge">${step.stepNumber}</div>`;
+    const heading = `<div class="heading">${badge}<h3>${escapeXml(step.title)}</h3></div>`;
+    const subSteps = step.subSteps && step.subSteps.length > 0
+      ? `<ol class="substeps">${step.subSteps.map(sub => `<li>${escapeXml(sub)}</li>`).join('')}</ol>`
+      : '';
+    const callouts = (step.callouts || [])
+      .map(c => `<div class="callout callout-${c.type}"><strong>${calloutLabel(c.type)}:</strong> ${escapeXml(c.text)}</div>`)
+      .join('');
+    const description = `<p class="description">${escapeXml(step.description)}</p>${subSteps}`;
+
+    if (cards) {
+      return `
+    <section class="step">
+      ${heading}
+      ${images}
+      ${description}
+      ${callouts}
+    </section>`;
+    }
+    if (theme.layout === 'imageLeft') {
+      return `
+    <section class="step">
+      <div class="media">${images}</div>
+      <div class="body">
+        ${heading}
+        ${description}
+        ${callouts}
+      </div>
+    </section>`;
+    }
+    return `
+    <section class="step">
+      ${badge}
+      <div class="body">
+        <h3>${escapeXml(step.title)}</h3>
+        ${images}
+        ${description}
+        ${callouts}
+      </div>
+    </section>`;
+  };
+
+  // Each section gets its own heading and, in card layouts, its own grid
+  const runs = sectionRuns(data, resolveStepImages(data, frames));
+  const stepsHtml = runs.map((run, i) => {
+    const steps = run.steps.map(({ step }) => renderStep(step)).join('\n');
+    const body = cards ? `<div class="cards">${steps}</div>` : steps;
+    if (!run.section) return body;
+    const summary = run.section.summary ? `<p class="section-summary">${escapeXml(run.section.summary)}</p>` : '';
+    return `
+    <section class="chapter" id="section-${i + 1}">
+      <div class="section-head"><p class="section-label">Section ${i + 1}</p><h2>${escapeXml(run.section.title)}</h2>${summary}</div>
+      ${body}
+    </section>`;
+  }).join('\n');
+  const tocHtml = runs.some(run => run.section)
+    ? `<nav class="toc"><h2>Contents</h2><ol>${runs
+        .map((run, i) => run.section ? `<li value="${i + 1}"><a href="#section-${i + 1}">${escapeXml(run.section.title)}</a> <span>· ${run.steps.length} ${run.steps.length === 1 ? 'step' : 'steps'}</span></li>` : '')
+        .join('')}</ol></nav>`
+    : '';
+
+  const list = (heading: string, items?: string[]) => {
+    const kept = (items || []).filter(item => item.trim());
+    return kept.length > 0 ? `<h2>${heading}</h2><ul>${kept.map(item => `<li>${escapeXml(item)}</li>`).join('')}</ul>` : '';
+  };
+  const beforeYouStart = list('Before you start', data.prerequisites) + list('You will need', data.materials);
+  const prerequisitesHtml = beforeYouStart ? `<section class="prerequisites">${beforeYouStart}</section>` : '';
+  const closing = (heading: string, items: { title: string; body: string }[]) => items.length > 0
+    ? `<section class="closing"><h2>${heading}</h2>${items
+        .map(item => `<h4>${escapeXml(item.title)}</h4><p>${escapeXml(item.body)}</p>`)
+        .join('')}</section>`
+    : '';
+  const troubleshootingHtml = closing('Troubleshooting', (data.troubleshooting || []).map(item => ({ title: item.problem, body: item.solution })));
+  const faqHtml = closing('Frequently asked questions', (data.faq || []).map(item => ({ title: item.question, body: item.answer })));
+  const meta = handoutMeta(data);
+  const metaHtml = meta.length > 0
+    ? `<div class="meta">${meta.map(m => `<span>${m.label}: ${escapeXml(m.value)}</span>`).join('')}</div>`
+    : '';
+
+  const headerText = fillThemeText(theme.headerText, data.title);
+  const brand = theme.logo || headerText
+    ? `<div class="brand">${theme.logo ? `<img src="${theme.logo}" alt="Logo">` : '<span></span>'}${headerText ? `<span>${escapeXml(headerText)}</span>` : ''}</div>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html dir="${rtl ? 'rtl' : 'ltr'}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeXml(data.title)}</title>
+  <style>${themeStyles(theme)}</style>
+</head>
+<body>
+  <main class="page${theme.layout === 'compact' ? ' compact' : ''}">
+    ${brand}
+    <header>
+      <h1>${escapeXml(data.title)}</h1>
+      <p class="summary">${escapeXml(data.summary)}</p>
+      ${metaHtml}
+    </header>
+    ${prerequisitesHtml}
+    ${tocHtml}
+    ${stepsHtml}
+    ${troubleshootingHtml}
+    ${faqHtml}
+    <footer>
+      <span>${escapeXml(fillThemeText(theme.footerText, data.title))}</span>
+      <span>${new Date().toLocaleDateString()}</span>
+    </footer>
+  </main>
+</body>
+</html>
+`;
+};
+
+export const exportHtml = (data: HandoutData, frames: CapturedFrame[], theme?: HandoutTheme, rtl = false): Blob =>
+  new Blob([renderHandoutHtml(data, frames, theme, rtl)], { type: 'text/html' });
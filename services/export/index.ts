@@ -0,0 +1,71 @@
+import { CapturedFrame, HandoutData, HandoutTheme } from "../../types";
+import { flattenFrames } from "../annotationRenderer";
+import { downloadBlob, slugify } from "./common";
+import { exportDocx } from "./docxExporter";
+import { exportHtml } from "./htmlExporter";
+import { exportMarkdownZip, markdownEntries } from "./markdownExporter";
+import { createZip, ZipEntry } from "./zip";
+
+export type ExportFormat = 'docx' | 'markdown' | 'html';
+
+export const EXPORT_OPTIONS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'docx', label: 'Word (.docx)', description: 'Editable document with embedded images' },
+  { format: 'markdown', label: 'Markdown (.zip)', description: 'handout.md plus an images folder' },
+  { format: 'html', label: 'Web page (.html)', description: 'Single self-contained file' },
+];
+
+// One language version of the handout
+export interface HandoutVariant {
+  language: string;
+  rtl: boolean;
+  original: boolean;
+  data: HandoutData;
+}
+
+const renderDocument = async (format: 'docx' | 'html', variant: HandoutVariant, frames: CapturedFrame[], theme?: HandoutTheme): Promise<Blob> =>
+  format === 'docx'
+    ? exportDocx(variant.data, frames, theme, variant.rtl)
+    : exportHtml(variant.data, frames, theme, variant.rtl);
+
+/**
+ * Downloads the handout in `format`. A single variant downloads as one file; several variants
+ * (all languages) download as one zip with a file or folder per language.
+ */
+export const exportHandout = async (
+  format: ExportFormat,
+  variants: HandoutVariant[],
+  capturedFrames: CapturedFrame[],
+  theme?: HandoutTheme
+): Promise<void> => {
+  const original = variants.find(v => v.original) || variants[0];
+  const name = slugify(original.data.title);
+  // Annotations live as vector data on the frames; exports get them burned into the pixels
+  const frames = await flattenFrames(capturedFrames);
+
+  if (variants.length === 1) {
+    const variant = variants[0];
+    const suffix = variant.original ? '' : `-${slugify(variant.language)}`;
+    if (format === 'markdown') {
+      downloadBlob(exportMarkdownZip(variant.data, frames, theme), `${name}${suffix}-markdown.zip`);
+    } else {
+      downloadBlob(await renderDocument(format, variant, frames, theme), `${name}${suffix}.${format}`);
+    }
+    return;
+  }
+
+  const entries: ZipEntry[] = [];
+  const usedNames = new Set<string>();
+  for (const variant of variants) {
+    // Non-Latin language names all slugify to the fallback, so keep them apart
+    let language = slugify(variant.language);
+    if (usedNames.has(language)) language = `${language}-${usedNames.size + 1}`;
+    usedNames.add(language);
+    if (format === 'markdown') {
+      entries.push(...markdownEntries(variant.data, frames, theme, `${language}/`));
+    } else {
+      const blob = await renderDocument(format, variant, frames, theme);
+      entries.push({ path: `${name}-${language}.${format}`, data: new Uint8Array(await blob.arrayBuffer()) });
+    }
+  }
+  downloadBlob(createZip(entries), `${name}-all-languages${format === 'markdown' ? '-markdown' : ''}.zip`);
+};
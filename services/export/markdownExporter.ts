@@ -0,0 +1,102 @@
+import { CapturedFrame, HandoutData, HandoutTheme } from "../../types";
+import { fillThemeText } from "../themeService";
+import { calloutLabel, handoutMeta, sectionRuns } from "../handoutContent";
+import { dataUrlToBytes, extensionForMimeType, resolveStepImages } from "./common";
+import { createZip, ZipEntry } from "./zip";
+
+// Stop model-written text from being read as inline Markdown formatting
+const escapeMarkdown = (text: string): string => text.replace(/([\\`*_[\]<>])/g, '\\$1');
+
+/**
+ * Builds `handout.md` plus an `images/` folder the Markdown links to relatively, all under `folder`.
+ * Markdown has no layout, so only the theme's logo and header/footer text carry over.
+ */
+export const markdownEntries = (data: HandoutData, frames: CapturedFrame[], theme?: HandoutTheme, folder = ''): ZipEntry[] => {
+  const entries: ZipEntry[] = [];
+  const lines: string[] = [];
+
+  if (theme?.logo) {
+    const { bytes, mimeType } = dataUrlToBytes(theme.logo);
+    const path = `images/logo.${extensionForMimeType(mimeType)}`;
+    entries.push({ path: folder + path, data: bytes });
+    lines.push(`![Logo](${path})`, '');
+  }
+  if (theme?.headerText) {
+    lines.push(escapeMarkdown(fillThemeText(theme.headerText, data.title)), '');
+  }
+  lines.push(`# ${escapeMarkdown(data.title)}`, '', `_${escapeMarkdown(data.summary)}_`, '');
+
+  const meta = handoutMeta(data);
+  if (meta.length > 0) {
+    lines.push(meta.map(m => `**${m.label}:** ${escapeMarkdown(m.value)}`).join(' · '), '');
+  }
+
+  const list = (heading: string, items?: string[]) => {
+    const kept = (items || []).filter(item => item.trim());
+    if (kept.length > 0) lines.push(`**${heading}:**`, '', ...kept.map(item => `- ${escapeMarkdown(item)}`), '');
+  };
+  list('Before you start', data.prerequisites);
+  list('You will need', data.materials);
+
+  // Sections become level-2 headings with an anchor the contents list links to; their steps move down a level
+  const runs = sectionRuns(data, resolveStepImages(data, frames));
+  const sectioned = runs.some(run => run.section);
+  if (sectioned) {
+    lines.push('**Contents:**', '');
+    runs.forEach((run, i) => {
+      if (run.section) lines.push(`${i + 1}. [${escapeMarkdown(run.section.title)}](#section-${i + 1})`);
+    });
+    lines.push('');
+  }
+
+  runs.forEach((run, runIndex) => {
+    if (run.section) {
+      lines.push(`<a id="section-${runIndex + 1}"></a>`, '', `## ${runIndex + 1}. ${escapeMarkdown(run.section.title)}`, '');
+      if (run.section.summary) lines.push(`_${escapeMarkdown(run.section.summary)}_`, '');
+    }
+    for (const { step } of run.steps) {
+      lines.push(`${sectioned ? '###' : '##'} ${step.stepNumber}. ${escapeMarkdown(step.title)}`, '');
+
+      // Numbering restarts in every section, so image names carry the section number too
+      const prefix = sectioned ? `section-${String(runIndex + 1).padStart(2, '0')}-` : '';
+      step.images.forEach((image, i) => {
+        const { bytes, mimeType } = dataUrlToBytes(image.dataUrl);
+        const suffix = step.images.length > 1 ? `-${String.fromCharCode(97 + i)}` : '';
+        const path = `images/${prefix}step-${String(step.stepNumber).padStart(2, '0')}${suffix}.${extensionForMimeType(mimeType)}`;
+        entries.push({ path: folder + path, data: bytes });
+        lines.push(`![Step ${step.stepNumber}](${path})`, '');
+      });
+
+      lines.push(escapeMarkdown(step.description), '');
+      if (step.subSteps && step.subSteps.length > 0) {
+        lines.push(...step.subSteps.map((sub, i) => `${i + 1}. ${escapeMarkdown(sub)}`), '');
+      }
+      for (const callout of step.callouts || []) {
+        lines.push(`> **${calloutLabel(callout.type)}:** ${escapeMarkdown(callout.text)}`, '');
+      }
+    }
+  });
+
+  const closing = (heading: string, items: { title: string; body: string }[]) => {
+    if (items.length === 0) return;
+    lines.push(`## ${heading}`, '');
+    for (const item of items) {
+      lines.push(`**${escapeMarkdown(item.title)}**`, '', escapeMarkdown(item.body), '');
+    }
+  };
+  closing('Troubleshooting', (data.troubleshooting || []).map(item => ({ title: item.problem, body: item.solution })));
+  closing('Frequently asked questions', (data.faq || []).map(item => ({ title: item.question, body: item.answer })));
+
+  if (theme?.footerText) {
+    lines.push('---', '', escapeMarkdown(fillThemeText(theme.footerText, data.title)), '');
+  }
+
+  entries.unshift({ path: `${folder}handout.md`, data: lines.join('\n') });
+  return entries;
+};
+
+/**
+ * Zips `handout.md` and its images, ready to drop into a wiki or docs repo.
+ */
+export const exportMarkdownZip = (data: HandoutData, frames: CapturedFrame[], theme?: HandoutTheme): Blob =>
+  createZip(markdownEntries(data, frames, theme));
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+// Reads back the entries of a stored (uncompressed) archive through its central directory
+const readZip = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries: { path: string; text: string; crc: number }[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const path = new TextDecoder().decode(bytes.subarray(position + 46, position + 46 + nameLength));
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+    entries.push({
+      path,
+      text: new TextDecoder().decode(bytes.subarray(dataStart, dataStart + size)),
+      crc: view.getUint32(position + 16, true),
+    });
+    position += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('createZip', () => {
+  it('stores every entry with its path and contents', async () => {
+    const zip = createZip([
+      { path: 'handout.md', data: '# Title\n' },
+      { path: 'images/step-1.png', data: new Uint8Array([1, 2, 3]) },
+      { path: 'übersetzung/handout.md', data: 'Grüße' },
+    ]);
+    expect(zip.type).toBe('application/zip');
+    const entries = await readZip(zip);
+    expect(entries.map(e => e.path)).toEqual(['handout.md', 'images/step-1.png', 'übersetzung/handout.md']);
+    expect(entries[0].text).toBe('# Title\n');
+    expect(entries[2].text).toBe('Grüße');
+  });
+
+  it('writes the standard CRC-32 of each entry', async () => {
+    const [entry] = await readZip(createZip([{ path: 'a.txt', data: 'The quick brown fox jumps over the lazy dog' }]));
+    expect(entry.crc).toBe(0x414fa339);
+  });
+
+  it('makes a valid empty archive', async () => {
+    expect(await readZip(createZip([]))).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+import { cancelledError } from "./providers";
+import type { FrameSignature } from "./frameSignature";
+
+// Messages exchanged with frameDecoder.worker.ts
+export type DecodeRequest =
+  | { type: 'signatures'; file: File; times: number[]; width: number; height: number }
+  | { type: 'frames'; file: File; times: number[]; quality: number };
+
+export type DecodeResponse =
+  | ({ type: 'signature'; index: number } & FrameSignature)
+  | { type: 'frame'; index: number; time: number; blob: Blob }
+  | { type: 'progress'; fraction: number }
+  | { type: 'done' }
+  | { type: 'error'; message: string; unsupported: boolean };
+
+// The file's format or codec, or the browser, isn't supported by the worker; callers seek the player instead.
+// Other errors mean decoding failed part way, and are passed on.
+export class DecoderUnsupportedError extends Error {}
+
+export interface DecodedFrame {
+  time: number; // Of the frame actually decoded, at or just after the requested time
+  dataUrl: string;
+}
+
+/** True when frames can be decoded in a worker; otherwise callers seek the player instead. */
+export const canDecodeInWorker = (): boolean =>
+  typeof Worker !== 'undefined' && typeof VideoDecoder !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+const runWorker = (request: DecodeRequest, onMessage: (message: DecodeResponse) => void, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+    const worker = new Worker(new URL('./frameDecoder.worker.ts', import.meta.url), { type: 'module' });
+    const finish = (error?: Error) => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onAbort = () => finish(cancelledError());
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<DecodeResponse>) => {
+      const message = event.data;
+      if (message.type === 'done') finish();
+      else if (message.type === 'error') finish(message.unsupported ? new DecoderUnsupportedError(message.message) : new Error(message.message));
+      else onMessage(message);
+    };
+    worker.onerror = (event) => finish(new DecoderUnsupportedError(event.message || "The frame decoder could not start"));
+    worker.postMessage(request);
+  });
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Scene-detection signatures for the frames at `times` (ascending), computed from width x height thumbnails.
+ * Entries past the end of the video stay undefined. Rejects with DecoderUnsupportedError for files the
+ * worker can't demux or decode.
+ */
+export const decodeSignatures = async (
+  file: File,
+  times: number[],
+  width: number,
+  height: number,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<(FrameSignature | undefined)[]> => {
+  const signatures: (FrameSignature | undefined)[] = new Array(times.length);
+  await runWorker({ type: 'signatures', file, times, width, height }, message => {
+    if (message.type === 'signature') signatures[message.index] = { histogram: message.histogram, hash: message.hash };
+    else if (message.type === 'progress') onProgress?.(message.fraction);
+  }, signal);
+  return signatures;
+};
+
+/**
+ * Full-resolution JPEG frames at `times` (ascending), in the same order. Times past the end of the
+ * video are left out. Rejects with DecoderUnsupportedError for files the worker can't demux or decode.
+ */
+export const decodeFrames = async (file: File, times: number[], quality = 0.8, signal?: AbortSignal): Promise<DecodedFrame[]> => {
+  const blobs: { index: number; time: number; blob: Blob }[] = [];
+  await runWorker({ type: 'frames', file, times, quality }, message => {
+    if (message.type === 'frame') blobs.push(message);
+  }, signal);
+  blobs.sort((a, b) => a.index - b.index);
+  return Promise.all(blobs.map(async ({ time, blob }) => ({ time, dataUrl: await blobToDataUrl(blob) })));
+};
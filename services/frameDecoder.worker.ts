@@ -0,0 +1,214 @@
+import { createFile, ISOFile, Movie, MP4BoxBuffer, MultiBufferStream, Sample, VisualSampleEntry } from 'mp4box';
+import { signatureFromImageData } from './frameSignature';
+import type { DecodeRequest, DecodeResponse } from './frameDecoder';
+
+/**
+ * Demuxes an MP4/MOV file with mp4box and decodes the frames at the requested times with WebCodecs,
+ * off the main thread. Only the samples needed for those times are read and decoded: from the key frame
+ * before each one, or straight on from the previous time when that is closer.
+ */
+
+const HEADER_CHUNK_BYTES = 1024 * 1024;
+const READ_WINDOW_BYTES = 4 * 1024 * 1024;
+const MAX_DECODE_QUEUE = 8;
+
+interface VideoTrack {
+  samples: Sample[]; // Decode order
+  presentationTimes: number[]; // Seconds, per sample, with the first frame at 0
+  config: VideoDecoderConfig;
+}
+
+class UnsupportedError extends Error {}
+
+const post = (message: DecodeResponse) => self.postMessage(message);
+
+// The decoder wants the codec box contents without their 8-byte header
+const codecDescription = (file: ISOFile, trackId: number): Uint8Array | undefined => {
+  for (const entry of file.getTrackById(trackId).mdia.minf.stbl.stsd.entries) {
+    if (!(entry instanceof VisualSampleEntry)) continue;
+    const box = entry.avcC || entry.hvcC || entry.vpcC || entry.av1C;
+    if (box) {
+      const stream = new MultiBufferStream(); // Big-endian, as boxes are written
+      box.write(stream);
+      return new Uint8Array(stream.buffer, 8);
+    }
+  }
+  return undefined;
+};
+
+const openTrack = async (source: File): Promise<VideoTrack> => {
+  const file = createFile();
+  let movie: Movie | null = null;
+  let parseError = '';
+  file.onReady = info => { movie = info; };
+  file.onError = (_module, message) => { parseError = message; };
+
+  // The movie header may sit after the media data; mp4box says where to read next
+  let position = 0;
+  while (!movie && !parseError && position < source.size) {
+    const chunk = await source.slice(position, position + HEADER_CHUNK_BYTES).arrayBuffer();
+    const next = file.appendBuffer(MP4BoxBuffer.fromArrayBuffer(chunk, position));
+    position = next > position ? next : position + chunk.byteLength;
+  }
+  const info = movie as Movie | null;
+  if (!info) throw new UnsupportedError(parseError || "Not an MP4 or MOV file");
+  if (info.isFragmented) throw new UnsupportedError("Fragmented MP4 files are decoded by the player instead");
+  const track = info.videoTracks[0];
+  if (!track) throw new UnsupportedError("The file has no video track");
+
+  const samples = file.getTrackSamplesInfo(track.id);
+  if (samples.length === 0) throw new UnsupportedError("The video track has no samples");
+  const config: VideoDecoderConfig = {
+    codec: track.codec.startsWith('vp08') ? 'vp8' : track.codec,
+    codedWidth: track.video?.width,
+    codedHeight: track.video?.height,
+    description: codecDescription(file, track.id),
+  };
+  const support = await VideoDecoder.isConfigSupported(config);
+  if (!support.supported) throw new UnsupportedError(`This browser can't decode ${track.codec} in a worker`);
+
+  // Players show the first frame at 0 even when composition times start later (B-frame offsets)
+  const firstCts = Math.min(...samples.map(s => s.cts));
+  return { samples, presentationTimes: samples.map(s => (s.cts - firstCts) / s.timescale), config };
+};
+
+// Reads sample data through a window over the file, since consecutive samples are usually adjacent
+const createSampleReader = (source: File) => {
+  let windowStart = 0;
+  let window = new Uint8Array(0);
+  return async (sample: Sample): Promise<Uint8Array> => {
+    if (sample.offset < windowStart || sample.offset + sample.size > windowStart + window.length) {
+      windowStart = sample.offset;
+      window = new Uint8Array(await source.slice(windowStart, windowStart + Math.max(READ_WINDOW_BYTES, sample.size)).arrayBuffer());
+    }
+    return window.subarray(sample.offset - windowStart, sample.offset - windowStart + sample.size);
+  };
+};
+
+/**
+ * Calls `onFrame` with the first frame shown at or after each of `times` (sorted ascending), in order.
+ * Times past the last frame are skipped. The frame is closed once `onFrame` returns.
+ */
+const decodeAtTimes = async (source: File, times: number[], onFrame: (index: number, frame: VideoFrame) => void) => {
+  const track = await openTrack(source);
+  const { samples, presentationTimes } = track;
+  const readSample = createSampleReader(source);
+
+  let nextTime = 0;
+  let failure: Error | null = null;
+  let wakeFeeder: (() => void) | null = null;
+  const wake = () => {
+    wakeFeeder?.();
+    wakeFeeder = null;
+  };
+
+  const decoder = new VideoDecoder({
+    output: frame => {
+      const pts = frame.timestamp / 1e6;
+      try {
+        // One frame can stand for several requested times when they are closer together than frames are
+        while (nextTime < times.length && times[nextTime] <= pts + 1e-3) {
+          onFrame(nextTime, frame);
+          nextTime++;
+        }
+      } catch (err: unknown) {
+        failure = err instanceof Error ? err : new Error(String(err));
+      } finally {
+        frame.close();
+      }
+      wake();
+    },
+    error: err => {
+      failure = err;
+      wake();
+    },
+  });
+  decoder.addEventListener('dequeue', wake);
+  decoder.configure(track.config);
+
+  // The key frame that the first frame shown at or after `time` depends on, as a decode-order index
+  const byPresentation = samples.map((_, i) => i).sort((a, b) => presentationTimes[a] - presentationTimes[b]);
+  const keyBefore: number[] = [];
+  samples.forEach((sample, i) => keyBefore.push(sample.is_sync || i === 0 ? i : keyBefore[i - 1]));
+  const keyFrameFor = (time: number): number => {
+    let low = 0;
+    let high = byPresentation.length - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (presentationTimes[byPresentation[mid]] >= time - 1e-3) high = mid;
+      else low = mid + 1;
+    }
+    return keyBefore[byPresentation[low]];
+  };
+
+  try {
+    let feed = -1; // Next sample to decode; -1 until the first jump
+    while (nextTime < times.length && !failure) {
+      const key = keyFrameFor(times[nextTime]);
+      if (key > feed) {
+        // Skipping ahead: drain what the decoder holds, then restart at the key frame
+        if (feed >= 0) await decoder.flush();
+        feed = key;
+        continue;
+      }
+      if (feed >= samples.length) break;
+
+      if (decoder.decodeQueueSize >= MAX_DECODE_QUEUE) {
+        await new Promise<void>(resolve => { wakeFeeder = resolve; });
+        continue;
+      }
+      const sample = samples[feed];
+      decoder.decode(new EncodedVideoChunk({
+        type: sample.is_sync ? 'key' : 'delta',
+        timestamp: Math.round(presentationTimes[feed] * 1e6),
+        duration: Math.round((sample.duration / sample.timescale) * 1e6),
+        data: await readSample(sample),
+      }));
+      feed++;
+    }
+    // Frames still held back for reordering come out on flush
+    if (!failure && decoder.state === 'configured') await decoder.flush();
+    if (failure) throw failure;
+  } finally {
+    if (decoder.state !== 'closed') decoder.close();
+  }
+};
+
+const handleSignatures = async (request: Extract<DecodeRequest, { type: 'signatures' }>) => {
+  const canvas = new OffscreenCanvas(request.width, request.height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new UnsupportedError("OffscreenCanvas 2D context is not available");
+
+  await decodeAtTimes(request.file, request.times, (index, frame) => {
+    ctx.drawImage(frame, 0, 0, request.width, request.height);
+    const signature = signatureFromImageData(ctx.getImageData(0, 0, request.width, request.height).data, request.width, request.height);
+    post({ type: 'signature', index, ...signature });
+    post({ type: 'progress', fraction: (index + 1) / request.times.length });
+  });
+};
+
+const handleFrames = async (request: Extract<DecodeRequest, { type: 'frames' }>) => {
+  const encodes: Promise<void>[] = [];
+  await decodeAtTimes(request.file, request.times, (index, frame) => {
+    // Drawn right away so the frame can be released; encoding finishes in the background
+    const canvas = new OffscreenCanvas(frame.displayWidth, frame.displayHeight);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new UnsupportedError("OffscreenCanvas 2D context is not available");
+    ctx.drawImage(frame, 0, 0);
+    const time = frame.timestamp / 1e6;
+    encodes.push(canvas.convertToBlob({ type: 'image/jpeg', quality: request.quality }).then(blob => {
+      post({ type: 'frame', index, time, blob });
+    }));
+  });
+  await Promise.all(encodes);
+};
+
+self.onmessage = async (event: MessageEvent<DecodeRequest>) => {
+  try {
+    if (event.data.type === 'signatures') await handleSignatures(event.data);
+    else await handleFrames(event.data);
+    post({ type: 'done' });
+  } catch (err: unknown) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err), unsupported: err instanceof UnsupportedError });
+  }
+};
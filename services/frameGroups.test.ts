@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { CapturedFrame } from '../types';
+import { groupFrames, joinGroups, moveGroup } from './frameGroups';
+
+const frame = (id: string, groupWithPrevious?: boolean): CapturedFrame => ({
+  id,
+  dataUrl: '',
+  timestamp: 0,
+  originalTimeFormatted: '00:00',
+  groupWithPrevious,
+});
+
+const ids = (groups: CapturedFrame[][]) => groups.map(group => group.map(f => f.id));
+
+describe('groupFrames', () => {
+  it('joins frames linked to the one before them', () => {
+    expect(ids(groupFrames([frame('a'), frame('b', true), frame('c'), frame('d', true), frame('e', true)]))).toEqual([['a', 'b'], ['c', 'd', 'e']]);
+  });
+
+  it('ignores a link on the first frame', () => {
+    expect(ids(groupFrames([frame('a', true), frame('b')]))).toEqual([['a'], ['b']]);
+  });
+});
+
+describe('joinGroups', () => {
+  it('sets the link flags from the groups', () => {
+    const frames = joinGroups([[frame('a', true), frame('b')], [frame('c', true)]]);
+    expect(frames.map(f => [f.id, !!f.groupWithPrevious])).toEqual([['a', false], ['b', true], ['c', false]]);
+  });
+
+  it('keeps frames whose flag is already right', () => {
+    const a = frame('a');
+    const b = frame('b', true);
+    const [first, second] = joinGroups([[a, b]]);
+    expect(first).toBe(a);
+    expect(second).toBe(b);
+  });
+});
+
+describe('moveGroup', () => {
+  const frames = [frame('a'), frame('b', true), frame('c'), frame('d')];
+
+  it('moves a whole group', () => {
+    expect(ids(groupFrames(moveGroup(frames, 0, 2)))).toEqual([['c'], ['d'], ['a', 'b']]);
+  });
+
+  it("keeps the moved group together without joining it to the step before", () => {
+    const moved = moveGroup(frames, 0, 1);
+    expect(ids(groupFrames(moved))).toEqual([['c'], ['a', 'b'], ['d']]);
+    expect(moved.map(f => !!f.groupWithPrevious)).toEqual([false, false, true, false]);
+  });
+});
@@ -0,0 +1,49 @@
+import { CapturedFrame } from "../types";
+import { isVideoFrame } from "./imageImport";
+
+/**
+ * Splits the frames into runs joined by `groupWithPrevious`. Each run illustrates a single step,
+ * and the sidebar order of the runs is the step order.
+ */
+export const groupFrames = (frames: CapturedFrame[]): CapturedFrame[][] => {
+  const groups: CapturedFrame[][] = [];
+  frames.forEach((frame, index) => {
+    if (index > 0 && frame.groupWithPrevious) groups[groups.length - 1].push(frame);
+    else groups.push([frame]);
+  });
+  return groups;
+};
+
+// Re-derives the link flags from the runs, so the first frame of a group never links to the group before it
+export const joinGroups = (groups: CapturedFrame[][]): CapturedFrame[] =>
+  groups.flatMap(group => group.map((frame, index) => {
+    const linked = index > 0;
+    return !!frame.groupWithPrevious === linked ? frame : { ...frame, groupWithPrevious: linked || undefined };
+  }));
+
+export const moveGroup = (frames: CapturedFrame[], from: number, to: number): CapturedFrame[] => {
+  const groups = groupFrames(frames);
+  const [moved] = groups.splice(from, 1);
+  groups.splice(to, 0, moved);
+  return joinGroups(groups);
+};
+
+export const setGroupedWithPrevious = (frames: CapturedFrame[], id: string, grouped: boolean): CapturedFrame[] =>
+  joinGroups(groupFrames(frames.map(f => (f.id === id ? { ...f, groupWithPrevious: grouped || undefined } : f))));
+
+export const removeFramesWhere = (frames: CapturedFrame[], remove: (frame: CapturedFrame) => boolean): CapturedFrame[] =>
+  joinGroups(groupFrames(frames).map(group => group.filter(f => !remove(f))).filter(group => group.length > 0));
+
+export const removeFrame = (frames: CapturedFrame[], id: string): CapturedFrame[] =>
+  removeFramesWhere(frames, f => f.id === id);
+
+// New captures go before the first step that starts later in the playlist, so capturing out of order still reads chronologically
+export const insertFrameByTime = (frames: CapturedFrame[], frame: CapturedFrame, clipOrder: string[] = []): CapturedFrame[] => {
+  const groups = groupFrames(frames);
+  const clipOf = (f: CapturedFrame) => Math.max(0, clipOrder.indexOf(f.videoId || ''));
+  const index = groups.findIndex(([first]) => isVideoFrame(first) && (
+    clipOf(first) > clipOf(frame) || (clipOf(first) === clipOf(frame) && first.timestamp > frame.timestamp)
+  ));
+  groups.splice(index === -1 ? groups.length : index, 0, [{ ...frame, groupWithPrevious: undefined }]);
+  return joinGroups(groups);
+};
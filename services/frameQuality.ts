@@ -0,0 +1,198 @@
+import { CapturedFrame } from "../types";
+import { loadImage } from "./annotationRenderer";
+import { groupFrames } from "./frameGroups";
+
+export type FrameQualityIssue = 'blurry' | 'black' | 'transition' | 'duplicate';
+
+export interface FrameQuality {
+  sharpness: number; // 0..100; how crisp the edges are, regardless of how many there are
+  brightness: number; // Mean luma, 0..1
+  contrast: number; // Spread of luma, 0..1; near zero for flat frames and the middle of fades
+  hash: Uint8Array; // 64-bit perceptual hash, one bit per entry
+}
+
+export const QUALITY_ISSUE_LABELS: Record<FrameQualityIssue, { label: string; description: string }> = {
+  blurry: { label: "Blurry", description: "Edges are soft, often from motion or scrolling" },
+  black: { label: "Black", description: "Almost entirely dark, e.g. a fade to black" },
+  transition: { label: "Transition", description: "Flat or faded picture, likely mid-transition" },
+  duplicate: { label: "Duplicate", description: "Looks the same as an earlier frame" },
+};
+
+// Sharpness is measured at a fixed width so scores compare across recordings of different resolutions
+const ANALYSIS_WIDTH = 480;
+const PHASH_SIZE = 32;
+const PHASH_BITS = 8;
+const EDGE_GRADIENT = 20; // Luma step that counts as an edge pixel
+const MIN_EDGE_FRACTION = 0.002; // Fewer edge pixels than this and there is nothing to judge sharpness by
+const SHARPNESS_SCALE = 800;
+
+const BLURRY_BELOW = 30;
+const BLACK_BELOW = 0.05;
+const FLAT_CONTRAST_BELOW = 0.03;
+const FADE_BRIGHTNESS_BELOW = 0.25;
+const FADE_CONTRAST_BELOW = 0.08;
+export const DUPLICATE_MAX_DISTANCE = 6; // Hash bits that may differ between frames of the same screen
+
+const lumaAt = (img: HTMLImageElement, width: number, height: number): Float32Array => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+  ctx.drawImage(img, 0, 0, width, height);
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  const luma = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < pixels.length; i += 4, p++) {
+    luma[p] = 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+  }
+  return luma;
+};
+
+// Variance of the Laplacian, taken only where there are edges: a mostly empty slide with crisp text
+// should score as sharp as a busy one
+const measureSharpness = (luma: Float32Array, width: number, height: number): number => {
+  let count = 0;
+  let sum = 0;
+  let sumSq = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = luma[i + 1] - luma[i - 1];
+      const gy = luma[i + width] - luma[i - width];
+      if (Math.abs(gx) + Math.abs(gy) < EDGE_GRADIENT) continue;
+      const laplacian = luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i];
+      count++;
+      sum += laplacian;
+      sumSq += laplacian * laplacian;
+    }
+  }
+  if (count < MIN_EDGE_FRACTION * width * height) return 100;
+  const variance = sumSq / count - (sum / count) ** 2;
+  return Math.round(100 * (1 - Math.exp(-variance / SHARPNESS_SCALE)));
+};
+
+// DCT-based hash: low frequencies above or below their median. Survives recompression and small
+// cursor movements, unlike a pixel comparison.
+const perceptualHash = (luma: Float32Array): Uint8Array => {
+  const n = PHASH_SIZE;
+  const cos = new Float32Array(PHASH_BITS * n);
+  for (let u = 0; u < PHASH_BITS; u++) {
+    for (let x = 0; x < n; x++) cos[u * n + x] = Math.cos(((2 * x + 1) * u * Math.PI) / (2 * n));
+  }
+  const rows = new Float32Array(n * PHASH_BITS);
+  for (let y = 0; y < n; y++) {
+    for (let u = 0; u < PHASH_BITS; u++) {
+      let s = 0;
+      for (let x = 0; x < n; x++) s += luma[y * n + x] * cos[u * n + x];
+      rows[y * PHASH_BITS + u] = s;
+    }
+  }
+  const coefficients = new Float32Array(PHASH_BITS * PHASH_BITS);
+  for (let v = 0; v < PHASH_BITS; v++) {
+    for (let u = 0; u < PHASH_BITS; u++) {
+      let s = 0;
+      for (let y = 0; y < n; y++) s += rows[y * PHASH_BITS + u] * cos[v * n + y];
+      coefficients[v * PHASH_BITS + u] = s;
+    }
+  }
+  // The DC term only says how bright the frame is
+  const median = [...coefficients.slice(1)].sort((a, b) => a - b)[Math.floor((coefficients.length - 1) / 2)];
+  return Uint8Array.from(coefficients, c => (c > median ? 1 : 0));
+};
+
+export const assessFrame = async (dataUrl: string): Promise<FrameQuality> => {
+  const img = await loadImage(dataUrl);
+  const width = Math.min(ANALYSIS_WIDTH, img.naturalWidth);
+  const height = Math.max(1, Math.round(img.naturalHeight * (width / img.naturalWidth)));
+  const luma = lumaAt(img, width, height);
+
+  let sum = 0;
+  let sumSq = 0;
+  for (let i = 0; i < luma.length; i++) {
+    sum += luma[i];
+    sumSq += luma[i] * luma[i];
+  }
+  const mean = sum / luma.length;
+
+  return {
+    sharpness: measureSharpness(luma, width, height),
+    brightness: mean / 255,
+    contrast: Math.sqrt(Math.max(0, sumSq / luma.length - mean * mean)) / 255,
+    hash: perceptualHash(lumaAt(img, PHASH_SIZE, PHASH_SIZE)),
+  };
+};
+
+// Scores by frame id; frames whose image can't be read are left out
+export const assessFrames = async (frames: CapturedFrame[]): Promise<Record<string, FrameQuality>> => {
+  const qualities: Record<string, FrameQuality> = {};
+  for (const frame of frames) {
+    try {
+      qualities[frame.id] = await assessFrame(frame.dataUrl);
+    } catch (err) {
+      console.warn(`Could not score frame ${frame.id}:`, err);
+    }
+  }
+  return qualities;
+};
+
+export const hashDistance = (a: Uint8Array, b: Uint8Array): number => {
+  let bits = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) bits++;
+  return bits;
+};
+
+/** Problems a frame has on its own; duplicates depend on the other frames, see findDuplicates. */
+export const qualityIssues = (quality: FrameQuality): FrameQualityIssue[] => {
+  if (quality.brightness < BLACK_BELOW) return ['black'];
+  const issues: FrameQualityIssue[] = [];
+  if (quality.contrast < FLAT_CONTRAST_BELOW || (quality.brightness < FADE_BRIGHTNESS_BELOW && quality.contrast < FADE_CONTRAST_BELOW)) {
+    issues.push('transition');
+  }
+  if (quality.sharpness < BLURRY_BELOW) issues.push('blurry');
+  return issues;
+};
+
+/**
+ * Maps each frame that looks the same as an earlier one to the id of that earlier frame. Frames are
+ * compared in the given order; frames without a score yet are skipped. Frames grouped into the same
+ * step, such as a before/after pair, are never duplicates of each other.
+ */
+export const findDuplicates = (frames: CapturedFrame[], qualities: Record<string, FrameQuality | undefined>): Map<string, string> => {
+  const stepOf = new Map(groupFrames(frames).flatMap((group, step) => group.map(f => [f.id, step] as const)));
+  const duplicates = new Map<string, string>();
+  const originals: { id: string; step: number | undefined; hash: Uint8Array }[] = [];
+  for (const frame of frames) {
+    const quality = qualities[frame.id];
+    if (!quality) continue;
+    const step = stepOf.get(frame.id);
+    const original = originals.find(o => o.step !== step && hashDistance(o.hash, quality.hash) <= DUPLICATE_MAX_DISTANCE);
+    if (original) duplicates.set(frame.id, original.id);
+    else originals.push({ id: frame.id, step, hash: quality.hash });
+  }
+  return duplicates;
+};
+
+export interface ScreenedCandidates {
+  kept: CapturedFrame[];
+  rejected: { frame: CapturedFrame; issue: FrameQualityIssue }[];
+}
+
+/**
+ * Drops black, mid-transition and blurry candidates, then repeats of a screen already kept, so only
+ * usable, distinct frames go to the model. If that would leave nothing, every candidate is kept.
+ */
+export const screenCandidates = (frames: CapturedFrame[], qualities: Record<string, FrameQuality | undefined>): ScreenedCandidates => {
+  const rejected: ScreenedCandidates['rejected'] = [];
+  const usable = frames.filter(frame => {
+    const quality = qualities[frame.id];
+    const issue = quality && qualityIssues(quality)[0];
+    if (issue) rejected.push({ frame, issue });
+    return !issue;
+  });
+  const duplicates = findDuplicates(usable, qualities);
+  const kept = usable.filter(frame => {
+    if (duplicates.has(frame.id)) rejected.push({ frame, issue: 'duplicate' });
+    return !duplicates.has(frame.id);
+  });
+  return kept.length > 0 ? { kept, rejected } : { kept: frames, rejected: [] };
+};
@@ -0,0 +1,54 @@
+const HASH_SIZE = 8;
+
+export interface FrameSignature {
+  histogram: Float32Array;
+  hash: Uint8Array;
+}
+
+export const signatureFromImageData = (pixels: Uint8ClampedArray, width: number, height: number): FrameSignature => {
+  // 4x4x4 RGB colour histogram, normalised
+  const histogram = new Float32Array(64);
+  const gray = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < pixels.length; i += 4, p++) {
+    const r = pixels[i], g = pixels[i + 1], b = pixels[i + 2];
+    histogram[((r >> 6) << 4) | ((g >> 6) << 2) | (b >> 6)]++;
+    gray[p] = 0.299 * r + 0.587 * g + 0.114 * b;
+  }
+  const total = width * height;
+  for (let i = 0; i < histogram.length; i++) histogram[i] /= total;
+
+  // Difference hash: downsample to (HASH_SIZE + 1) x HASH_SIZE and compare horizontal neighbours
+  const cellW = width / (HASH_SIZE + 1);
+  const cellH = height / HASH_SIZE;
+  const cells = new Float32Array((HASH_SIZE + 1) * HASH_SIZE);
+  for (let y = 0; y < height; y++) {
+    const cy = Math.min(HASH_SIZE - 1, Math.floor(y / cellH));
+    for (let x = 0; x < width; x++) {
+      const cx = Math.min(HASH_SIZE, Math.floor(x / cellW));
+      cells[cy * (HASH_SIZE + 1) + cx] += gray[y * width + x];
+    }
+  }
+  const hash = new Uint8Array(HASH_SIZE * HASH_SIZE);
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let x = 0; x < HASH_SIZE; x++) {
+      const row = y * (HASH_SIZE + 1);
+      hash[y * HASH_SIZE + x] = cells[row + x] < cells[row + x + 1] ? 1 : 0;
+    }
+  }
+
+  return { histogram, hash };
+};
+
+// Combined distance in 0..1: colour distribution catches cuts and fades, the hash catches layout changes
+// (dialogs opening, page navigation) that keep roughly the same colours.
+export const signatureDistance = (a: FrameSignature, b: FrameSignature): number => {
+  let histDelta = 0;
+  for (let i = 0; i < a.histogram.length; i++) histDelta += Math.abs(a.histogram[i] - b.histogram[i]);
+  histDelta /= 2;
+
+  let bits = 0;
+  for (let i = 0; i < a.hash.length; i++) if (a.hash[i] !== b.hash[i]) bits++;
+  const hashDelta = bits / a.hash.length;
+
+  return Math.max(histDelta, hashDelta);
+};
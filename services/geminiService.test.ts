@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CapturedFrame } from '../types';
+import { JsonRequest } from './providers';
+import { DEFAULT_MODEL_IMAGE_SETTINGS } from './modelImages';
+import { filterBestFrames } from './geminiService';
+
+const requests = vi.hoisted((): JsonRequest[] => []);
+
+vi.mock('./settingsService', async importOriginal => {
+  const settings = await importOriginal<typeof import('./settingsService')>();
+  return {
+    ...settings,
+    loadAISettings: () => settings.defaultAISettings('server'),
+    loadModelImageSettings: () => DEFAULT_MODEL_IMAGE_SETTINGS,
+  };
+});
+
+vi.mock('./modelImages', async importOriginal => ({
+  ...await importOriginal<typeof import('./modelImages')>(),
+  encodeForModel: async (frames: CapturedFrame[]) =>
+    frames.map(f => ({ frameId: f.id, mimeType: 'image/jpeg', data: 'x', width: 300, height: 300 })),
+}));
+
+vi.mock('./responseCache', () => ({
+  generateJsonCached: async (_provider: unknown, request: JsonRequest) => {
+    requests.push(request);
+    return { selectedIndices: [0, 2, 4] };
+  },
+}));
+
+const frame = (id: string): CapturedFrame => ({ id, dataUrl: '', timestamp: 0, originalTimeFormatted: '00:00' });
+
+describe('filterBestFrames', () => {
+  it('asks for no more frames than there are candidates', async () => {
+    const indices = await filterBestFrames(['a', 'b', 'c', 'd', 'e'].map(frame));
+    expect(indices).toEqual([0, 2, 4]);
+    expect(requests[0].input).toMatchObject({ task: 'frameSelection', min: 4, max: 5 });
+  });
+});
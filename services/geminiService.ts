@@ -1,98 +1,99 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { CapturedFrame, HandoutData } from "../types";
+import { CapturedFrame, Difficulty, GenerationOptions, HandoutData, HandoutSection, HandoutStep, TranscriptSegment } from "../types";
+import { alignTranscriptToFrames, extractAudioChunks } from "./transcriptService";
+import { AIError, AIProvider, createProvider, JsonRequest } from "./providers";
+import { loadAISettings, loadModelImageSettings } from "./settingsService";
+import { flattenFrames } from "./annotationRenderer";
+import { DEFAULT_GENERATION_OPTIONS } from "./generationOptions";
+import { alignTranslation } from "./translationService";
+import { DIFFICULTY_LEVELS, normalizeHandout, normalizeStep, numberSteps } from "./handoutContent";
+import { groupFrames } from "./frameGroups";
+import { frameLabel, isVideoFrame } from "./imageImport";
+import { batchForBudget, encodeForModel, fitToRequestBudget } from "./modelImages";
+import { withUsageLedger } from "./usageLedger";
+import { generateJsonCached } from "./responseCache";
+import { buildTaskRequest, SectionContext, TaskInput } from "./taskPrompts";
 
-const processBase64Image = (dataUrl: string): string => {
-  return dataUrl.split(',')[1];
-};
+// Settings are read on every call so changes in the settings screen apply to the next request
+const getProvider = (): AIProvider => withUsageLedger(createProvider(loadAISettings()));
 
-const HANDOUT_SCHEMA: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    title: {
-      type: Type.STRING,
-      description: "A catchy, instructional title for the handout based on the video content.",
-    },
-    summary: {
-      type: Type.STRING,
-      description: "A brief 2-3 sentence overview of what is being demonstrated.",
-    },
-    steps: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          stepNumber: { type: Type.INTEGER },
-          title: { type: Type.STRING, description: "Action-oriented title for this step." },
-          description: { type: Type.STRING, description: "Detailed instruction explaining the visual." },
-          tips: { type: Type.STRING, description: "Optional helpful tip or warning relevant to this step." },
-        },
-        required: ["stepNumber", "title", "description"],
-      },
-    },
-  },
-  required: ["title", "summary", "steps"],
-};
+// The input goes along with the prompt built from it, so the app server can build the prompt itself
+const taskRequest = (input: TaskInput, signal?: AbortSignal): JsonRequest => ({ ...buildTaskRequest(input), input, signal });
 
-const SELECTION_SCHEMA: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    selectedIndices: {
-      type: Type.ARRAY,
-      items: { type: Type.INTEGER },
-      description: "Indices of the selected frames (0-based) that best represent the key steps.",
-    }
-  },
-  required: ["selectedIndices"],
+// Where a frame came from, as the model is told
+const frameOrigin = (frame: CapturedFrame, clip = '') =>
+  isVideoFrame(frame) ? `${clip}at ${frame.originalTimeFormatted}` : `imported image "${frameLabel(frame)}"`;
+
+// The model is asked to cite frame IDs, but it can hallucinate or mangle them.
+// Drop anything that isn't a real frame and fall back to positional pairing if nothing usable came back.
+// Grouped frames always stay together in the first step that cites any of them.
+const bindStepsToFrames = (data: HandoutData, frames: CapturedFrame[]): HandoutData => {
+  const groups = groupFrames(frames);
+  const position = new Map(frames.map((f, i) => [f.id, i]));
+  const groupOf = new Map(groups.flatMap(group => group.map(f => [f.id, group] as const)));
+  const claimed = new Set<string>();
+
+  const bound = (data.steps || []).map(step => {
+    const cited = (step.frameIds || []).map(id => String(id).trim()).filter(id => position.has(id));
+    const frameIds = Array.from(new Set(cited.flatMap(id => groupOf.get(id)!.map(f => f.id))))
+      .filter(id => groupOf.get(id)!.length === 1 || !claimed.has(id))
+      .sort((a, b) => position.get(a)! - position.get(b)!);
+    frameIds.forEach(id => claimed.add(id));
+    return { step, cited, frameIds };
+  });
+
+  // A step whose only images were a group already used above is the model splitting that group; drop it
+  const steps = bound
+    .filter(({ cited, frameIds }) => cited.length === 0 || frameIds.length > 0)
+    .map(({ step, frameIds }) => ({ ...step, frameIds }));
+
+  if (steps.length > 0 && steps.every(step => step.frameIds.length === 0)) {
+    console.warn("Model did not cite any valid frame IDs; pairing steps with frames by position.");
+    steps.forEach((step, index) => {
+      step.frameIds = groups[index] ? groups[index].map(f => f.id) : [];
+    });
+  }
+
+  return normalizeHandout({ ...data, steps: numberSteps(steps) });
 };
 
-export const generateHandoutContent = async (frames: CapturedFrame[]): Promise<HandoutData> => {
+export const generateHandoutContent = async (
+  frames: CapturedFrame[],
+  transcript?: TranscriptSegment[] | null,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  section?: SectionContext,
+  signal?: AbortSignal
+): Promise<HandoutData> => {
   try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const provider = getProvider();
     
-    // Sort frames by timestamp to ensure chronological order
-    const sortedFrames = [...frames].sort((a, b) => a.timestamp - b.timestamp);
-
-    const parts = [];
-
-    // Add images
-    for (const frame of sortedFrames) {
-      parts.push({
-        inlineData: {
-          mimeType: "image/jpeg",
-          data: processBase64Image(frame.dataUrl),
-        },
-      });
-    }
+    // Frames are sent in the order the author arranged them in the sidebar.
+    // The model sees annotations too, so blurred regions stay redacted and arrows give it hints.
+    const orderedFrames = await flattenFrames(frames);
+    // Times restart in every clip, so with several clips the model is told which one a frame came from
+    const clipIds = Array.from(new Set(orderedFrames.filter(isVideoFrame).map(f => f.videoId || '')));
 
-    // Add text prompt
-    parts.push({
-      text: `You are an expert technical writer creating an instructional handout. 
-      I have provided ${sortedFrames.length} screenshots from a video tutorial in chronological order.
-      
-      Your task:
-      1. Analyze the sequence of images to understand the task being performed.
-      2. Generate a structured guide.
-      3. For each image, create a corresponding 'Step'.
-      4. Ensure the steps match the order of the images provided (Image 1 is Step 1, etc.).
-      5. The description should be clear, concise, and helpful for a learner.
-      
-      Return the result as JSON matching the schema provided.`
-    });
+    const narration = transcript && transcript.length > 0 ? alignTranscriptToFrames(transcript, orderedFrames) : null;
+    // Downscaled copies go to the model, shrunk further if all of them won't fit in one request
+    const images = await fitToRequestBudget(orderedFrames, loadModelImageSettings(), provider.id, (narration || []).join('\n'));
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: { parts },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: HANDOUT_SCHEMA,
-        systemInstruction: "You are a helpful education assistant specializing in creating clear, step-by-step guides from visual inputs.",
-      },
-    });
+    const input: TaskInput = {
+      task: 'handout',
+      frames: orderedFrames.map((frame, index) => ({
+        id: frame.id,
+        origin: frameOrigin(frame, clipIds.length > 1 ? `clip ${clipIds.indexOf(frame.videoId || '') + 1}, ` : ''),
+        grouped: index > 0 && !!frame.groupWithPrevious,
+        narration: narration?.[index] || undefined,
+        image: images[index],
+      })),
+      fromVideo: orderedFrames.some(isVideoFrame),
+      options,
+      section,
+    };
 
-    const text = response.text;
-    if (!text) throw new Error("No response from Gemini");
+    // Cached, so Try Again after a failed section doesn't pay for the sections that worked
+    const data = await generateJsonCached<HandoutData>(provider, taskRequest(input, signal));
 
-    return JSON.parse(text) as HandoutData;
+    return bindStepsToFrames(data, orderedFrames);
 
   } catch (error) {
     console.error("Error generating handout:", error);
@@ -100,46 +101,243 @@ export const generateHandoutContent = async (frames: CapturedFrame[]): Promise<H
   }
 };
 
-export const filterBestFrames = async (frames: CapturedFrame[]): Promise<number[]> => {
+/**
+ * Rewrites a single step from its own screenshots, with the rest of the handout as context.
+ * The step keeps its number and images; only the text comes back from the model.
+ */
+export const regenerateStep = async (
+  data: HandoutData,
+  stepIndex: number,
+  frames: CapturedFrame[],
+  instruction?: string,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS
+): Promise<HandoutStep> => {
   try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    // We accept the frames as they are (already chronologically scanned usually)
-    const parts = [];
-
-    for (const frame of frames) {
-      parts.push({
-        inlineData: {
-          mimeType: "image/jpeg",
-          data: processBase64Image(frame.dataUrl),
-        },
-      });
-    }
+    const provider = getProvider();
+    const step = data.steps[stepIndex];
+    const stepFrames = await flattenFrames(frames.filter(f => step.frameIds.includes(f.id)));
+    const images = await encodeForModel(stepFrames, loadModelImageSettings());
 
-    parts.push({
-      text: `I have extracted ${frames.length} frames from a video tutorial. 
-      Identify the best subset of frames (between 4 and 8 frames) that visually explain the key distinct steps of the process.
-      Prefer clear images with distinct actions.
-      Return the indices of the selected frames (0-based) in the order they appear.`
-    });
+    const result = await provider.generateJson<Pick<HandoutStep, 'title' | 'description' | 'subSteps' | 'callouts'>>(taskRequest({
+      task: 'stepRewrite',
+      handout: data,
+      stepIndex,
+      screenshots: stepFrames.map((frame, index) => ({ origin: frameOrigin(frame), image: images[index] })),
+      instruction,
+      options,
+    }));
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: { parts },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: SELECTION_SCHEMA,
-      },
+    return normalizeStep({
+      ...step,
+      title: result.title || step.title,
+      description: result.description || step.description,
+      subSteps: result.subSteps,
+      callouts: result.callouts,
     });
 
-    const text = response.text;
-    if (!text) throw new Error("No response from Gemini");
+  } catch (error) {
+    console.error("Error regenerating step:", error);
+    throw error;
+  }
+};
+
+/**
+ * Rewrites the handout title and summary from the current steps.
+ */
+export const regenerateHeader = async (
+  data: HandoutData,
+  instruction?: string,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  signal?: AbortSignal
+): Promise<{ title: string; summary: string }> => {
+  try {
+    const provider = getProvider();
+    const result = await provider.generateJson<{ title: string; summary: string }>(
+      taskRequest({ task: 'headerRewrite', handout: data, instruction, options }, signal)
+    );
 
-    const result = JSON.parse(text) as { selectedIndices: number[] };
-    return result.selectedIndices;
+    return { title: result.title || data.title, summary: result.summary || data.summary };
+
+  } catch (error) {
+    console.error("Error regenerating title:", error);
+    throw error;
+  }
+};
+
+// Lists are merged across sections; the same prerequisite often comes back from several of them
+const uniqueEntries = <T>(items: T[], key: (item: T) => string): T[] => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const k = key(item).trim().toLowerCase();
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+};
+
+/**
+ * Writes a long recording up chapter by chapter: each chapter's frames become one section with its
+ * own steps, title and summary, then the handout title and summary are written from the whole outline.
+ */
+export const generateSectionedHandout = async (
+  chapters: { title?: string; frames: CapturedFrame[] }[],
+  transcript?: TranscriptSegment[] | null,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal
+): Promise<HandoutData> => {
+  const parts: HandoutData[] = [];
+  for (let i = 0; i < chapters.length; i++) {
+    onProgress?.(`Writing section ${i + 1} of ${chapters.length}...`);
+    parts.push(await generateHandoutContent(chapters[i].frames, transcript, options, { index: i, count: chapters.length, title: chapters[i].title }, signal));
+  }
+
+  const sections: HandoutSection[] = parts.map((part, i) => ({
+    id: Math.random().toString(36).substr(2, 9),
+    title: chapters[i].title || part.title,
+    summary: part.summary,
+  }));
+  const difficulties = parts.map(part => part.difficulty).filter((d): d is Difficulty => !!d);
+  const merged = normalizeHandout({
+    title: '',
+    summary: '',
+    // The hardest section sets the difficulty; time estimates are free text and can't be added up
+    difficulty: DIFFICULTY_LEVELS.map(d => d.id).reverse().find(d => difficulties.includes(d)),
+    prerequisites: uniqueEntries(parts.flatMap(part => part.prerequisites || []), item => item),
+    materials: uniqueEntries(parts.flatMap(part => part.materials || []), item => item),
+    sections,
+    steps: numberSteps(parts.flatMap((part, i) => part.steps.map(step => ({ ...step, sectionId: sections[i].id })))),
+    troubleshooting: uniqueEntries(parts.flatMap(part => part.troubleshooting || []), item => item.problem),
+    faq: uniqueEntries(parts.flatMap(part => part.faq || []), item => item.question),
+  });
+
+  onProgress?.("Writing the title and summary...");
+  return { ...merged, ...(await regenerateHeader(merged, "Write a title and summary for the whole handout, covering every section.", options, signal)) };
+};
+
+/**
+ * Applies a free-text instruction to the whole handout. Text only: the model sees the current
+ * wording and frame IDs, not the images, so it can restyle or restructure without re-reading the video.
+ */
+export const rewriteHandout = async (
+  data: HandoutData,
+  frames: CapturedFrame[],
+  instruction: string,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS
+): Promise<HandoutData> => {
+  try {
+    const provider = getProvider();
+    const result = await provider.generateJson<HandoutData>(taskRequest({ task: 'handoutRewrite', handout: data, instruction, options }));
+
+    // Section headings are kept if the model left them out; normalizing drops any that lost all their steps
+    return bindStepsToFrames(data.sections && !result.sections ? { ...result, sections: data.sections } : result, frames);
+
+  } catch (error) {
+    console.error("Error rewriting handout:", error);
+    throw error;
+  }
+};
+
+/**
+ * Translates the handout text into `language`. The structure is pinned to the original afterwards,
+ * so even if the model drops or merges a step the translation still lines up with the same images.
+ */
+export const translateHandout = async (data: HandoutData, language: string): Promise<HandoutData> => {
+  try {
+    const provider = getProvider();
+    const result = await provider.generateJson<HandoutData>(taskRequest({ task: 'translation', handout: data, language }));
+
+    return alignTranslation(data, result);
+
+  } catch (error) {
+    console.error("Error translating handout:", error);
+    throw error;
+  }
+};
+
+const MIN_SELECTED_FRAMES = 4;
+const MAX_SELECTED_FRAMES = 8;
+
+/**
+ * Picks the candidates that best show the distinct steps. Candidate sets too large for one request are
+ * split into batches, and each batch picks its share of the frames.
+ */
+export const filterBestFrames = async (frames: CapturedFrame[], signal?: AbortSignal): Promise<number[]> => {
+  try {
+    const provider = getProvider();
+    const settings = loadModelImageSettings();
+    const images = await encodeForModel(frames, settings);
+    const batches = batchForBudget(images, settings, provider.id);
+
+    const selected: number[] = [];
+    let offset = 0;
+    for (const batch of batches) {
+      // A batch can't give more frames than it has
+      const share = batch.length / frames.length;
+      const min = Math.min(batch.length, Math.max(1, Math.round(MIN_SELECTED_FRAMES * share)));
+      const max = Math.min(batch.length, Math.max(min, Math.round(MAX_SELECTED_FRAMES * share)));
+
+      // Cached by image content, so rerunning Auto-Select on the same video costs nothing
+      const result = await generateJsonCached<{ selectedIndices: number[] }>(
+        provider,
+        taskRequest({ task: 'frameSelection', images: batch, min, max, partOfLargerSet: batches.length > 1 }, signal)
+      );
+      // Whatever validation let through, mapped back to positions in the whole candidate set
+      selected.push(...result.selectedIndices.filter(i => i >= 0 && i < batch.length).map(i => i + offset));
+      offset += batch.length;
+    }
+
+    const indices = Array.from(new Set(selected)).sort((a, b) => a - b);
+    if (indices.length === 0) throw new AIError('invalidOutput', "The model didn't select any of the frames.");
+    return indices;
 
   } catch (error) {
     console.error("Error filtering frames:", error);
     throw error;
   }
+};
+
+const transcribeAudioChunk = async (wavBase64: string, durationSeconds: number): Promise<TranscriptSegment[]> => {
+  try {
+    const provider = getProvider();
+
+    const result = await provider.generateJson<{ segments: TranscriptSegment[] }>(taskRequest({
+      task: 'transcription',
+      audio: { mimeType: "audio/wav", data: wavBase64 },
+      durationSeconds,
+    }));
+    return result.segments || [];
+
+  } catch (error) {
+    console.error("Error transcribing audio:", error);
+    throw error;
+  }
+};
+
+/**
+ * Extracts the video's audio and transcribes it chunk by chunk.
+ * Segment times are absolute seconds into the video.
+ */
+export const transcribeVideo = async (
+  file: File,
+  onProgress?: (message: string) => void
+): Promise<TranscriptSegment[]> => {
+  onProgress?.("Extracting audio...");
+  const chunks = await extractAudioChunks(file);
+  const segments: TranscriptSegment[] = [];
+
+  for (let i = 0; i < chunks.length; i++) {
+    onProgress?.(`Transcribing audio... part ${i + 1} of ${chunks.length}`);
+    const { offset, duration, wavBase64 } = chunks[i];
+
+    for (const seg of await transcribeAudioChunk(wavBase64, duration)) {
+      segments.push({
+        start: offset + Math.max(0, seg.start),
+        end: offset + Math.min(duration, Math.max(seg.start, seg.end)),
+        text: (seg.text || '').trim(),
+      });
+    }
+  }
+
+  return segments.filter(seg => seg.text.length > 0).sort((a, b) => a.start - b.start);
 };
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { GenerationOptions, ReadingLevel, Tone, Verbosity } from "../types";
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  audience: 'General users',
+  readingLevel: 'standard',
+  tone: 'neutral',
+  language: 'English',
+  verbosity: 'standard',
+  includeTips: true,
+  includeWarnings: false,
+  includeSubSteps: false,
+  includePrerequisites: false,
+  includeMaterials: false,
+  includeTroubleshooting: false,
+  includeFaq: false,
+};
+
+export const AUDIENCE_SUGGESTIONS = [
+  'General users',
+  'New employees',
+  'Customers',
+  'IT administrators',
+  'Developers',
+  'Students',
+  'Experienced users',
+];
+
+export const LANGUAGE_SUGGESTIONS = [
+  'English',
+  'Spanish',
+  'French',
+  'German',
+  'Portuguese',
+  'Italian',
+  'Dutch',
+  'Japanese',
+  'Chinese (Simplified)',
+  'Korean',
+  'Arabic',
+  'Hebrew',
+];
+
+export const READING_LEVELS: { id: ReadingLevel; label: string; prompt: string }[] = [
+  { id: 'simple', label: 'Simple', prompt: 'Use plain, everyday words and short sentences; explain any term a newcomer might not know.' },
+  { id: 'standard', label: 'Standard', prompt: 'Use clear, everyday professional language.' },
+  { id: 'technical', label: 'Technical', prompt: 'Use precise technical terminology without explaining basics.' },
+];
+
+export const TONES: { id: Tone; label: string; prompt: string }[] = [
+  { id: 'friendly', label: 'Friendly', prompt: 'Warm and encouraging, addressing the reader as "you".' },
+  { id: 'neutral', label: 'Neutral', prompt: 'Neutral and matter-of-fact.' },
+  { id: 'formal', label: 'Formal', prompt: 'Formal and impersonal, suitable for official documentation.' },
+];
+
+export const VERBOSITY_LEVELS: { id: Verbosity; label: string; prompt: string }[] = [
+  { id: 'brief', label: 'Brief', prompt: 'Keep each description to one short sentence.' },
+  { id: 'standard', label: 'Standard', prompt: 'Keep each description to two or three sentences.' },
+  { id: 'detailed', label: 'Detailed', prompt: 'Give thorough descriptions covering what to click, what to expect and why.' },
+];
+
+// Projects saved before options existed, or with fields added since, get the defaults for what's missing
+export const withDefaultOptions = (options?: Partial<GenerationOptions> | null): GenerationOptions => ({
+  ...DEFAULT_GENERATION_OPTIONS,
+  ...options,
+});
+
+export const summarizeOptions = (options: GenerationOptions): string => [
+  options.audience,
+  TONES.find(t => t.id === options.tone)?.label,
+  options.language,
+  `${VERBOSITY_LEVELS.find(v => v.id === options.verbosity)?.label} detail`,
+].filter(Boolean).join(' · ');
@@ -0,0 +1,109 @@
+import { Callout, CalloutType, Difficulty, HandoutData, HandoutSection, HandoutStep } from "../types";
+
+export const CALLOUT_TYPES: { id: CalloutType; label: string }[] = [
+  { id: 'tip', label: 'Tip' },
+  { id: 'note', label: 'Note' },
+  { id: 'warning', label: 'Warning' },
+  { id: 'danger', label: 'Danger' },
+];
+
+export const calloutLabel = (type: CalloutType): string =>
+  CALLOUT_TYPES.find(c => c.id === type)?.label || 'Note';
+
+export const DIFFICULTY_LEVELS: { id: Difficulty; label: string }[] = [
+  { id: 'easy', label: 'Easy' },
+  { id: 'medium', label: 'Medium' },
+  { id: 'hard', label: 'Hard' },
+];
+
+export const difficultyLabel = (difficulty: Difficulty): string =>
+  DIFFICULTY_LEVELS.find(d => d.id === difficulty)?.label || difficulty;
+
+const cleanList = (items?: string[]): string[] | undefined => {
+  const kept = (items || []).map(item => String(item).trim()).filter(Boolean);
+  return kept.length > 0 ? kept : undefined;
+};
+
+export const normalizeStep = ({ tips, warning, ...step }: HandoutStep): HandoutStep => {
+  // Older handouts had one warning and one tip per step, shown in that order
+  const callouts: Callout[] = [
+    ...(warning ? [{ type: 'warning' as const, text: warning }] : []),
+    ...(tips ? [{ type: 'tip' as const, text: tips }] : []),
+    ...(step.callouts || []),
+  ]
+    .map(c => ({ type: CALLOUT_TYPES.some(t => t.id === c.type) ? c.type : 'note' as const, text: String(c.text || '').trim() }))
+    .filter(c => c.text);
+  return {
+    ...step,
+    subSteps: cleanList(step.subSteps),
+    callouts: callouts.length > 0 ? callouts : undefined,
+  };
+};
+
+/**
+ * Brings handouts from older versions and raw model output into the current shape: legacy
+ * tip/warning strings become callouts, and empty lists, entries and unknown values are dropped.
+ */
+export const normalizeHandout = (data: HandoutData): HandoutData => {
+  // Sections without steps are dropped, and steps pointing at a missing section lose the reference
+  const used = new Set((data.steps || []).map(step => step.sectionId));
+  const sections = (data.sections || []).filter(section => used.has(section.id));
+  const sectionIds = new Set(sections.map(section => section.id));
+  const troubleshooting = (data.troubleshooting || []).filter(item => item.problem?.trim() || item.solution?.trim());
+  const faq = (data.faq || []).filter(item => item.question?.trim() || item.answer?.trim());
+  return {
+    ...data,
+    estimatedTime: data.estimatedTime?.trim() || undefined,
+    difficulty: DIFFICULTY_LEVELS.some(d => d.id === data.difficulty) ? data.difficulty : undefined,
+    prerequisites: cleanList(data.prerequisites),
+    materials: cleanList(data.materials),
+    sections: sections.length > 0 ? sections : undefined,
+    steps: (data.steps || []).map(step => normalizeStep(step.sectionId && !sectionIds.has(step.sectionId) ? { ...step, sectionId: undefined } : step)),
+    troubleshooting: troubleshooting.length > 0 ? troubleshooting : undefined,
+    faq: faq.length > 0 ? faq : undefined,
+  };
+};
+
+// The "time · difficulty" line under the summary
+export const handoutMeta = (data: HandoutData): { label: string; value: string }[] => [
+  ...(data.estimatedTime ? [{ label: 'Estimated time', value: data.estimatedTime }] : []),
+  ...(data.difficulty ? [{ label: 'Difficulty', value: difficultyLabel(data.difficulty) }] : []),
+];
+
+// Steps are numbered from 1 within each section, or through the whole handout when it has none
+export const numberSteps = (steps: HandoutStep[]): HandoutStep[] => {
+  let number = 0;
+  return steps.map((step, i) => {
+    number = i > 0 && step.sectionId === steps[i - 1].sectionId ? number + 1 : 1;
+    return step.stepNumber === number ? step : { ...step, stepNumber: number };
+  });
+};
+
+export interface SectionRun<T extends HandoutStep> {
+  section?: HandoutSection; // Missing for steps outside any section, including every step of an unsectioned handout
+  steps: { step: T; index: number }[]; // index is the position in data.steps
+}
+
+// Consecutive steps that share a section, in reading order
+export const sectionRuns = <T extends HandoutStep>(data: HandoutData, steps: T[]): SectionRun<T>[] => {
+  const runs: SectionRun<T>[] = [];
+  steps.forEach((step, index) => {
+    const last = runs[runs.length - 1];
+    if (last && index > 0 && steps[index - 1].sectionId === step.sectionId) {
+      last.steps.push({ step, index });
+    } else {
+      runs.push({ section: data.sections?.find(s => s.id === step.sectionId), steps: [{ step, index }] });
+    }
+  });
+  return runs;
+};
+
+// "3", or "2.3" for the third step of the second section, where the bare number would be ambiguous
+export const stepLabels = (steps: HandoutStep[]): string[] => {
+  const sectioned = steps.some(step => step.sectionId);
+  let run = 0;
+  return steps.map((step, i) => {
+    if (i === 0 || step.sectionId !== steps[i - 1].sectionId) run++;
+    return sectioned ? `${run}.${step.stepNumber}` : String(step.stepNumber);
+  });
+};
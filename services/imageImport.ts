@@ -0,0 +1,78 @@
+import { CapturedFrame } from "../types";
+
+export const IMPORTABLE_IMAGE_TYPES = ['image/png', 'image/jpeg'];
+
+// Phone photos can be 4000px+ wide; a screen recording frame rarely needs more than this
+const MAX_IMAGE_DIMENSION = 2560;
+
+export const isVideoFrame = (frame: CapturedFrame): boolean => frame.source !== 'image';
+
+// How a frame is named in the UI and in prompts: its time in the video, or its file name
+export const frameLabel = (frame: CapturedFrame): string =>
+  isVideoFrame(frame) ? frame.originalTimeFormatted : frame.fileName || 'Imported image';
+
+export const isImportableImage = (file: File): boolean => IMPORTABLE_IMAGE_TYPES.includes(file.type);
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`"${file.name}" could not be read as an image`));
+    };
+    img.src = url;
+  });
+
+// Imports are stored as JPEG, like captured video frames, so the rest of the app handles both the same way
+const imageFileToFrame = async (file: File): Promise<CapturedFrame> => {
+  const img = await loadImage(file);
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available");
+
+  // Transparent PNG areas would otherwise turn black in the JPEG
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    dataUrl: canvas.toDataURL('image/jpeg', 0.8),
+    timestamp: 0,
+    originalTimeFormatted: '',
+    source: 'image',
+    fileName: file.name,
+  };
+};
+
+/**
+ * Turns dropped, pasted or selected files into frames. Files are ordered by name so a folder of
+ * "Screenshot 2" ... "Screenshot 10" lands in the order it was taken; anything that isn't a PNG or JPEG is skipped.
+ */
+export const importImageFiles = async (selected: File[]): Promise<{ frames: CapturedFrame[]; skipped: string[] }> => {
+  // Folders picked from the OS often carry hidden files such as .DS_Store; those aren't worth reporting
+  const files = selected.filter(f => !f.name.startsWith('.'));
+  const images = files
+    .filter(isImportableImage)
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }));
+  const skipped = files.filter(f => !isImportableImage(f)).map(f => f.name);
+
+  const frames: CapturedFrame[] = [];
+  for (const file of images) {
+    try {
+      frames.push(await imageFileToFrame(file));
+    } catch (err) {
+      console.error("Image import error:", err);
+      skipped.push(file.name);
+    }
+  }
+  return { frames, skipped };
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { batchForBudget, DEFAULT_MODEL_IMAGE_SETTINGS, estimateImageTokens, ModelImage } from './modelImages';
+
+const image = (frameId: string, bytes: number, width = 300, height = 300): ModelImage => ({
+  frameId,
+  mimeType: 'image/jpeg',
+  data: 'x'.repeat(bytes),
+  width,
+  height,
+});
+
+describe('estimateImageTokens', () => {
+  it('counts Gemini images as one tile when small and per 768 px tile otherwise', () => {
+    expect(estimateImageTokens(300, 200, 'gemini')).toBe(258);
+    expect(estimateImageTokens(1536, 864, 'gemini')).toBe(4 * 258);
+    expect(estimateImageTokens(1536, 864, 'server')).toBe(4 * 258);
+  });
+
+  it('counts OpenAI-style images per 512 px tile after fitting the short side to 768 px', () => {
+    expect(estimateImageTokens(1024, 1024, 'openai')).toBe(85 + 170 * 4);
+    expect(estimateImageTokens(512, 512, 'local')).toBe(85 + 170);
+  });
+});
+
+describe('batchForBudget', () => {
+  // Four of these fit in 1 MB, five don't
+  const settings = { ...DEFAULT_MODEL_IMAGE_SETTINGS, maxRequestMB: 1 };
+  const images = Array.from({ length: 9 }, (_, i) => image(String(i), 250 * 1000));
+
+  it('keeps everything in one batch when it fits', () => {
+    expect(batchForBudget(images.slice(0, 4), settings, 'gemini')).toEqual([images.slice(0, 4)]);
+    expect(batchForBudget([], settings, 'gemini')).toEqual([]);
+  });
+
+  it('splits into batches of about the same size, in order', () => {
+    const batches = batchForBudget(images, settings, 'gemini');
+    expect(batches.map(batch => batch.length)).toEqual([3, 3, 3]);
+    expect(batches.flat()).toEqual(images);
+  });
+
+  it('splits on the token budget too', () => {
+    const large = Array.from({ length: 4 }, (_, i) => image(String(i), 10, 1536, 1536));
+    const tight = { ...DEFAULT_MODEL_IMAGE_SETTINGS, maxRequestTokens: 2000 + 2 * 4 * 258 };
+    expect(batchForBudget(large, tight, 'gemini').map(batch => batch.length)).toEqual([2, 2]);
+  });
+});
@@ -0,0 +1,151 @@
+import { CapturedFrame, ModelImageFormat, ModelImageSettings } from "../types";
+import { AIError, AIProviderId } from "./providers";
+import { loadImage } from "./annotationRenderer";
+
+export const DEFAULT_MODEL_IMAGE_SETTINGS: ModelImageSettings = {
+  maxDimension: 1536,
+  format: 'image/jpeg',
+  quality: 0.8,
+  maxRequestMB: 15,
+  maxRequestTokens: 100000,
+};
+
+export const MODEL_IMAGE_SIZES: { value: number; label: string }[] = [
+  { value: 768, label: "768 px (fastest, cheapest)" },
+  { value: 1024, label: "1024 px" },
+  { value: 1536, label: "1536 px (recommended)" },
+  { value: 2048, label: "2048 px" },
+  { value: 0, label: "Full size" },
+];
+
+export const MODEL_IMAGE_FORMATS: { id: ModelImageFormat; label: string }[] = [
+  { id: 'image/jpeg', label: "JPEG" },
+  { id: 'image/webp', label: "WebP (smaller, but not every local server reads it)" },
+];
+
+const MIN_FIT_DIMENSION = 512; // Below this, UI text in a screenshot stops being legible to the model
+const FIT_STEP = 0.75;
+const PROMPT_TOKEN_ALLOWANCE = 2000; // Instructions, frame labels and the response schema
+const BYTES_PER_MB = 1024 * 1024;
+
+export interface ModelImage {
+  frameId: string;
+  mimeType: string;
+  data: string; // Base64, without the data URL prefix
+  width: number;
+  height: number;
+}
+
+export interface PayloadEstimate {
+  bytes: number;
+  tokens: number;
+}
+
+const encodeImage = (img: HTMLImageElement, frameId: string, maxDimension: number, settings: ModelImageSettings): ModelImage => {
+  const longest = Math.max(img.naturalWidth, img.naturalHeight);
+  const scale = maxDimension > 0 ? Math.min(1, maxDimension / longest) : 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available");
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  // Browsers without a WebP encoder quietly return PNG, so the type is read back from the result
+  const dataUrl = canvas.toDataURL(settings.format, settings.quality);
+  return {
+    frameId,
+    mimeType: dataUrl.slice(dataUrl.indexOf(':') + 1, dataUrl.indexOf(';')),
+    data: dataUrl.split(',')[1],
+    width: canvas.width,
+    height: canvas.height,
+  };
+};
+
+// Gemini counts a small image as one 258-token tile and larger ones per 768 px tile. OpenAI-style servers
+// fit the image in 2048 px with the short side at most 768 px, then count 170 tokens per 512 px tile.
+export const estimateImageTokens = (width: number, height: number, provider: AIProviderId): number => {
+  if (provider === 'server' || provider === 'gemini' || provider === 'mock') {
+    if (width <= 384 && height <= 384) return 258;
+    return Math.ceil(width / 768) * Math.ceil(height / 768) * 258;
+  }
+  const fit = Math.min(1, 2048 / Math.max(width, height));
+  const shortSide = Math.min(1, 768 / (Math.min(width, height) * fit));
+  return 85 + 170 * Math.ceil((width * fit * shortSide) / 512) * Math.ceil((height * fit * shortSide) / 512);
+};
+
+// About four characters per token for English; close enough for a budget check
+export const estimateTextTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const estimatePayload = (images: ModelImage[], provider: AIProviderId, text = ''): PayloadEstimate => ({
+  bytes: images.reduce((sum, image) => sum + image.data.length, 0),
+  tokens: images.reduce((sum, image) => sum + estimateImageTokens(image.width, image.height, provider), 0)
+    + PROMPT_TOKEN_ALLOWANCE + estimateTextTokens(text),
+});
+
+const fitsBudget = (estimate: PayloadEstimate, settings: ModelImageSettings): boolean =>
+  estimate.bytes <= settings.maxRequestMB * BYTES_PER_MB && estimate.tokens <= settings.maxRequestTokens;
+
+export const formatMB = (bytes: number): string => `${(bytes / BYTES_PER_MB).toFixed(1)} MB`;
+
+/**
+ * Downscaled, recompressed copies of the frames as they should be sent to the model.
+ * The frames themselves are left untouched.
+ */
+export const encodeForModel = async (frames: CapturedFrame[], settings: ModelImageSettings): Promise<ModelImage[]> =>
+  Promise.all(frames.map(async frame => encodeImage(await loadImage(frame.dataUrl), frame.id, settings.maxDimension, settings)));
+
+/**
+ * Like encodeForModel, but for requests that need every frame at once: while the estimate is over the
+ * budget, all frames are shrunk a step further. `text` is the narration or other text sent alongside.
+ * Throws a payload error when even the smallest legible size doesn't fit.
+ */
+export const fitToRequestBudget = async (
+  frames: CapturedFrame[],
+  settings: ModelImageSettings,
+  provider: AIProviderId,
+  text = ''
+): Promise<ModelImage[]> => {
+  if (frames.length === 0) return [];
+  const loaded = await Promise.all(frames.map(frame => loadImage(frame.dataUrl)));
+  const largest = Math.max(...loaded.map(img => Math.max(img.naturalWidth, img.naturalHeight)));
+  let dimension = settings.maxDimension > 0 ? Math.min(settings.maxDimension, largest) : largest;
+
+  for (;;) {
+    const images = loaded.map((img, i) => encodeImage(img, frames[i].id, dimension, settings));
+    const estimate = estimatePayload(images, provider, text);
+    if (fitsBudget(estimate, settings)) return images;
+    if (dimension <= MIN_FIT_DIMENSION) {
+      throw new AIError(
+        'payloadTooLarge',
+        `${frames.length} frames need about ${formatMB(estimate.bytes)} and ${estimate.tokens} tokens even at ${dimension} px, over the limit of ${settings.maxRequestMB} MB and ${settings.maxRequestTokens} tokens per request.`
+      );
+    }
+    dimension = Math.max(MIN_FIT_DIMENSION, Math.round(dimension * FIT_STEP));
+  }
+};
+
+/**
+ * Splits images into consecutive batches that each fit the request budget, for tasks such as frame
+ * selection that can look at the candidates a few at a time. Batches are kept about the same size,
+ * so the last one isn't a couple of leftover frames.
+ */
+export const batchForBudget = (images: ModelImage[], settings: ModelImageSettings, provider: AIProviderId, text = ''): ModelImage[][] => {
+  const greedy: ModelImage[][] = [];
+  let current: ModelImage[] = [];
+  for (const image of images) {
+    if (current.length > 0 && !fitsBudget(estimatePayload([...current, image], provider, text), settings)) {
+      greedy.push(current);
+      current = [];
+    }
+    current.push(image);
+  }
+  if (current.length > 0) greedy.push(current);
+  if (greedy.length <= 1) return greedy;
+
+  const size = Math.ceil(images.length / greedy.length);
+  const even = Array.from({ length: Math.ceil(images.length / size) }, (_, i) => images.slice(i * size, (i + 1) * size));
+  return even.every(batch => fitsBudget(estimatePayload(batch, provider, text), settings)) ? even : greedy;
+};
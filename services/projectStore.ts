@@ -0,0 +1,249 @@
+import { CapturedFrame, Chapter, GenerationOptions, HandoutData, HandoutTranslation, ProjectSummary, TranscriptSegment, VideoClip } from "../types";
+
+const DB_NAME = 'vid-handout';
+const DB_VERSION = 1;
+
+// Summaries are kept apart from the heavy frame data and video blobs so the library can list projects cheaply
+const SUMMARY_STORE = 'projects';
+const DATA_STORE = 'projectData';
+const VIDEO_STORE = 'videos';
+
+export interface ProjectData {
+  id: string;
+  frames: CapturedFrame[];
+  transcript: TranscriptSegment[] | null;
+  chapters?: Chapter[];
+  handoutData: HandoutData | null;
+  translations?: HandoutTranslation[];
+  themeId?: string;
+  generationOptions?: GenerationOptions;
+}
+
+interface StoredClip {
+  clipId: string;
+  blob: Blob;
+  name: string;
+  type: string;
+}
+
+// One record per project. Projects saved before playlists existed have a single blob on the record itself.
+interface StoredVideos {
+  id: string;
+  clips?: StoredClip[];
+  blob?: Blob;
+  name?: string;
+  type?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(VIDEO_STORE)) db.createObjectStore(VIDEO_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+
+const newId = () => Math.random().toString(36).substr(2, 9) + Date.now().toString(36);
+
+const toStoredVideos = (id: string, videos: VideoClip[]): StoredVideos => ({
+  id,
+  clips: videos.map(v => ({ clipId: v.id, blob: v.file, name: v.file.name, type: v.file.type })),
+});
+
+// A single-video record becomes a one-clip playlist whose clip id is the project id it was saved under
+const fromStoredVideos = (stored: StoredVideos | undefined): VideoClip[] => {
+  if (!stored) return [];
+  if (stored.clips) {
+    return stored.clips.map(c => ({ id: c.clipId, file: new File([c.blob], c.name, { type: c.type }) }));
+  }
+  return stored.blob ? [{ id: stored.id, file: new File([stored.blob], stored.name || 'video', { type: stored.type || '' }) }] : [];
+};
+
+// Frames and narration saved before projects could hold several clips all belong to the first one
+const assignToFirstClip = (data: ProjectData, videos: VideoClip[]): ProjectData => {
+  const firstId = videos[0]?.id;
+  if (!firstId) return data;
+  return {
+    ...data,
+    frames: data.frames.map(f => (f.source !== 'image' && !f.videoId ? { ...f, videoId: firstId } : f)),
+    transcript: data.transcript && data.transcript.map(seg => (seg.videoId ? seg : { ...seg, videoId: firstId })),
+  };
+};
+
+// Small JPEG for the library card, so listing never has to load full frames
+const createThumbnail = (dataUrl: string): Promise<string> =>
+  new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      const scale = Math.min(1, 320 / img.naturalWidth);
+      canvas.width = Math.round(img.naturalWidth * scale);
+      canvas.height = Math.round(img.naturalHeight * scale);
+      canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    img.onerror = () => resolve('');
+    img.src = dataUrl;
+  });
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const summaries = await promisify(db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll());
+  return (summaries as ProjectSummary[]).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Projects built from images only start with no videos
+export const createProject = async (videos: VideoClip[], name?: string): Promise<ProjectSummary> => {
+  const db = await openDb();
+  const now = Date.now();
+  const first = videos[0]?.file;
+  const summary: ProjectSummary = {
+    id: newId(),
+    name: name || first?.name.replace(/\.[^.]+$/, '') || 'Untitled handout',
+    createdAt: now,
+    updatedAt: now,
+    thumbnail: '',
+    frameCount: 0,
+    stepCount: 0,
+    videoName: first?.name,
+  };
+
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE, VIDEO_STORE], 'readwrite');
+  tx.objectStore(SUMMARY_STORE).put(summary);
+  tx.objectStore(DATA_STORE).put({ id: summary.id, frames: [], transcript: null, handoutData: null } as ProjectData);
+  if (videos.length > 0) tx.objectStore(VIDEO_STORE).put(toStoredVideos(summary.id, videos));
+  await transactionDone(tx);
+  return summary;
+};
+
+// Rewrites the playlist; only called when clips are added, removed or reordered, since it copies every blob
+export const saveProjectVideos = async (id: string, videos: VideoClip[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, VIDEO_STORE], 'readwrite');
+  const summaries = tx.objectStore(SUMMARY_STORE);
+  const existing = (await promisify(summaries.get(id))) as ProjectSummary | undefined;
+  if (!existing) {
+    tx.abort();
+    return;
+  }
+  summaries.put({ ...existing, videoName: videos[0]?.file.name, updatedAt: Date.now() });
+  if (videos.length > 0) tx.objectStore(VIDEO_STORE).put(toStoredVideos(id, videos));
+  else tx.objectStore(VIDEO_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const saveProjectData = async (data: ProjectData): Promise<void> => {
+  const db = await openDb();
+  const thumbnail = data.frames[0] ? await createThumbnail(data.frames[0].dataUrl) : '';
+
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+  const summaries = tx.objectStore(SUMMARY_STORE);
+  const existing = (await promisify(summaries.get(data.id))) as ProjectSummary | undefined;
+  if (!existing) {
+    // Deleted from another tab while this one was still editing; don't resurrect it
+    tx.abort();
+    return;
+  }
+
+  summaries.put({
+    ...existing,
+    // Prefer the handout's title once there is one, unless the user renamed the project
+    name: existing.renamed || !data.handoutData?.title ? existing.name : data.handoutData.title,
+    updatedAt: Date.now(),
+    thumbnail,
+    frameCount: data.frames.length,
+    stepCount: data.handoutData?.steps.length || 0,
+  } as ProjectSummary);
+  tx.objectStore(DATA_STORE).put(data);
+  await transactionDone(tx);
+};
+
+export const loadProject = async (id: string): Promise<{ summary: ProjectSummary; data: ProjectData; videos: VideoClip[] }> => {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE, VIDEO_STORE]);
+  const [summary, data, video] = await Promise.all([
+    promisify(tx.objectStore(SUMMARY_STORE).get(id)),
+    promisify(tx.objectStore(DATA_STORE).get(id)),
+    promisify(tx.objectStore(VIDEO_STORE).get(id)),
+  ]);
+  if (!summary || !data) throw new Error("Project not found");
+
+  const videos = fromStoredVideos(video as StoredVideos | undefined);
+  return {
+    summary: summary as ProjectSummary,
+    data: assignToFirstClip(data as ProjectData, videos),
+    videos,
+  };
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SUMMARY_STORE, 'readwrite');
+  const store = tx.objectStore(SUMMARY_STORE);
+  const summary = (await promisify(store.get(id))) as ProjectSummary | undefined;
+  if (summary) store.put({ ...summary, name, renamed: true, updatedAt: Date.now() });
+  await transactionDone(tx);
+};
+
+export const duplicateProject = async (id: string): Promise<ProjectSummary> => {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE, VIDEO_STORE], 'readwrite');
+  const [summary, data, video] = await Promise.all([
+    promisify(tx.objectStore(SUMMARY_STORE).get(id)),
+    promisify(tx.objectStore(DATA_STORE).get(id)),
+    promisify(tx.objectStore(VIDEO_STORE).get(id)),
+  ]);
+  if (!summary || !data) throw new Error("Project not found");
+
+  const now = Date.now();
+  const copy: ProjectSummary = {
+    ...(summary as ProjectSummary),
+    id: newId(),
+    name: `${(summary as ProjectSummary).name} (copy)`,
+    renamed: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+  tx.objectStore(SUMMARY_STORE).put(copy);
+  tx.objectStore(DATA_STORE).put({ ...(data as ProjectData), id: copy.id });
+  // Clip ids are kept, so the copied frames still point at their clips
+  if (video) tx.objectStore(VIDEO_STORE).put(toStoredVideos(copy.id, fromStoredVideos(video as StoredVideos)));
+  await transactionDone(tx);
+  return copy;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE, VIDEO_STORE], 'readwrite');
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  tx.objectStore(DATA_STORE).delete(id);
+  tx.objectStore(VIDEO_STORE).delete(id);
+  await transactionDone(tx);
+};
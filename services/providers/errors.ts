@@ -0,0 +1,114 @@
+export type AIErrorKind =
+  | 'quota' // Rate limited or out of credit (HTTP 429)
+  | 'auth' // Missing, wrong or unauthorised API key
+  | 'safety' // The model or provider refused the content
+  | 'invalidOutput' // The reply couldn't be parsed or didn't match the schema, even after repair and a re-ask
+  | 'payloadTooLarge' // Too many or too large images for one request
+  | 'network' // The server couldn't be reached
+  | 'server' // The provider failed on its side (HTTP 5xx)
+  | 'rejected' // Any other refused request, e.g. an unknown model name
+  | 'cancelled';
+
+// What the error screen shows for each kind; the error's own message adds the provider's detail
+export const AI_ERROR_DESCRIPTIONS: Record<AIErrorKind, { title: string; hint: string }> = {
+  quota: {
+    title: "Usage Limit Reached",
+    hint: "The AI provider is rate limiting requests or your quota is used up. Wait a minute and try again, or check the billing and limits of your account.",
+  },
+  auth: {
+    title: "API Key Rejected",
+    hint: "The AI provider didn't accept the API key. Check the key and model in Settings.",
+  },
+  safety: {
+    title: "Blocked by Content Filter",
+    hint: "The AI provider declined to process these frames or this text. Redact or remove the frames that may trigger the filter and try again.",
+  },
+  invalidOutput: {
+    title: "Unusable Response",
+    hint: "The model kept returning output that doesn't fit the handout format. Trying again often helps; a larger model is more reliable.",
+  },
+  payloadTooLarge: {
+    title: "Request Too Large",
+    hint: "The frames don't fit in one request, even shrunk. Remove some frames, split the recording into chapters, or adjust the image limits in Settings.",
+  },
+  network: {
+    title: "Connection Problem",
+    hint: "The AI provider couldn't be reached. Check your internet connection, or that your local model server is running.",
+  },
+  server: {
+    title: "Provider Unavailable",
+    hint: "The AI provider is having problems right now. Try again in a few minutes.",
+  },
+  rejected: {
+    title: "Request Rejected",
+    hint: "The AI provider refused the request. Check the model name and endpoint in Settings.",
+  },
+  cancelled: {
+    title: "Cancelled",
+    hint: "The request was cancelled.",
+  },
+};
+
+// Worth trying again after a pause; everything else needs the user to change something first
+const TRANSIENT_KINDS: AIErrorKind[] = ['quota', 'network', 'server'];
+
+export class AIError extends Error {
+  kind: AIErrorKind;
+  status?: number;
+  retryAfterMs?: number; // From a Retry-After header, when the provider sends one
+
+  constructor(kind: AIErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get transient(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+export const isCancelled = (error: unknown): boolean =>
+  (error instanceof AIError && error.kind === 'cancelled') || (error instanceof Error && error.name === 'AbortError');
+
+export const cancelledError = () => new AIError('cancelled', "The request was cancelled.");
+
+// Providers report oversized requests as 400s with a message rather than a 413
+const TOO_LARGE_PATTERN = /too large|exceeds? the (maximum|limit)|request payload size|maximum context length|context window|too many (images|tokens)/i;
+const AUTH_PATTERN = /api key|api_key|unauthori[sz]ed|permission denied|invalid authentication/i;
+
+export const errorFromStatus = (status: number, detail: string, retryAfterMs?: number): AIError => {
+  const message = detail ? `${status}: ${detail}` : `HTTP ${status}`;
+  if (status === 401 || status === 403) return new AIError('auth', `The API key was rejected (${message})`, { status });
+  if (status === 413 || TOO_LARGE_PATTERN.test(detail)) return new AIError('payloadTooLarge', `The request was too large (${message})`, { status });
+  if (status === 429) return new AIError('quota', `Rate limit or quota exceeded (${message})`, { status, retryAfterMs });
+  if (status === 400 && AUTH_PATTERN.test(detail)) return new AIError('auth', `The API key was rejected (${message})`, { status });
+  if (status >= 500) return new AIError('server', `The AI provider failed (${message})`, { status, retryAfterMs });
+  return new AIError('rejected', `The AI provider rejected the request (${message})`, { status });
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Turns whatever a provider threw into an AIError: SDK errors carrying an HTTP status, failed fetches
+ * and aborts. Errors that are already typed pass through unchanged.
+ */
+export const toAIError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+  if (isCancelled(error)) return cancelledError();
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+  if (status) return errorFromStatus(status, message);
+  // fetch rejects with a TypeError when the server can't be reached at all
+  if (error instanceof TypeError) return new AIError('network', `Could not reach the AI provider (${message})`);
+  return new AIError('server', message);
+};
@@ -0,0 +1,57 @@
+import { FinishReason, GoogleGenAI } from "@google/genai";
+import { AIProvider, AISettings, ContentPart } from "./types";
+import { AIError } from "./errors";
+import { parseModelJson } from "./responseValidation";
+
+const BLOCKED_FINISH_REASONS: string[] = [FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII, FinishReason.RECITATION];
+
+const toGeminiPart = (part: ContentPart) => {
+  if (part.type === 'text') return { text: part.text };
+  return { inlineData: { mimeType: part.mimeType, data: part.data } };
+};
+
+export const createGeminiProvider = (settings: AISettings): AIProvider => {
+  // The app's own key lives on the server; calling Gemini from the browser needs the user's key
+  if (!settings.apiKey) throw new AIError('auth', "Enter your Gemini API key in Settings, or use the app server.");
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+
+  return {
+    id: 'gemini',
+    model: settings.model,
+    generateJson: async <T,>({ parts, schema, systemInstruction, signal, onUsage }: Parameters<AIProvider['generateJson']>[0]) => {
+      const response = await ai.models.generateContent({
+        model: settings.model,
+        contents: { parts: parts.map(toGeminiPart) },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          systemInstruction,
+          abortSignal: signal,
+        },
+      });
+
+      // Blocked and unusable replies are billed too, so usage is reported first
+      const usage = response.usageMetadata;
+      if (usage) {
+        onUsage?.({
+          inputTokens: usage.promptTokenCount || 0,
+          outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+          model: response.modelVersion || settings.model,
+        });
+      }
+
+      const blockReason = response.promptFeedback?.blockReason;
+      if (blockReason) throw new AIError('safety', `Gemini blocked the request (${blockReason})`);
+      const finishReason = response.candidates?.[0]?.finishReason;
+      if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+        throw new AIError('safety', `Gemini stopped its reply (${finishReason})`);
+      }
+
+      const text = response.text;
+      if (!text) throw new AIError('invalidOutput', "Gemini returned an empty reply");
+
+      // A reply cut off at the token limit is still parsed as far as it goes
+      return parseModelJson(text) as T;
+    },
+  };
+};
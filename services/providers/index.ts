@@ -0,0 +1,59 @@
+import { AIProvider, AIProviderId, AISettings } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createMockProvider } from "./mockProvider";
+import { createServerProvider } from "./serverProvider";
+import { withRetries } from "./retryingProvider";
+
+export * from "./types";
+export * from "./errors";
+
+export const PROVIDER_OPTIONS: { id: AIProviderId; label: string; description: string; defaults: Omit<AISettings, 'provider'> }[] = [
+  {
+    id: 'server',
+    label: 'App server',
+    description: "Requests go through this app's own server, which holds the Gemini API key. No key is stored in the browser.",
+    defaults: { model: '', endpoint: '', apiKey: '' },
+  },
+  {
+    id: 'gemini',
+    label: 'Google Gemini',
+    description: 'Calls Google directly from the browser with your own API key.',
+    defaults: { model: 'gemini-2.5-flash', endpoint: '', apiKey: '' },
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    description: 'OpenAI or any gateway that speaks the chat completions API.',
+    defaults: { model: 'gpt-4o-mini', endpoint: 'https://api.openai.com/v1', apiKey: '' },
+  },
+  {
+    id: 'local',
+    label: 'Local model server',
+    description: 'Ollama or llama.cpp running on your machine. Screenshots never leave your network.',
+    defaults: { model: 'llava', endpoint: 'http://localhost:11434/v1', apiKey: '' },
+  },
+  {
+    id: 'mock',
+    label: 'Mock (offline)',
+    description: 'Returns canned results instantly. For demos and testing without any model.',
+    defaults: { model: 'mock', endpoint: '', apiKey: '' },
+  },
+];
+
+const createBaseProvider = (settings: AISettings): AIProvider => {
+  switch (settings.provider) {
+    case 'server':
+      return createServerProvider(settings);
+    case 'gemini':
+      return createGeminiProvider(settings);
+    case 'openai':
+    case 'local':
+      return createOpenAICompatibleProvider(settings);
+    case 'mock':
+      return createMockProvider(settings);
+  }
+};
+
+// Every provider gets the same validation, retries and typed errors
+export const createProvider = (settings: AISettings): AIProvider => withRetries(createBaseProvider(settings));
@@ -0,0 +1,103 @@
+import { HandoutData, HandoutStep } from "../../types";
+import { AIProvider, AISettings, ContentPart, JsonRequest } from "./types";
+import { cancelledError } from "./errors";
+
+const MOCK_LATENCY_MS = 600;
+
+const cannedHandout = (frameIds: string[]): HandoutData => ({
+  title: "Sample Handout (Offline Mock)",
+  summary: "This handout was produced by the mock AI provider. It lets you try the full capture, edit and print flow without sending anything to a model.",
+  estimatedTime: "5 minutes",
+  difficulty: 'easy',
+  prerequisites: ["Access to the application shown in the video"],
+  steps: (frameIds.length > 0 ? frameIds : ['']).map((frameId, index) => ({
+    stepNumber: index + 1,
+    title: `Perform action ${index + 1}`,
+    description: "Describe what the user should do at this point. Replace this placeholder text with the real instruction.",
+    subSteps: index === 0 ? ["Sub-steps break an action into smaller parts.", "They are lettered under the description."] : undefined,
+    callouts: index === 0
+      ? [{ type: 'tip', text: "Tips like this one appear in a coloured box under the step." }, { type: 'note', text: "Notes, warnings and danger callouts each have their own colour." }]
+      : undefined,
+    frameIds: frameId ? [frameId] : [],
+  })),
+  faq: [{ question: "Can I change this text?", answer: "Yes. Click Edit to change any part of the handout." }],
+});
+
+const cannedStep = (): Pick<HandoutStep, 'title' | 'description' | 'callouts'> => ({
+  title: "Perform the revised action",
+  description: "This is a rewritten step from the mock AI provider. A real model would rework the wording using the screenshots and your instruction.",
+  callouts: [{ type: 'tip', text: "Rewritten tips show up here." }],
+});
+
+const cannedHeader = () => ({
+  title: "Sample Handout (Revised Mock)",
+  summary: "A rewritten summary from the mock AI provider.",
+});
+
+const embeddedHandout = (parts: ContentPart[]): HandoutData => {
+  const text = parts.map(p => (p.type === 'text' ? p.text : '')).join('\n');
+  return JSON.parse(text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1)) as HandoutData;
+};
+
+// Echo the handout JSON embedded in the prompt with its wording marked as revised, keeping frame IDs intact
+const cannedRewrite = (parts: ContentPart[]): HandoutData => {
+  const data = embeddedHandout(parts);
+  return {
+    ...data,
+    summary: `${data.summary} (revised)`,
+    steps: data.steps.map(step => ({ ...step, description: `Revised: ${step.description}` })),
+  };
+};
+
+const cannedTranslation = (parts: ContentPart[]): HandoutData => {
+  const data = embeddedHandout(parts);
+  return {
+    ...data,
+    title: `[Translated] ${data.title}`,
+    steps: data.steps.map(step => ({ ...step, title: `[Translated] ${step.title}` })),
+  };
+};
+
+// Spread picks evenly across the candidates, like a model choosing a representative subset
+const cannedSelection = (count: number) => {
+  const picks = Math.min(count, 6);
+  const selectedIndices = Array.from({ length: picks }, (_, i) => Math.floor((i * count) / picks));
+  return { selectedIndices };
+};
+
+const cannedTranscript = () => ({
+  segments: [
+    { start: 0, end: 4, text: "In this video I'll show you how to complete the task." },
+    { start: 4, end: 9, text: "First, open the settings page and find the option we need." },
+  ],
+});
+
+/**
+ * Returns fixed answers shaped like real model output, so the whole app can be exercised offline.
+ */
+export const createMockProvider = (settings: AISettings): AIProvider => ({
+  id: 'mock',
+  model: settings.model || 'mock',
+  generateJson: async <T,>({ task, parts, signal }: JsonRequest) => {
+    await new Promise(r => setTimeout(r, MOCK_LATENCY_MS));
+    if (signal?.aborted) throw cancelledError();
+
+    const images = parts.filter(p => p.type === 'image');
+    switch (task) {
+      case 'handout':
+        return cannedHandout(images.map(p => (p.type === 'image' && p.frameId) || '').filter(Boolean)) as T;
+      case 'stepRewrite':
+        return cannedStep() as T;
+      case 'headerRewrite':
+        return cannedHeader() as T;
+      case 'handoutRewrite':
+        return cannedRewrite(parts) as T;
+      case 'translation':
+        return cannedTranslation(parts) as T;
+      case 'frameSelection':
+        return cannedSelection(images.length) as T;
+      case 'transcription':
+        return cannedTranscript() as T;
+    }
+  },
+});
@@ -0,0 +1,85 @@
+import { Schema } from "@google/genai";
+import { AIProvider, AISettings, ContentPart } from "./types";
+import { AIError, errorFromStatus, parseRetryAfter } from "./errors";
+import { parseModelJson } from "./responseValidation";
+
+// Gemini's schema dialect uses upper-case OpenAPI type names; JSON Schema wants lower-case
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.minimum !== undefined) result.minimum = schema.minimum;
+  if (schema.maximum !== undefined) result.maximum = schema.maximum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+const toChatPart = (part: ContentPart) => {
+  switch (part.type) {
+    case 'text':
+      return { type: 'text', text: part.text };
+    case 'image':
+      return { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } };
+    case 'audio':
+      return { type: 'input_audio', input_audio: { data: part.data, format: part.mimeType.split('/')[1] || 'wav' } };
+  }
+};
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API: OpenAI itself, Azure-style gateways,
+ * and local servers such as Ollama (`/v1`) or llama.cpp's `llama-server`.
+ */
+export const createOpenAICompatibleProvider = (settings: AISettings): AIProvider => {
+  const baseUrl = settings.endpoint.replace(/\/+$/, '');
+
+  return {
+    id: settings.provider,
+    model: settings.model,
+    generateJson: async <T,>({ task, parts, schema, systemInstruction, signal, onUsage }: Parameters<AIProvider['generateJson']>[0]) => {
+      const messages: unknown[] = [];
+      if (systemInstruction) messages.push({ role: 'system', content: systemInstruction });
+      messages.push({ role: 'user', content: parts.map(toChatPart) });
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: settings.model,
+          messages,
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: task, schema: toJsonSchema(schema) },
+          },
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw errorFromStatus(response.status, detail || response.statusText, parseRetryAfter(response.headers.get('Retry-After')));
+      }
+
+      const json = await response.json();
+      if (json.usage) {
+        onUsage?.({ inputTokens: json.usage.prompt_tokens || 0, outputTokens: json.usage.completion_tokens || 0, model: json.model || settings.model });
+      }
+      const choice = json.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') throw new AIError('safety', "The model server's content filter blocked the reply");
+      if (choice?.message?.refusal) throw new AIError('safety', `The model refused: ${choice.message.refusal}`);
+      const text: string | undefined = choice?.message?.content;
+      if (!text) throw new AIError('invalidOutput', "The model server returned an empty reply");
+
+      return parseModelJson(text) as T;
+    },
+  };
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Schema, Type } from '@google/genai';
+import { checkSchema, parseModelJson } from './responseValidation';
+import { AIError } from './errors';
+
+const STEP_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    stepNumber: { type: Type.INTEGER },
+    difficulty: { type: Type.STRING, enum: ['easy', 'medium', 'hard'] },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['title', 'stepNumber'],
+};
+
+describe('parseModelJson', () => {
+  it('parses plain JSON', () => {
+    expect(parseModelJson('{"a": 1}')).toEqual({ a: 1 });
+  });
+
+  it('strips a markdown fence and prose around the JSON', () => {
+    expect(parseModelJson('```json\n{"a": [1, 2]}\n```')).toEqual({ a: [1, 2] });
+    expect(parseModelJson('Here you go: {"a": 1} Hope this helps!')).toEqual({ a: 1 });
+  });
+
+  it('drops trailing commas', () => {
+    expect(parseModelJson('{"a": [1, 2,], "b": 3,}')).toEqual({ a: [1, 2], b: 3 });
+  });
+
+  it('closes a reply cut off by the token limit', () => {
+    expect(parseModelJson('{"steps": [{"title": "Open the app"}, {"title": "Cli')).toEqual({
+      steps: [{ title: 'Open the app' }, { title: 'Cli' }],
+    });
+    // Cut off inside a key: the incomplete entry is dropped
+    expect(parseModelJson('{"steps": [{"title": "Open"}, {"tit')).toEqual({ steps: [{ title: 'Open' }] });
+  });
+
+  it('rejects replies without JSON as invalid output', () => {
+    expect(() => parseModelJson('Sorry, I cannot help with that.')).toThrow(AIError);
+    expect(() => parseModelJson('Sorry, I cannot help with that.')).toThrow(expect.objectContaining({ kind: 'invalidOutput' }));
+  });
+});
+
+describe('checkSchema', () => {
+  it('accepts a matching value unchanged', () => {
+    const value = { title: 'Open', stepNumber: 1, difficulty: 'easy', tags: ['a'] };
+    expect(checkSchema(value, STEP_SCHEMA)).toEqual({ value, problems: [] });
+  });
+
+  it('repairs numbers sent as strings, enum case and single values for lists', () => {
+    const check = checkSchema({ title: 'Open', stepNumber: '2', difficulty: 'Hard', tags: 'setup' }, STEP_SCHEMA);
+    expect(check.problems).toEqual([]);
+    expect(check.value).toEqual({ title: 'Open', stepNumber: 2, difficulty: 'hard', tags: ['setup'] });
+  });
+
+  it('rounds integers', () => {
+    expect(checkSchema({ title: 'Open', stepNumber: 2.6 }, STEP_SCHEMA).value).toEqual({ title: 'Open', stepNumber: 3 });
+  });
+
+  it('drops unusable optional fields and reports them', () => {
+    const check = checkSchema({ title: 'Open', stepNumber: 1, difficulty: 'impossible', extra: null }, STEP_SCHEMA);
+    expect(check.value).toEqual({ title: 'Open', stepNumber: 1, extra: null });
+    expect(check.problems).toEqual(['reply.difficulty should be one of easy, medium, hard']);
+  });
+
+  it('fails when a required field is missing', () => {
+    const check = checkSchema({ title: 'Open' }, STEP_SCHEMA);
+    expect(check.value).toBeUndefined();
+    expect(check.problems).toEqual(['reply is missing "stepNumber"']);
+  });
+
+  it('drops list entries outside the bounds', () => {
+    const schema: Schema = { type: Type.ARRAY, items: { type: Type.INTEGER, minimum: 0, maximum: 3 } };
+    const check = checkSchema([0, 3, 7, -1], schema);
+    expect(check.value).toEqual([0, 3]);
+    expect(check.problems).toEqual(['reply[2] should be at most 3', 'reply[3] should be at least 0']);
+  });
+});
@@ -0,0 +1,142 @@
+import { Schema, Type } from "@google/genai";
+import { AIError } from "./errors";
+
+// Smaller local models sometimes wrap JSON in a markdown fence despite response_format
+const stripCodeFence = (text: string): string => {
+  const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return match ? match[1] : text;
+};
+
+// Closes whatever a truncated reply left open: the current string, then every object and array
+const closeJson = (text: string): string => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const char of text) {
+    if (escaped) escaped = false;
+    else if (inString && char === '\\') escaped = true;
+    else if (char === '"') inString = !inString;
+    else if (inString) continue;
+    else if (char === '{') stack.push('}');
+    else if (char === '[') stack.push(']');
+    else if (char === '}' || char === ']') stack.pop();
+  }
+  let result = inString ? `${text}"` : text;
+  result = result.replace(/[\s,]+$/, '');
+  if (result.endsWith(':')) result += ' null';
+  return result + stack.reverse().join('');
+};
+
+const MAX_TRUNCATION_STEPS = 50;
+
+/**
+ * Parses a model reply as JSON, repairing the usual defects: a markdown fence, prose around the
+ * JSON, trailing commas, and output cut off mid-way by a token limit. Anything that still doesn't
+ * parse is an invalid-output error.
+ */
+export const parseModelJson = (text: string): unknown => {
+  const stripped = stripCodeFence(text).trim();
+  try {
+    return JSON.parse(stripped);
+  } catch {
+    // Repaired below
+  }
+
+  const start = stripped.search(/[{[]/);
+  if (start === -1) throw new AIError('invalidOutput', "The model's reply contained no JSON.");
+  const body = stripped.slice(start).replace(/,\s*([}\]])/g, '$1');
+  try {
+    return JSON.parse(body.slice(0, Math.max(body.lastIndexOf('}'), body.lastIndexOf(']')) + 1));
+  } catch {
+    // Not just prose after the JSON; treat it as truncated
+  }
+
+  // Closing the brackets is enough when the reply stops between values; when it stops inside a key
+  // or a number, back up to the previous comma and drop the incomplete entry
+  let candidate = body;
+  for (let i = 0; i < MAX_TRUNCATION_STEPS; i++) {
+    try {
+      return JSON.parse(closeJson(candidate));
+    } catch {
+      const comma = candidate.lastIndexOf(',');
+      if (comma === -1) break;
+      candidate = candidate.slice(0, comma);
+    }
+  }
+  throw new AIError('invalidOutput', "The model's reply was not valid JSON and could not be repaired.");
+};
+
+export interface SchemaCheck {
+  value: unknown; // Undefined when the value is unusable, so whatever contains it is invalid too
+  problems: string[];
+}
+
+/**
+ * Checks a parsed reply against the request schema and repairs what can be repaired safely:
+ * numbers and booleans sent as strings, enum values in the wrong case, a single value where a list
+ * was expected, and nulls in optional fields. Unusable list entries and optional fields are dropped
+ * and reported as problems, so the caller can decide whether the result is good enough or to re-ask.
+ */
+export const checkSchema = (value: unknown, schema: Schema, path = 'reply'): SchemaCheck => {
+  const problems: string[] = [];
+  const fail = (problem: string): SchemaCheck => ({ value: undefined, problems: [...problems, `${path} ${problem}`] });
+
+  switch (schema.type) {
+    case Type.STRING: {
+      let text = value;
+      if (typeof text === 'number' || typeof text === 'boolean') text = String(text);
+      if (typeof text !== 'string') return fail("should be text");
+      if (schema.enum) {
+        const match = schema.enum.find(option => option.toLowerCase() === (text as string).trim().toLowerCase());
+        if (!match) return fail(`should be one of ${schema.enum.join(', ')}`);
+        text = match;
+      }
+      return { value: text, problems };
+    }
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) return fail("should be a number");
+      if (schema.minimum !== undefined && number < schema.minimum) return fail(`should be at least ${schema.minimum}`);
+      if (schema.maximum !== undefined && number > schema.maximum) return fail(`should be at most ${schema.maximum}`);
+      return { value: schema.type === Type.INTEGER ? Math.round(number) : number, problems };
+    }
+    case Type.BOOLEAN: {
+      if (typeof value === 'boolean') return { value, problems };
+      if (value === 'true' || value === 'false') return { value: value === 'true', problems };
+      return fail("should be true or false");
+    }
+    case Type.ARRAY: {
+      if (value === null || value === undefined) return fail("is missing");
+      const items = Array.isArray(value) ? value : [value];
+      if (!schema.items) return { value: items, problems };
+      const kept: unknown[] = [];
+      items.forEach((item, index) => {
+        const check = checkSchema(item, schema.items!, `${path}[${index}]`);
+        problems.push(...check.problems);
+        if (check.value !== undefined) kept.push(check.value);
+      });
+      return { value: kept, problems };
+    }
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail("should be an object");
+      const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        const required = schema.required?.includes(key);
+        if (result[key] === null || result[key] === undefined) {
+          delete result[key];
+          if (required) return fail(`is missing "${key}"`);
+          continue;
+        }
+        const check = checkSchema(result[key], propertySchema, `${path}.${key}`);
+        problems.push(...check.problems);
+        if (check.value !== undefined) result[key] = check.value;
+        else if (required) return { value: undefined, problems };
+        else delete result[key];
+      }
+      return { value: result, problems };
+    }
+    default:
+      return { value, problems };
+  }
+};
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Schema, Type } from '@google/genai';
+import { withRetries } from './retryingProvider';
+import { AIError } from './errors';
+import { AIProvider, JsonRequest } from './types';
+
+const SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: { selectedIndices: { type: Type.ARRAY, items: { type: Type.INTEGER, minimum: 0, maximum: 3 } } },
+  required: ['selectedIndices'],
+};
+
+const request = (signal?: AbortSignal): JsonRequest => ({
+  task: 'frameSelection',
+  parts: [{ type: 'text', text: 'Pick frames' }],
+  schema: SCHEMA,
+  signal,
+});
+
+// A provider that gives each reply in turn, throwing the ones that are errors
+const scriptedProvider = (replies: unknown[]) => {
+  const requests: JsonRequest[] = [];
+  const provider: AIProvider = {
+    id: 'mock',
+    model: 'mock',
+    generateJson: async <T,>(req: JsonRequest) => {
+      requests.push(req);
+      const reply = replies[requests.length - 1];
+      if (reply instanceof Error) throw reply;
+      return reply as T;
+    },
+  };
+  return { provider: withRetries(provider), requests };
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('withRetries', () => {
+  it('returns a valid reply as is', async () => {
+    const { provider, requests } = scriptedProvider([{ selectedIndices: [0, 2] }]);
+    await expect(provider.generateJson(request())).resolves.toEqual({ selectedIndices: [0, 2] });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('retries transient errors after the Retry-After delay', async () => {
+    vi.useFakeTimers();
+    const { provider, requests } = scriptedProvider([
+      new AIError('quota', 'Rate limited', { retryAfterMs: 5000 }),
+      { selectedIndices: [1] },
+    ]);
+    const result = provider.generateJson(request());
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(requests).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual({ selectedIndices: [1] });
+    expect(requests).toHaveLength(2);
+  });
+
+  it('gives up on transient errors after four attempts', async () => {
+    const outage = new AIError('server', 'Unavailable', { retryAfterMs: 0 });
+    const { provider, requests } = scriptedProvider([outage, outage, outage, outage, { selectedIndices: [0] }]);
+    await expect(provider.generateJson(request())).rejects.toBe(outage);
+    expect(requests).toHaveLength(4);
+  });
+
+  it("doesn't retry errors the user has to fix", async () => {
+    const { provider, requests } = scriptedProvider([new AIError('auth', 'Bad key'), { selectedIndices: [0] }]);
+    await expect(provider.generateJson(request())).rejects.toMatchObject({ kind: 'auth' });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('asks again once with the problems when the reply is unusable', async () => {
+    const { provider, requests } = scriptedProvider([{ picks: [1] }, { selectedIndices: [3] }]);
+    await expect(provider.generateJson(request())).resolves.toEqual({ selectedIndices: [3] });
+    expect(requests).toHaveLength(2);
+    const reask = requests[1].parts[requests[1].parts.length - 1];
+    expect(reask.type === 'text' && reask.text).toContain('reply is missing "selectedIndices"');
+  });
+
+  it('keeps a partly valid reply when the re-ask does no better', async () => {
+    const { provider } = scriptedProvider([{ selectedIndices: [1, 9] }, { selectedIndices: 'none' }]);
+    await expect(provider.generateJson(request())).resolves.toEqual({ selectedIndices: [1] });
+  });
+
+  it('fails with invalid output when neither reply is usable', async () => {
+    const { provider } = scriptedProvider([{}, {}]);
+    await expect(provider.generateJson(request())).rejects.toMatchObject({ kind: 'invalidOutput' });
+  });
+
+  it('stops waiting for a retry when cancelled', async () => {
+    const controller = new AbortController();
+    const { provider, requests } = scriptedProvider([new AIError('quota', 'Rate limited', { retryAfterMs: 60000 })]);
+    const result = provider.generateJson(request(controller.signal));
+    controller.abort();
+    await expect(result).rejects.toMatchObject({ kind: 'cancelled' });
+    expect(requests).toHaveLength(1);
+  });
+});
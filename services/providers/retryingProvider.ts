@@ -0,0 +1,84 @@
+import { AIProvider, JsonRequest } from "./types";
+import { AIError, cancelledError, toAIError } from "./errors";
+import { checkSchema } from "./responseValidation";
+
+const MAX_ATTEMPTS = 4; // Per request, for rate limits, outages and dropped connections
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+const MAX_REPORTED_PROBLEMS = 8; // Listed in a re-ask; the model doesn't need every instance of the same mistake
+
+// Resolves after `ms`, or rejects as soon as the request is cancelled
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Exponential backoff with full jitter, so parallel requests don't retry in lockstep
+const backoffDelay = (attempt: number, error: AIError): number =>
+  error.retryAfterMs ?? Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+
+const sendWithBackoff = async (provider: AIProvider, request: JsonRequest): Promise<unknown> => {
+  for (let attempt = 0; ; attempt++) {
+    if (request.signal?.aborted) throw cancelledError();
+    try {
+      return await provider.generateJson<unknown>(request);
+    } catch (err) {
+      const error = toAIError(err);
+      if (request.signal?.aborted) throw cancelledError();
+      if (!error.transient || attempt + 1 >= MAX_ATTEMPTS) throw error;
+      console.warn(`${provider.id} request failed (${error.message}); retrying`);
+      await wait(backoffDelay(attempt, error), request.signal);
+    }
+  }
+};
+
+const reaskPart = (problems: string[]) => ({
+  type: 'text' as const,
+  text: `Your previous reply could not be used: ${problems.slice(0, MAX_REPORTED_PROBLEMS).join('; ')}.
+  Reply again with the complete JSON, matching the schema exactly.`,
+});
+
+/**
+ * Wraps a provider so every reply is checked against the request schema and failures are handled in
+ * one place: transient errors are retried with exponential backoff, unparseable or invalid output is
+ * repaired where possible and otherwise asked for once more, and all errors come out as AIError.
+ */
+export const withRetries = (provider: AIProvider): AIProvider => ({
+  ...provider,
+  generateJson: async <T,>(request: JsonRequest) => {
+    let best: unknown; // Usable but with entries dropped, kept in case the re-ask does no better
+    let bestProblems = Infinity;
+    let problems: string[] = [];
+
+    for (let round = 0; round < 2; round++) {
+      const current = round === 0 ? request : { ...request, parts: [...request.parts, reaskPart(problems)] };
+      try {
+        const check = checkSchema(await sendWithBackoff(provider, current), request.schema);
+        if (check.value !== undefined && check.problems.length === 0) return check.value as T;
+        if (check.value !== undefined && check.problems.length < bestProblems) {
+          best = check.value;
+          bestProblems = check.problems.length;
+        }
+        problems = check.problems;
+      } catch (err) {
+        const error = toAIError(err);
+        if (error.kind === 'cancelled' || (error.kind !== 'invalidOutput' && best === undefined)) throw error;
+        if (error.kind === 'invalidOutput') problems = [error.message];
+        else break;
+      }
+    }
+
+    // A reply with some entries dropped beats failing outright
+    if (best !== undefined) return best as T;
+    throw new AIError('invalidOutput', `The model's reply couldn't be used, even when asked again (${problems.slice(0, MAX_REPORTED_PROBLEMS).join('; ')})`);
+  },
+});
@@ -0,0 +1,40 @@
+import { AIProvider, AISettings, JsonRequest } from "./types";
+import { AIError, AIErrorKind, errorFromStatus, parseRetryAfter } from "./errors";
+
+const API_BASE = '/api';
+
+/**
+ * Sends requests to this app's own server (server/index.ts), which holds the Gemini API key.
+ * Only the task's inputs are posted: the server builds the prompt and schema from them itself, so a re-ask
+ * after an unusable reply simply sends the same inputs again. The server reports failures with the same
+ * error kinds the app uses, so they come back typed.
+ */
+export const createServerProvider = (settings: AISettings): AIProvider => ({
+  id: 'server',
+  model: settings.model || 'server',
+  generateJson: async <T,>({ task, input, signal, onUsage }: JsonRequest) => {
+    if (!input) throw new AIError('rejected', `The app server only runs the app's own tasks; no input was given for "${task}".`);
+    const response = await fetch(`${API_BASE}/ai/${task}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ input }),
+      signal,
+    });
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+      const error: { kind?: AIErrorKind; message?: string } | undefined = body?.error;
+      if (error?.kind && error.message) throw new AIError(error.kind, error.message, { status: response.status, retryAfterMs });
+      // No JSON body: the server isn't running, or a proxy in front of it answered
+      if (response.status === 502 || response.status === 504) {
+        throw new AIError('network', `Could not reach the app server (${response.status}). Start it with \`npm run server\`.`, { status: response.status });
+      }
+      throw errorFromStatus(response.status, response.statusText, retryAfterMs);
+    }
+    if (!body || !('data' in body)) throw new AIError('invalidOutput', "The app server returned an empty reply");
+    if (body.usage) onUsage?.({ ...body.usage, model: body.model });
+
+    return body.data as T;
+  },
+});
@@ -0,0 +1,44 @@
+import { Schema } from "@google/genai";
+import type { TaskInput } from "../taskPrompts";
+
+export type AIProviderId = 'server' | 'gemini' | 'openai' | 'local' | 'mock';
+
+export interface AISettings {
+  provider: AIProviderId;
+  model: string;
+  endpoint: string; // Base URL for OpenAI-compatible and local servers; ignored by the others
+  apiKey: string;
+}
+
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data: string; frameId?: string; width?: number; height?: number }
+  | { type: 'audio'; mimeType: string; data: string };
+
+// What the request is for. Real providers only use it for labelling; the mock provider uses it to pick a canned answer.
+export type AITask = 'handout' | 'stepRewrite' | 'headerRewrite' | 'handoutRewrite' | 'translation' | 'frameSelection' | 'transcription';
+
+// Tokens a reply was billed for, as the provider reports them
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  model?: string; // The model that actually answered, when the provider says
+}
+
+export interface JsonRequest {
+  task: AITask;
+  parts: ContentPart[];
+  // Response schema in the OpenAPI subset used by Gemini; other providers convert it to JSON Schema
+  schema: Schema;
+  systemInstruction?: string;
+  // What the prompt was built from; the app server builds its own prompt from this instead of taking `parts`
+  input?: TaskInput;
+  signal?: AbortSignal; // Cancels the request, including any retries still waiting
+  onUsage?: (usage: TokenUsage) => void; // Called for every reply received, retries included
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  model: string;
+  generateJson: <T>(request: JsonRequest) => Promise<T>;
+}
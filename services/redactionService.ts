@@ -0,0 +1,150 @@
+import { createWorker, Line } from "tesseract.js";
+import { Annotation, CapturedFrame, RedactionCandidate, RedactionPattern } from "../types";
+
+export const BUILT_IN_PATTERNS: RedactionPattern[] = [
+  {
+    id: 'email',
+    label: 'Email address',
+    pattern: '[a-z0-9._%+-]+@[a-z0-9.-]+\\.[a-z]{2,}',
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    id: 'apiKey',
+    label: 'API key / token',
+    // Well-known key prefixes, plus any long run of mixed letters and digits that looks machine-generated
+    pattern: '\\b(?:sk-[a-z0-9_-]{16,}|AKIA[0-9A-Z]{16}|AIza[0-9a-z_-]{30,}|gh[pousr]_[a-z0-9]{30,}|xox[baprs]-[a-z0-9-]{10,}|(?=[a-z0-9_-]*\\d)(?=[a-z0-9_-]*[a-z])[a-z0-9_-]{32,})\\b',
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    id: 'phone',
+    label: 'Phone number',
+    pattern: '(?:\\+?\\d{1,3}[\\s.-]?)?(?:\\(\\d{2,4}\\)|\\d{2,4})[\\s.-]?\\d{3,4}[\\s.-]?\\d{3,4}',
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    id: 'card',
+    label: 'Card number',
+    pattern: '\\b(?:\\d{4}[\\s-]?){3}\\d{1,4}\\b',
+    enabled: false,
+    builtIn: true,
+  },
+];
+
+// Slightly enlarge boxes so descenders and anti-aliased edges are covered by the blur
+const PADDING_PX = 4;
+
+const compilePatterns = (patterns: RedactionPattern[]) =>
+  patterns
+    .filter(p => p.enabled && p.pattern.trim())
+    .flatMap(p => {
+      try {
+        return [{ pattern: p, regex: new RegExp(p.pattern, 'gi') }];
+      } catch {
+        console.warn(`Skipping invalid redaction pattern "${p.label}"`);
+        return [];
+      }
+    });
+
+const linesOf = (blocks: { paragraphs: { lines: Line[] }[] }[] | null): Line[] =>
+  (blocks || []).flatMap(block => block.paragraphs.flatMap(paragraph => paragraph.lines));
+
+const imageSize = (dataUrl: string): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error("Could not load frame image"));
+    img.src = dataUrl;
+  });
+
+/**
+ * Runs OCR over each frame locally and returns regions whose text matches an enabled pattern.
+ * Matching is done per line, so values split across words (phone numbers with spaces) are still found;
+ * the region is the union of the words the match touches.
+ */
+export const detectSensitiveRegions = async (
+  frames: CapturedFrame[],
+  patterns: RedactionPattern[],
+  onProgress?: (message: string) => void
+): Promise<RedactionCandidate[]> => {
+  const compiled = compilePatterns(patterns);
+  if (compiled.length === 0 || frames.length === 0) return [];
+
+  onProgress?.("Loading text recognition...");
+  const worker = await createWorker('eng');
+  const candidates: RedactionCandidate[] = [];
+
+  try {
+    for (let i = 0; i < frames.length; i++) {
+      const frame = frames[i];
+      onProgress?.(`Reading text in frame ${i + 1} of ${frames.length}...`);
+
+      const { width, height } = await imageSize(frame.dataUrl);
+      const { data } = await worker.recognize(frame.dataUrl, {}, { blocks: true });
+
+      for (const line of linesOf(data.blocks)) {
+        // Rebuild the line text from its words, remembering where each word sits in it
+        let text = '';
+        const spans = line.words.map(word => {
+          const start = text.length;
+          text += word.text;
+          const span = { word, start, end: text.length };
+          text += ' ';
+          return span;
+        });
+
+        for (const { pattern, regex } of compiled) {
+          regex.lastIndex = 0;
+          let match: RegExpExecArray | null;
+          while ((match = regex.exec(text)) !== null) {
+            if (match[0].length === 0) {
+              regex.lastIndex++;
+              continue;
+            }
+            const matchStart = match.index;
+            const matchEnd = match.index + match[0].length;
+            const words = spans.filter(s => s.start < matchEnd && s.end > matchStart).map(s => s.word);
+            if (words.length === 0) continue;
+
+            const x0 = Math.max(0, Math.min(...words.map(w => w.bbox.x0)) - PADDING_PX);
+            const y0 = Math.max(0, Math.min(...words.map(w => w.bbox.y0)) - PADDING_PX);
+            const x1 = Math.min(width, Math.max(...words.map(w => w.bbox.x1)) + PADDING_PX);
+            const y1 = Math.min(height, Math.max(...words.map(w => w.bbox.y1)) + PADDING_PX);
+
+            candidates.push({
+              id: Math.random().toString(36).substr(2, 9),
+              frameId: frame.id,
+              patternId: pattern.id,
+              label: pattern.label,
+              text: match[0],
+              box: { x: x0 / width, y: y0 / height, width: (x1 - x0) / width, height: (y1 - y0) / height },
+            });
+          }
+        }
+      }
+    }
+  } finally {
+    await worker.terminate();
+  }
+
+  return candidates;
+};
+
+// Accepted detections become ordinary blur annotations, so they can still be adjusted in the annotation editor
+export const applyRedactions = (frames: CapturedFrame[], accepted: RedactionCandidate[]): CapturedFrame[] =>
+  frames.map(frame => {
+    const regions = accepted.filter(c => c.frameId === frame.id);
+    if (regions.length === 0) return frame;
+
+    const shapes: Annotation[] = regions.map(c => ({
+      id: Math.random().toString(36).substr(2, 9),
+      type: 'redact',
+      ...c.box,
+      mode: 'blur',
+      label: c.label,
+    }));
+    const existing = frame.annotations || { shapes: [] };
+    return { ...frame, annotations: { ...existing, shapes: [...existing.shapes, ...shapes] } };
+  });
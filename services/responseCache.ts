@@ -0,0 +1,125 @@
+import { AIProvider, AITask, ContentPart, JsonRequest } from "./providers";
+import { recordCacheHit } from "./usageLedger";
+
+// Kept apart from the project database: it can be cleared at any time without touching projects
+const DB_NAME = 'vid-handout-cache';
+const DB_VERSION = 1;
+const STORE = 'responses';
+const MAX_ENTRIES = 200; // Least recently used replies are dropped beyond this
+
+interface CachedResponse {
+  key: string;
+  task: AITask;
+  value: unknown;
+  usedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('usedAt', 'usedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Images are keyed by their content, not their frame id: a rerun of Auto-Select makes new frames with new ids
+// for the same pictures. Ids that matter to the reply are in the prompt text anyway.
+const keyPart = async (part: ContentPart) =>
+  part.type === 'text' ? part : { type: part.type, mimeType: part.mimeType, sha256: await sha256(part.data) };
+
+/**
+ * Content address of a request: provider, model, prompt, schema and the hashes of every image. Any change
+ * to the frames, their order, the generation options or the settings that shape the prompt gives a new key.
+ */
+const cacheKey = async (provider: AIProvider, request: JsonRequest): Promise<string> =>
+  sha256(JSON.stringify({
+    provider: provider.id,
+    model: provider.model,
+    task: request.task,
+    schema: request.schema,
+    systemInstruction: request.systemInstruction || '',
+    parts: await Promise.all(request.parts.map(keyPart)),
+  }));
+
+const readCache = async (key: string): Promise<CachedResponse | undefined> => {
+  const db = await openDb();
+  const entry = (await promisify(db.transaction(STORE).objectStore(STORE).get(key))) as CachedResponse | undefined;
+  if (entry) db.transaction(STORE, 'readwrite').objectStore(STORE).put({ ...entry, usedAt: Date.now() });
+  return entry;
+};
+
+const writeCache = async (entry: CachedResponse): Promise<void> => {
+  const db = await openDb();
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  store.put(entry);
+  const count = await promisify(store.count());
+  if (count <= MAX_ENTRIES) return;
+  // Walk from the least recently used and drop the excess
+  let excess = count - MAX_ENTRIES;
+  const cursorRequest = store.index('usedAt').openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor || excess <= 0) return;
+    cursor.delete();
+    excess--;
+    cursor.continue();
+  };
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+  const db = await openDb();
+  await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).clear());
+};
+
+export const countCachedResponses = async (): Promise<number> => {
+  const db = await openDb();
+  return promisify(db.transaction(STORE).objectStore(STORE).count());
+};
+
+/**
+ * provider.generateJson, answered from the cache when the exact same request was made before.
+ * The cache is best effort: if hashing or storage isn't available, the request simply goes to the model.
+ */
+export const generateJsonCached = async <T,>(provider: AIProvider, request: JsonRequest): Promise<T> => {
+  const started = Date.now();
+  const key = await cacheKey(provider, request).catch(err => {
+    console.warn("Response cache unavailable:", err);
+    return null;
+  });
+  if (key) {
+    const hit = await readCache(key).catch(() => undefined);
+    if (hit) {
+      recordCacheHit(provider, request.task, Date.now() - started);
+      return hit.value as T;
+    }
+  }
+
+  const value = await provider.generateJson<T>(request);
+  if (key) {
+    await writeCache({ key, task: request.task, value, usedAt: Date.now() }).catch(err => console.warn("Could not cache the reply:", err));
+  }
+  return value;
+};
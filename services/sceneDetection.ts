@@ -0,0 +1,156 @@
+import { FrameSignature, signatureDistance, signatureFromImageData } from "./frameSignature";
+import { canDecodeInWorker, decodeSignatures, DecoderUnsupportedError } from "./frameDecoder";
+import { cancelledError } from "./providers";
+
+export interface SceneScanOptions {
+  sensitivity: number; // 1 (only big cuts) .. 10 (every small UI change)
+  maxCandidates: number;
+  start?: number; // Scan only this stretch of the video, in seconds; defaults to all of it
+  end?: number;
+  file?: File; // The clip's file, so frames can be decoded in a worker instead of seeking the player
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface SceneCandidate {
+  timestamp: number;
+  score: number; // How different this moment is from the previous candidate (0..1)
+}
+
+// Analysis runs on tiny thumbnails; resolution barely matters for detecting screen changes
+const THUMB_WIDTH = 64;
+const THUMB_HEIGHT = 36;
+const MAX_SAMPLES = 600;
+const MIN_SAMPLE_INTERVAL = 0.5;
+// Decoding in a worker is cheap enough to sample several times as densely
+const MAX_DECODED_SAMPLES = 3000;
+const MIN_DECODED_SAMPLE_INTERVAL = 0.25;
+
+export const seekVideo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise<void>(resolve => {
+    let done = false;
+    const onSeeked = () => {
+      if (done) return;
+      done = true;
+      video.removeEventListener('seeked', onSeeked);
+      // Give the decoder a moment to paint the new frame
+      setTimeout(resolve, 50);
+    };
+    video.addEventListener('seeked', onSeeked, { once: true });
+    setTimeout(onSeeked, 1500); // Timeout fallback
+    video.currentTime = time;
+  });
+};
+
+const thresholdForSensitivity = (sensitivity: number): number => {
+  const s = Math.min(10, Math.max(1, sensitivity));
+  return 0.35 - s * 0.03;
+};
+
+const samplingPlan = (start: number, end: number, maxSamples: number, minInterval: number) => {
+  const span = end - start;
+  const interval = Math.max(minInterval, span / maxSamples);
+  const times: number[] = [];
+  // Start slightly after the beginning to skip black lead-in frames
+  for (let t = start + Math.min(0.1, span / 2); t < end; t += interval) times.push(t);
+  return { interval, times };
+};
+
+// Fed one sampled frame at a time, in order
+const createChangeDetector = (sensitivity: number) => {
+  const threshold = thresholdForSensitivity(sensitivity);
+  const settleThreshold = threshold / 2;
+  const candidates: SceneCandidate[] = [];
+  let lastAccepted: FrameSignature | null = null;
+  let previous: FrameSignature | null = null;
+  let pendingScore: number | null = null;
+
+  return {
+    add: (t: number, sig: FrameSignature) => {
+      if (!lastAccepted) {
+        candidates.push({ timestamp: t, score: 1 });
+        lastAccepted = sig;
+      } else {
+        const delta = signatureDistance(sig, lastAccepted);
+        if (pendingScore === null && delta >= threshold) {
+          pendingScore = delta;
+        }
+        if (pendingScore !== null && previous && signatureDistance(sig, previous) < settleThreshold) {
+          candidates.push({ timestamp: t, score: Math.max(pendingScore, delta) });
+          lastAccepted = sig;
+          pendingScore = null;
+        }
+      }
+      previous = sig;
+    },
+    finish: (start: number, end: number, interval: number): SceneCandidate[] => {
+      // A change that never settled before the end still counts
+      if (pendingScore !== null) {
+        candidates.push({ timestamp: Math.max(start, end - interval / 2), score: pendingScore });
+      }
+      return candidates;
+    },
+  };
+};
+
+// Keeps the strongest changes, then restores chronological order
+const strongest = (candidates: SceneCandidate[], maxCandidates: number): SceneCandidate[] => {
+  if (candidates.length <= maxCandidates) return candidates;
+  return [...candidates]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxCandidates)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Walks the video at a fixed sampling interval and proposes timestamps where the picture actually changes.
+ *
+ * A change is measured against the last accepted candidate, so slow scrolls still trigger once they have
+ * drifted far enough. The candidate is taken once the screen settles, not mid-transition.
+ *
+ * With the clip's file, frames are decoded in a worker, which is fast enough to sample densely. Files or
+ * browsers the worker can't handle fall back to seeking the player, at a coarser interval.
+ */
+export const scanForSceneChanges = async (video: HTMLVideoElement, options: SceneScanOptions): Promise<SceneCandidate[]> => {
+  const duration = video.duration;
+  if (!isFinite(duration) || duration <= 0) {
+    throw new Error("Cannot determine video duration.");
+  }
+
+  const start = Math.max(0, options.start ?? 0);
+  const end = Math.min(duration, options.end ?? duration);
+  if (end - start <= 0) return [];
+
+  if (options.file && canDecodeInWorker()) {
+    const plan = samplingPlan(start, end, MAX_DECODED_SAMPLES, MIN_DECODED_SAMPLE_INTERVAL);
+    try {
+      const signatures = await decodeSignatures(options.file, plan.times, THUMB_WIDTH, THUMB_HEIGHT, options.onProgress, options.signal);
+      const detector = createChangeDetector(options.sensitivity);
+      plan.times.forEach((t, i) => {
+        const sig = signatures[i];
+        if (sig) detector.add(t, sig);
+      });
+      return strongest(detector.finish(start, end, plan.interval), options.maxCandidates);
+    } catch (err) {
+      if (!(err instanceof DecoderUnsupportedError)) throw err;
+      console.warn("Can't decode this file in a worker; seeking the player instead:", err.message);
+    }
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMB_WIDTH;
+  canvas.height = THUMB_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+
+  const plan = samplingPlan(start, end, MAX_SAMPLES, MIN_SAMPLE_INTERVAL);
+  const detector = createChangeDetector(options.sensitivity);
+  for (const t of plan.times) {
+    if (options.signal?.aborted) throw cancelledError();
+    await seekVideo(video, t);
+    ctx.drawImage(video, 0, 0, THUMB_WIDTH, THUMB_HEIGHT);
+    detector.add(t, signatureFromImageData(ctx.getImageData(0, 0, THUMB_WIDTH, THUMB_HEIGHT).data, THUMB_WIDTH, THUMB_HEIGHT));
+    options.onProgress?.(Math.min(1, (t - start) / (end - start)));
+  }
+  return strongest(detector.finish(start, end, plan.interval), options.maxCandidates);
+};
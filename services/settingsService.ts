@@ -0,0 +1,86 @@
+import { ModelImageSettings, RedactionSettings, UsageSettings } from "../types";
+import { AISettings, PROVIDER_OPTIONS } from "./providers";
+import { BUILT_IN_PATTERNS } from "./redactionService";
+import { DEFAULT_MODEL_IMAGE_SETTINGS } from "./modelImages";
+
+const AI_SETTINGS_KEY = 'vid-handout:ai-settings';
+const REDACTION_SETTINGS_KEY = 'vid-handout:redaction-settings';
+const MODEL_IMAGE_SETTINGS_KEY = 'vid-handout:model-image-settings';
+const USAGE_SETTINGS_KEY = 'vid-handout:usage-settings';
+
+export const defaultAISettings = (provider: AISettings['provider'] = 'server'): AISettings => {
+  const option = PROVIDER_OPTIONS.find(o => o.id === provider) || PROVIDER_OPTIONS[0];
+  return { provider: option.id, ...option.defaults };
+};
+
+export const loadAISettings = (): AISettings => {
+  try {
+    const raw = localStorage.getItem(AI_SETTINGS_KEY);
+    if (raw) {
+      const saved = JSON.parse(raw) as Partial<AISettings>;
+      // Gemini without a key of one's own used the key built into the app, which is now the server's
+      if (saved.provider === 'gemini' && !saved.apiKey) return defaultAISettings('server');
+      return { ...defaultAISettings(saved.provider), ...saved };
+    }
+  } catch (e) {
+    console.warn("Ignoring unreadable AI settings:", e);
+  }
+  return defaultAISettings();
+};
+
+export const saveAISettings = (settings: AISettings): void => {
+  localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const loadRedactionSettings = (): RedactionSettings => {
+  const defaults: RedactionSettings = { patterns: BUILT_IN_PATTERNS, scanBeforeGenerate: false };
+  try {
+    const raw = localStorage.getItem(REDACTION_SETTINGS_KEY);
+    if (raw) {
+      const saved = JSON.parse(raw) as Partial<RedactionSettings>;
+      const savedPatterns = saved.patterns || [];
+      // Built-ins always come from code (so pattern fixes ship) but keep the user's on/off choice
+      const patterns = [
+        ...BUILT_IN_PATTERNS.map(p => ({ ...p, enabled: savedPatterns.find(s => s.id === p.id)?.enabled ?? p.enabled })),
+        ...savedPatterns.filter(p => !p.builtIn),
+      ];
+      return { ...defaults, ...saved, patterns };
+    }
+  } catch (e) {
+    console.warn("Ignoring unreadable redaction settings:", e);
+  }
+  return defaults;
+};
+
+export const saveRedactionSettings = (settings: RedactionSettings): void => {
+  localStorage.setItem(REDACTION_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const loadModelImageSettings = (): ModelImageSettings => {
+  try {
+    const raw = localStorage.getItem(MODEL_IMAGE_SETTINGS_KEY);
+    if (raw) return { ...DEFAULT_MODEL_IMAGE_SETTINGS, ...(JSON.parse(raw) as Partial<ModelImageSettings>) };
+  } catch (e) {
+    console.warn("Ignoring unreadable image settings:", e);
+  }
+  return DEFAULT_MODEL_IMAGE_SETTINGS;
+};
+
+export const saveModelImageSettings = (settings: ModelImageSettings): void => {
+  localStorage.setItem(MODEL_IMAGE_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const loadUsageSettings = (): UsageSettings => {
+  const defaults: UsageSettings = { monthlyBudget: 0 };
+  try {
+    const raw = localStorage.getItem(USAGE_SETTINGS_KEY);
+    if (raw) return { ...defaults, ...(JSON.parse(raw) as Partial<UsageSettings>) };
+  } catch (e) {
+    console.warn("Ignoring unreadable usage settings:", e);
+  }
+  return defaults;
+};
+
+export const saveUsageSettings = (settings: UsageSettings): void => {
+  localStorage.setItem(USAGE_SETTINGS_KEY, JSON.stringify(settings));
+};
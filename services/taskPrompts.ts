@@ -0,0 +1,487 @@
+import { Type, Schema } from "@google/genai";
+import { CalloutType, GenerationOptions, HandoutData } from "../types";
+import { ContentPart, JsonRequest } from "./providers/types";
+import { DEFAULT_GENERATION_OPTIONS, READING_LEVELS, TONES, VERBOSITY_LEVELS } from "./generationOptions";
+import { DIFFICULTY_LEVELS, sectionRuns } from "./handoutContent";
+
+/**
+ * Prompts and response schemas for every AI task. The app describes a task by its inputs (frames,
+ * options, the handout, the author's instruction) and the prompt is built from them here. The same
+ * code runs in the browser and in the API server, so the server only ever sends the app's own prompts.
+ */
+
+export interface PromptImage {
+  mimeType: string;
+  data: string; // Base64, without the data URL prefix
+  frameId?: string;
+  width?: number;
+  height?: number;
+}
+
+// One screenshot for a handout, as the model is told about it
+export interface HandoutFrameInput {
+  id: string;
+  origin: string; // e.g. "clip 2, at 01:15" or "imported image \"login.png\""
+  grouped: boolean; // Same step as the previous frame
+  narration?: string;
+  image: PromptImage;
+}
+
+// Where a chapter's frames sit in a handout that is generated section by section
+export interface SectionContext {
+  index: number;
+  count: number;
+  title?: string; // The author's chapter title, if they gave one
+}
+
+export type TaskInput =
+  | { task: 'handout'; frames: HandoutFrameInput[]; fromVideo: boolean; options: GenerationOptions; section?: SectionContext }
+  | { task: 'stepRewrite'; handout: HandoutData; stepIndex: number; screenshots: { origin: string; image: PromptImage }[]; instruction?: string; options: GenerationOptions }
+  | { task: 'headerRewrite'; handout: HandoutData; instruction?: string; options: GenerationOptions }
+  | { task: 'handoutRewrite'; handout: HandoutData; instruction: string; options: GenerationOptions }
+  | { task: 'translation'; handout: HandoutData; language: string }
+  | { task: 'frameSelection'; images: PromptImage[]; min: number; max: number; partOfLargerSet: boolean }
+  | { task: 'transcription'; audio: { mimeType: string; data: string }; durationSeconds: number };
+
+// A ready-to-send request for `input`, before the caller adds its signal and usage callback
+export type TaskRequest = Pick<JsonRequest, 'task' | 'parts' | 'schema' | 'systemInstruction'>;
+
+const imagePart = (image: PromptImage): ContentPart => ({
+  type: 'image',
+  mimeType: image.mimeType,
+  data: image.data,
+  frameId: image.frameId,
+  width: image.width,
+  height: image.height,
+});
+
+const calloutTypes = (options: GenerationOptions): CalloutType[] => [
+  ...(options.includeTips ? ['tip', 'note'] as const : []),
+  ...(options.includeWarnings ? ['warning', 'danger'] as const : []),
+];
+
+// Text fields of a step, shared by full generation and single-step rewrites
+const stepTextProperties = (options: GenerationOptions): Record<string, Schema> => {
+  const properties: Record<string, Schema> = {
+    title: { type: Type.STRING, description: "Action-oriented title for this step." },
+    description: { type: Type.STRING, description: "Detailed instruction explaining the visual." },
+  };
+  if (options.includeSubSteps) {
+    properties.subSteps = {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Optional smaller actions that make up this step, in order. Empty if the step is a single action.",
+    };
+  }
+  const types = calloutTypes(options);
+  if (types.length > 0) {
+    properties.callouts = {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: types },
+          text: { type: Type.STRING },
+        },
+        required: ["type", "text"],
+      },
+      description: "Optional callouts for this step: tip (a helpful shortcut), note (background information), warning (a common mistake or something hard to undo), danger (risk of data loss, damage or injury). Empty if none.",
+    };
+  }
+  return properties;
+};
+
+// Optional sections are only put in the schema when requested, so the model doesn't fill them unasked.
+// Chapter sections are only included when editing a handout that already has them.
+const buildHandoutSchema = (options: GenerationOptions, withSections = false): Schema => {
+  const stepProperties: Record<string, Schema> = {
+    stepNumber: { type: Type.INTEGER },
+    ...stepTextProperties(options),
+    frameIds: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "IDs of the frames (as labelled before each image) that illustrate this step.",
+    },
+  };
+  if (withSections) {
+    stepProperties.sectionId = { type: Type.STRING, description: "ID of the section this step belongs to." };
+  }
+
+  const properties: Record<string, Schema> = {
+    title: {
+      type: Type.STRING,
+      description: "A catchy, instructional title for the handout based on the video content.",
+    },
+    summary: {
+      type: Type.STRING,
+      description: "A brief 2-3 sentence overview of what is being demonstrated.",
+    },
+    estimatedTime: {
+      type: Type.STRING,
+      description: "Roughly how long the procedure takes a first-time reader, e.g. \"5 minutes\".",
+    },
+    difficulty: {
+      type: Type.STRING,
+      enum: DIFFICULTY_LEVELS.map(d => d.id),
+      description: "How hard the procedure is for the intended audience.",
+    },
+    steps: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: stepProperties,
+        required: ["stepNumber", "title", "description", "frameIds"],
+      },
+    },
+  };
+  if (withSections) {
+    properties.sections = {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          title: { type: Type.STRING, description: "Short heading for this part of the procedure." },
+          summary: { type: Type.STRING, description: "One or two sentences on what this part covers." },
+        },
+        required: ["id", "title", "summary"],
+      },
+      description: "The handout's sections, in reading order.",
+    };
+  }
+  if (options.includePrerequisites) {
+    properties.prerequisites = {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "What the reader needs before starting: accounts, permissions, software, files.",
+    };
+  }
+  if (options.includeMaterials) {
+    properties.materials = {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Physical items, tools or documents to have at hand.",
+    };
+  }
+  if (options.includeTroubleshooting) {
+    properties.troubleshooting = {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          problem: { type: Type.STRING, description: "A likely problem or error the reader may run into." },
+          solution: { type: Type.STRING, description: "How to resolve it." },
+        },
+        required: ["problem", "solution"],
+      },
+      description: "Common problems and their fixes.",
+    };
+  }
+  if (options.includeFaq) {
+    properties.faq = {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          question: { type: Type.STRING, description: "A question a reader is likely to ask." },
+          answer: { type: Type.STRING },
+        },
+        required: ["question", "answer"],
+      },
+      description: "Frequently asked questions about the procedure.",
+    };
+  }
+
+  return { type: Type.OBJECT, properties, required: ["title", "summary", "steps"] };
+};
+
+const ALL_SECTIONS: GenerationOptions = {
+  ...DEFAULT_GENERATION_OPTIONS,
+  includeTips: true,
+  includeWarnings: true,
+  includeSubSteps: true,
+  includePrerequisites: true,
+  includeMaterials: true,
+  includeTroubleshooting: true,
+  includeFaq: true,
+};
+
+const styleGuide = (options: GenerationOptions): string => [
+  `Write for this audience: ${options.audience}.`,
+  READING_LEVELS.find(l => l.id === options.readingLevel)?.prompt,
+  `Tone: ${TONES.find(t => t.id === options.tone)?.prompt}`,
+  VERBOSITY_LEVELS.find(v => v.id === options.verbosity)?.prompt,
+  `Write all text in ${options.language}.`,
+].filter(Boolean).join('\n');
+
+const sectionInstructions = (options: GenerationOptions): string => [
+  `Estimate how long the procedure takes and how difficult it is for this audience.`,
+  options.includeTips ? `Add a tip or note callout to a step only when it genuinely helps.` : `Do not include tips or notes.`,
+  options.includeWarnings && `Add a warning callout to any step where the reader could make a common mistake or do something hard to undo, and a danger callout where data loss, damage or injury is possible.`,
+  options.includeSubSteps && `Break a step into sub-steps when it involves several small actions on the same screen.`,
+  options.includePrerequisites && `List the prerequisites the reader needs before starting.`,
+  options.includeMaterials && `List the materials, tools or documents the reader should have at hand.`,
+  options.includeTroubleshooting && `Add a troubleshooting section with likely problems and how to fix them.`,
+  options.includeFaq && `Add a short FAQ with questions a reader is likely to ask.`,
+].filter(Boolean).join('\n');
+
+const buildStepSchema = (options: GenerationOptions): Schema => ({
+  type: Type.OBJECT,
+  properties: stepTextProperties(options),
+  required: ["title", "description"],
+});
+
+const HEADER_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "A catchy, instructional title for the handout." },
+    summary: { type: Type.STRING, description: "A brief 2-3 sentence overview of what is being demonstrated." },
+  },
+  required: ["title", "summary"],
+};
+
+// Bounded so out-of-range picks are caught by validation and asked for again
+const buildSelectionSchema = (count: number): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    selectedIndices: {
+      type: Type.ARRAY,
+      items: { type: Type.INTEGER, minimum: 0, maximum: count - 1 },
+      description: "Indices of the selected frames (0-based) that best represent the key steps.",
+    }
+  },
+  required: ["selectedIndices"],
+});
+
+const TRANSCRIPT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER, description: "Start time in seconds from the beginning of the audio." },
+          end: { type: Type.NUMBER, description: "End time in seconds from the beginning of the audio." },
+          text: { type: Type.STRING, description: "Verbatim spoken text." },
+        },
+        required: ["start", "end", "text"],
+      },
+    },
+  },
+  required: ["segments"],
+};
+
+// Plain-text outline of the handout, given to the model as context for targeted rewrites
+const describeHandout = (data: HandoutData): string => [
+  `Title: ${data.title}`,
+  `Summary: ${data.summary}`,
+  ...sectionRuns(data, data.steps).flatMap(run => [
+    ...(run.section ? [`Section: ${run.section.title}`, `  ${run.section.summary}`] : []),
+    ...run.steps.map(({ step }) => [
+      `Step ${step.stepNumber}: ${step.title}`,
+      `  ${step.description}`,
+      ...(step.subSteps || []).map(sub => `  - ${sub}`),
+      ...(step.callouts || []).map(c => `  ${c.type.toUpperCase()}: ${c.text}`),
+    ].join('\n')),
+  ]),
+].join('\n');
+
+const instructionText = (instruction?: string) =>
+  instruction?.trim()
+    ? `Follow this instruction from the author: "${instruction.trim()}"`
+    : `Write a fresh, improved version.`;
+
+const EDITOR_INSTRUCTION = "You are an expert technical writer editing a step-by-step guide.";
+
+const buildHandoutRequest = ({ frames, fromVideo, options, section }: Extract<TaskInput, { task: 'handout' }>): TaskRequest => {
+  const hasGroups = frames.some(frame => frame.grouped);
+  const hasNarration = frames.some(frame => frame.narration);
+  const parts: ContentPart[] = [];
+
+  // Add images, each preceded by its ID so steps can cite the frames they describe
+  frames.forEach(frame => {
+    parts.push({ type: 'text', text: `Frame ID: ${frame.id} (${frame.origin}${frame.grouped ? ', same step as the previous frame' : ''})` });
+    parts.push(imagePart({ ...frame.image, frameId: frame.id }));
+    if (frame.narration) {
+      parts.push({ type: 'text', text: `Narration around this frame: "${frame.narration}"` });
+    }
+  });
+
+  // Numbered when joined, since some instructions only apply to some requests
+  const instructions = [
+    `Analyze the sequence of images to understand the task being performed.`,
+    `Generate a structured guide.`,
+    `Create one 'Step' per distinct action. Usually that is one step per image, but if several images show the same action, combine them into one step.`,
+    `In each step's "frameIds", list the exact Frame IDs of the images that illustrate it. Only use IDs given above, and cite every image in at least one step.`,
+    `Keep the steps in the order of the images.`,
+    `The description should be clear and helpful for the reader described below.`,
+    hasGroups && `Some frames are marked "same step as the previous frame", for example a before/after pair. Put such frames in one step together with the frame before them, and describe them as one action.`,
+    hasNarration && `Some frames are followed by what the presenter said at that point in the video. Use the narration to explain why and how each action is done, but describe only what is relevant to the step and don't quote filler words.`,
+    section && `These screenshots are part ${section.index + 1} of ${section.count} of a longer recording${section.title ? `, the part titled "${section.title}"` : ''}. Use "title" for a short heading for this part only and "summary" for one or two sentences on what it covers.`,
+  ].filter(Boolean).map((instruction, i) => `${i + 1}. ${instruction}`);
+
+  // Add text prompt
+  parts.push({
+    type: 'text',
+    text: `You are an expert technical writer creating an instructional handout.
+      I have provided ${frames.length} screenshots${fromVideo ? ' from a video tutorial' : ''}, in the order the steps should appear.
+      Each screenshot is preceded by a line "Frame ID: <id>".
+
+      Your task:
+      ${instructions.join('\n      ')}
+
+      Style:
+      ${styleGuide(options)}
+      ${sectionInstructions(options)}
+
+      Return the result as JSON matching the schema provided.`
+  });
+
+  return {
+    task: 'handout',
+    parts,
+    schema: buildHandoutSchema(options),
+    systemInstruction: "You are a helpful education assistant specializing in creating clear, step-by-step guides from visual inputs.",
+  };
+};
+
+const buildStepRewriteRequest = ({ handout, stepIndex, screenshots, instruction, options }: Extract<TaskInput, { task: 'stepRewrite' }>): TaskRequest => {
+  const step = handout.steps[stepIndex];
+  const parts: ContentPart[] = [
+    { type: 'text', text: `Here is the current handout:\n${describeHandout(handout)}` },
+  ];
+  screenshots.forEach(({ origin, image }) => {
+    parts.push({ type: 'text', text: `Screenshot for step ${step.stepNumber} (${origin})` });
+    parts.push(imagePart(image));
+  });
+  parts.push({
+    type: 'text',
+    text: `Rewrite only step ${step.stepNumber} ("${step.title}").
+      ${instructionText(instruction)}
+      Stay consistent with the steps before and after it: don't repeat their actions and keep the same terminology.
+
+      Style:
+      ${styleGuide(options)}
+
+      Return the new step as JSON matching the schema provided.`,
+  });
+
+  // Keep offering whatever the step already has, even if it was switched off for generation
+  const hasCallout = (types: CalloutType[]) => (step.callouts || []).some(c => types.includes(c.type));
+  return {
+    task: 'stepRewrite',
+    parts,
+    schema: buildStepSchema({
+      ...options,
+      includeTips: options.includeTips || hasCallout(['tip', 'note']),
+      includeWarnings: options.includeWarnings || hasCallout(['warning', 'danger']),
+      includeSubSteps: options.includeSubSteps || !!step.subSteps,
+    }),
+    systemInstruction: "You are an expert technical writer editing one step of a step-by-step guide.",
+  };
+};
+
+const buildHeaderRewriteRequest = ({ handout, instruction, options }: Extract<TaskInput, { task: 'headerRewrite' }>): TaskRequest => ({
+  task: 'headerRewrite',
+  parts: [{
+    type: 'text',
+    text: `Here is an instructional handout:\n${describeHandout(handout)}
+
+        Rewrite only its title and summary so they match the steps.
+        ${instructionText(instruction)}
+
+        Style:
+        ${styleGuide(options)}
+
+        Return the result as JSON matching the schema provided.`,
+  }],
+  schema: HEADER_SCHEMA,
+  systemInstruction: EDITOR_INSTRUCTION,
+});
+
+const buildHandoutRewriteRequest = ({ handout, instruction, options }: Extract<TaskInput, { task: 'handoutRewrite' }>): TaskRequest => ({
+  task: 'handoutRewrite',
+  parts: [{
+    type: 'text',
+    text: `Here is an instructional handout as JSON:
+        ${JSON.stringify(handout)}
+
+        Rewrite it. ${instructionText(instruction)}
+        Keep each step's "frameIds" with the text that describes those frames. If you merge steps, combine their frameIds; don't invent new IDs.
+        Keep the estimated time, difficulty, prerequisites, materials, sub-steps, callouts, troubleshooting and FAQ entries unless the instruction says to change them.
+        ${handout.sections ? `Keep the sections and each step's "sectionId" unless the instruction says to restructure them; a section's steps must stay next to each other.` : ''}
+
+        Where the instruction doesn't say otherwise, follow this style:
+        ${styleGuide(options)}
+
+        Return the complete handout as JSON matching the schema provided.`,
+  }],
+  schema: buildHandoutSchema(ALL_SECTIONS, !!handout.sections),
+  systemInstruction: EDITOR_INSTRUCTION,
+});
+
+const buildTranslationRequest = ({ handout, language }: Extract<TaskInput, { task: 'translation' }>): TaskRequest => ({
+  task: 'translation',
+  parts: [{
+    type: 'text',
+    text: `Here is an instructional handout as JSON:
+        ${JSON.stringify(handout)}
+
+        Translate every piece of text into ${language}: title, summary, estimated time, prerequisites, materials, section titles and summaries, each step's title, description, sub-steps and callout text, and the troubleshooting and FAQ entries.
+        Keep exactly the same number of sections, steps, sub-steps, callouts and list entries, in the same order. Copy IDs, stepNumber, sectionId, frameIds, difficulty and callout types unchanged.
+        Keep UI labels, menu names and button text that appear in the screenshots in their original form, followed by a translation in parentheses where helpful.
+        Return the translated handout as JSON matching the schema provided.`,
+  }],
+  schema: buildHandoutSchema(ALL_SECTIONS, !!handout.sections),
+  systemInstruction: `You are a professional technical translator. Translate faithfully into ${language} without adding or removing content.`,
+});
+
+const buildSelectionRequest = ({ images, min, max, partOfLargerSet }: Extract<TaskInput, { task: 'frameSelection' }>): TaskRequest => ({
+  task: 'frameSelection',
+  parts: [
+    ...images.map(imagePart),
+    {
+      type: 'text',
+      text: `I have extracted ${images.length} frames from a video tutorial${partOfLargerSet ? ` (part of a longer set, in order)` : ''}.
+        Identify the best subset of frames (between ${min} and ${max} frames) that visually explain the key distinct steps of the process.
+        Prefer clear images with distinct actions.
+        Return the indices of the selected frames (0-based) in the order they appear.`
+    },
+  ],
+  schema: buildSelectionSchema(images.length),
+});
+
+const buildTranscriptionRequest = ({ audio, durationSeconds }: Extract<TaskInput, { task: 'transcription' }>): TaskRequest => ({
+  task: 'transcription',
+  parts: [
+    { type: 'audio', mimeType: audio.mimeType, data: audio.data },
+    {
+      type: 'text',
+      text: `Transcribe the speech in this ${Math.round(durationSeconds)}-second audio clip from a video tutorial.
+          Split it into short segments of one sentence or phrase each, with start and end times in seconds from the beginning of the clip.
+          If there is no speech, return an empty list.`
+    },
+  ],
+  schema: TRANSCRIPT_SCHEMA,
+});
+
+export const buildTaskRequest = (input: TaskInput): TaskRequest => {
+  switch (input.task) {
+    case 'handout':
+      return buildHandoutRequest(input);
+    case 'stepRewrite':
+      return buildStepRewriteRequest(input);
+    case 'headerRewrite':
+      return buildHeaderRewriteRequest(input);
+    case 'handoutRewrite':
+      return buildHandoutRewriteRequest(input);
+    case 'translation':
+      return buildTranslationRequest(input);
+    case 'frameSelection':
+      return buildSelectionRequest(input);
+    case 'transcription':
+      return buildTranscriptionRequest(input);
+  }
+};
+
@@ -0,0 +1,57 @@
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Past this many token pairs the LCS table gets expensive; show a plain before/after instead
+const MAX_DIFF_CELLS = 250_000;
+
+const tokenize = (text: string): string[] => text.split(/(\s+)/).filter(t => t.length > 0);
+
+const pushPart = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) last.text += text;
+  else parts.push({ type, text });
+};
+
+/**
+ * Word-level diff of two strings (longest common subsequence), keeping whitespace so the
+ * parts can be rendered back to back.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (before) parts.push({ type: 'removed', text: before });
+    if (after) parts.push({ type: 'added', text: after });
+    return parts;
+  }
+
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushPart(parts, 'removed', a[i++]);
+    } else {
+      pushPart(parts, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++]);
+  while (j < b.length) pushPart(parts, 'added', b[j++]);
+
+  return parts;
+};
@@ -0,0 +1,130 @@
+import { CalloutType, HandoutLayout, HandoutTheme, PageSize } from "../types";
+
+const THEMES_KEY = 'vid-handout:themes';
+
+export const DEFAULT_THEME_ID = 'classic';
+
+export const FONT_OPTIONS: Record<string, { css: string; docx: string }> = {
+  'Inter': { css: "'Inter', -apple-system, 'Segoe UI', Roboto, sans-serif", docx: 'Calibri' },
+  'Helvetica': { css: "Helvetica, Arial, sans-serif", docx: 'Arial' },
+  'Trebuchet': { css: "'Trebuchet MS', 'Lucida Sans', sans-serif", docx: 'Trebuchet MS' },
+  'Georgia': { css: "Georgia, 'Times New Roman', serif", docx: 'Georgia' },
+  'Times': { css: "'Times New Roman', Times, serif", docx: 'Times New Roman' },
+  'Courier': { css: "'Courier New', Courier, monospace", docx: 'Courier New' },
+};
+
+export const LAYOUT_OPTIONS: { id: HandoutLayout; label: string; description: string }[] = [
+  { id: 'single', label: 'Single column', description: 'Numbered steps, image above the text' },
+  { id: 'grid', label: 'Two-column grid', description: 'Steps as cards, two per row' },
+  { id: 'imageLeft', label: 'Image left', description: 'Screenshot on the left, instructions on the right' },
+  { id: 'compact', label: 'Quick reference', description: 'Small thumbnails, dense two-column card' },
+];
+
+// Physical page sizes in millimetres
+export const PAGE_SIZES: Record<PageSize, { width: number; height: number; css: string }> = {
+  A4: { width: 210, height: 297, css: 'A4' },
+  Letter: { width: 215.9, height: 279.4, css: 'letter' },
+};
+
+const base = {
+  builtIn: true,
+  pageSize: 'A4' as PageSize,
+  headingFont: 'Inter',
+  bodyFont: 'Inter',
+  headerText: '',
+  footerText: 'Generated with Video to Handout Wizard',
+};
+
+export const BUILT_IN_THEMES: HandoutTheme[] = [
+  { ...base, id: 'classic', name: 'Classic', layout: 'single', primaryColor: '#4f46e5', badgeColor: '#0f172a', tipColor: '#fbbf24' },
+  { ...base, id: 'modern-grid', name: 'Modern Grid', layout: 'grid', primaryColor: '#0d9488', badgeColor: '#0d9488', tipColor: '#38bdf8' },
+  { ...base, id: 'side-by-side', name: 'Side by Side', layout: 'imageLeft', primaryColor: '#e11d48', badgeColor: '#1e293b', tipColor: '#fb923c', headingFont: 'Georgia' },
+  { ...base, id: 'quick-reference', name: 'Quick Reference Card', layout: 'compact', primaryColor: '#1e293b', badgeColor: '#4f46e5', tipColor: '#a3e635' },
+];
+
+const parseHex = (hex: string): [number, number, number] => {
+  const h = hex.replace('#', '');
+  const full = h.length === 3 ? h.split('').map(c => c + c).join('') : h.padEnd(6, '0');
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) || 0) as [number, number, number];
+};
+
+// Blend two hex colours; weight is the share of `a` in the result
+export const mixColors = (a: string, b: string, weight: number): string => {
+  const ca = parseHex(a);
+  const cb = parseHex(b);
+  return '#' + ca.map((v, i) => Math.round(v * weight + cb[i] * (1 - weight)).toString(16).padStart(2, '0')).join('');
+};
+
+// Tips follow the theme; the other callout types keep fixed colours so their meaning reads the same everywhere
+const CALLOUT_COLORS: Record<Exclude<CalloutType, 'tip'>, string> = {
+  note: '#3b82f6',
+  warning: '#f97316',
+  danger: '#dc2626',
+};
+
+export const calloutShades = (theme: HandoutTheme, type: CalloutType) => {
+  const color = type === 'tip' ? theme.tipColor : CALLOUT_COLORS[type];
+  return {
+    border: color,
+    background: mixColors(color, '#ffffff', 0.12),
+    text: mixColors(color, '#000000', 0.45),
+  };
+};
+
+export const fontCss = (name: string) => (FONT_OPTIONS[name] || FONT_OPTIONS['Inter']).css;
+export const fontDocx = (name: string) => (FONT_OPTIONS[name] || FONT_OPTIONS['Inter']).docx;
+
+// Footer and header text may use {date} and {title}
+export const fillThemeText = (text: string, title: string): string =>
+  text.replace(/\{date\}/g, new Date().toLocaleDateString()).replace(/\{title\}/g, title);
+
+export const loadThemes = (): HandoutTheme[] => {
+  try {
+    const raw = localStorage.getItem(THEMES_KEY);
+    const custom = raw ? (JSON.parse(raw) as HandoutTheme[]) : [];
+    return [...BUILT_IN_THEMES, ...custom.filter(t => !t.builtIn)];
+  } catch (e) {
+    console.warn("Ignoring unreadable themes:", e);
+    return BUILT_IN_THEMES;
+  }
+};
+
+export const getTheme = (id: string | undefined): HandoutTheme =>
+  loadThemes().find(t => t.id === id) || BUILT_IN_THEMES[0];
+
+const saveCustomThemes = (themes: HandoutTheme[]) => {
+  localStorage.setItem(THEMES_KEY, JSON.stringify(themes.filter(t => !t.builtIn)));
+};
+
+export const saveTheme = (theme: HandoutTheme): void => {
+  const themes = loadThemes();
+  const index = themes.findIndex(t => t.id === theme.id);
+  if (index >= 0) themes[index] = theme;
+  else themes.push(theme);
+  saveCustomThemes(themes);
+};
+
+export const deleteTheme = (id: string): void => {
+  saveCustomThemes(loadThemes().filter(t => t.id !== id));
+};
+
+// Logos are stored inside the theme in localStorage, so keep them small
+export const resizeLogo = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const img = new Image();
+      img.onload = () => {
+        const scale = Math.min(1, 400 / Math.max(img.naturalWidth, img.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(img.naturalWidth * scale);
+        canvas.height = Math.round(img.naturalHeight * scale);
+        canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/png'));
+      };
+      img.onerror = () => reject(new Error("That file is not an image this browser can read."));
+      img.src = reader.result as string;
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
@@ -0,0 +1,128 @@
+import { CapturedFrame, TranscriptSegment } from "../types";
+import { isVideoFrame } from "./imageImport";
+
+export interface AudioChunk {
+  offset: number; // Seconds into the video where this chunk starts
+  duration: number;
+  wavBase64: string;
+}
+
+// Speech models don't need more than 16 kHz mono, and it keeps each chunk well under the inline request limit
+const TARGET_SAMPLE_RATE = 16000;
+const CHUNK_SECONDS = 300;
+
+const encodeWav = (samples: Float32Array, sampleRate: number): ArrayBuffer => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0, offset = 44; i < samples.length; i++, offset += 2) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return buffer;
+};
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  const step = 0x8000;
+  for (let i = 0; i < bytes.length; i += step) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + step));
+  }
+  return btoa(binary);
+};
+
+const extractMonoAudio = async (file: File): Promise<Float32Array> => {
+  const encoded = await file.arrayBuffer();
+  // Decoding through an offline context resamples straight to the target rate
+  const ctx = new OfflineAudioContext(1, 1, TARGET_SAMPLE_RATE);
+
+  let audio: AudioBuffer;
+  try {
+    audio = await ctx.decodeAudioData(encoded);
+  } catch {
+    throw new Error("This video has no audio track the browser can decode.");
+  }
+
+  const mono = new Float32Array(audio.length);
+  for (let c = 0; c < audio.numberOfChannels; c++) {
+    const channel = audio.getChannelData(c);
+    for (let i = 0; i < channel.length; i++) mono[i] += channel[i] / audio.numberOfChannels;
+  }
+  return mono;
+};
+
+/**
+ * Extracts the audio track from the video as base64 WAV chunks small enough to send inline.
+ */
+export const extractAudioChunks = async (file: File): Promise<AudioChunk[]> => {
+  const samples = await extractMonoAudio(file);
+
+  const chunkLength = CHUNK_SECONDS * TARGET_SAMPLE_RATE;
+  const chunkCount = Math.max(1, Math.ceil(samples.length / chunkLength));
+  const chunks: AudioChunk[] = [];
+
+  for (let i = 0; i < chunkCount; i++) {
+    const chunk = samples.subarray(i * chunkLength, (i + 1) * chunkLength);
+    chunks.push({
+      offset: i * CHUNK_SECONDS,
+      duration: chunk.length / TARGET_SAMPLE_RATE,
+      wavBase64: arrayBufferToBase64(encodeWav(chunk, TARGET_SAMPLE_RATE)),
+    });
+  }
+  return chunks;
+};
+
+/**
+ * Splits the transcript into one narration excerpt per frame.
+ * Each frame owns the time from halfway after the previous frame to halfway before the next,
+ * so what the presenter says while leading up to and performing an action lands on that action's frame.
+ */
+export const alignTranscriptToFrames = (transcript: TranscriptSegment[], frames: CapturedFrame[]): string[] => {
+  // Windows follow each clip's timeline even when the author has reordered the frames.
+  // Imported images weren't taken from a video, so no narration belongs to them.
+  const sortedFrames = frames.filter(isVideoFrame).sort((a, b) => a.timestamp - b.timestamp);
+  const excerpts = new Map(sortedFrames.map(frame => {
+    const sameClip = sortedFrames.filter(f => f.videoId === frame.videoId);
+    const i = sameClip.indexOf(frame);
+    const prev = sameClip[i - 1];
+    const next = sameClip[i + 1];
+    const windowStart = prev ? (prev.timestamp + frame.timestamp) / 2 : 0;
+    const windowEnd = next ? (frame.timestamp + next.timestamp) / 2 : Infinity;
+
+    const text = transcript
+      .filter(seg => {
+        if (seg.videoId !== frame.videoId) return false;
+        // Assign each segment to the window containing its midpoint so it is never quoted twice
+        const mid = (seg.start + seg.end) / 2;
+        return mid >= windowStart && mid < windowEnd;
+      })
+      .map(seg => seg.text)
+      .join(' ');
+    return [frame.id, text] as const;
+  }));
+  return frames.map(frame => excerpts.get(frame.id) || '');
+};
+
+export const formatTimestamp = (seconds: number): string => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
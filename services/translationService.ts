@@ -0,0 +1,65 @@
+import { HandoutData, HandoutTranslation } from "../types";
+
+// Matched against the start of the language name or code the user typed
+const RTL_LANGUAGES = ['arabic', 'hebrew', 'persian', 'farsi', 'urdu', 'pashto', 'sindhi', 'yiddish', 'dhivehi', 'kurdish (sorani)', 'sorani', 'uyghur'];
+const RTL_CODES = ['ar', 'he', 'iw', 'fa', 'ur', 'ps', 'sd', 'yi', 'dv', 'ckb', 'ug'];
+
+export const isRtlLanguage = (language: string): boolean => {
+  const name = language.trim().toLowerCase();
+  const code = name.split(/[-_]/)[0];
+  return RTL_LANGUAGES.some(l => name.startsWith(l)) || RTL_CODES.includes(code);
+};
+
+/**
+ * Lays the translated text over the original's structure: step numbers and frame bindings come from
+ * `source`, text from `translated` by position. Anything missing from the translation keeps the original text.
+ */
+export const alignTranslation = (source: HandoutData, translated: HandoutData): HandoutData => ({
+  ...source,
+  title: translated.title || source.title,
+  summary: translated.summary || source.summary,
+  estimatedTime: source.estimatedTime && (translated.estimatedTime || source.estimatedTime),
+  prerequisites: source.prerequisites?.map((item, i) => translated.prerequisites?.[i] ?? item),
+  materials: source.materials?.map((item, i) => translated.materials?.[i] ?? item),
+  sections: source.sections?.map((section, i) => ({
+    ...section,
+    title: translated.sections?.[i]?.title || section.title,
+    summary: translated.sections?.[i]?.summary ?? section.summary,
+  })),
+  steps: source.steps.map((step, i) => {
+    const t = translated.steps[i];
+    if (!t) return step;
+    return {
+      ...step,
+      title: t.title || step.title,
+      description: t.description ?? step.description,
+      subSteps: step.subSteps?.map((sub, j) => t.subSteps?.[j] || sub),
+      // Callout types follow the original; only the wording is translated
+      callouts: step.callouts?.map((callout, j) => ({ ...callout, text: t.callouts?.[j]?.text || callout.text })),
+    };
+  }),
+  troubleshooting: source.troubleshooting?.map((item, i) => ({
+    problem: translated.troubleshooting?.[i]?.problem || item.problem,
+    solution: translated.troubleshooting?.[i]?.solution || item.solution,
+  })),
+  faq: source.faq?.map((item, i) => ({
+    question: translated.faq?.[i]?.question || item.question,
+    answer: translated.faq?.[i]?.answer || item.answer,
+  })),
+});
+
+const sameLength = (a?: unknown[], b?: unknown[]) => (a?.length || 0) === (b?.length || 0);
+
+// Steps or entries added to the original since it was translated. Deletions and reordering are applied to translations too.
+export const isTranslationOutdated = (source: HandoutData, translation: HandoutTranslation): boolean => {
+  const translated = translation.data;
+  return source.steps.length !== translated.steps.length
+    || translated.steps.some(step => !step.title)
+    || (translated.sections || []).some(section => !section.title)
+    || source.steps.some((step, i) => !sameLength(step.subSteps, translated.steps[i]?.subSteps) || !sameLength(step.callouts, translated.steps[i]?.callouts))
+    || !sameLength(source.prerequisites, translated.prerequisites)
+    || !sameLength(source.materials, translated.materials)
+    || !sameLength(source.sections, translated.sections)
+    || !sameLength(source.troubleshooting, translated.troubleshooting)
+    || !sameLength(source.faq, translated.faq);
+};
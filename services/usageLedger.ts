@@ -0,0 +1,193 @@
+import { AIProvider, AIProviderId, AITask, cancelledError, JsonRequest, TokenUsage } from "./providers";
+import { loadUsageSettings } from "./settingsService";
+import { estimateImageTokens, estimateTextTokens } from "./modelImages";
+
+const USAGE_LEDGER_KEY = 'vid-handout:usage-ledger';
+const MAX_ENTRIES = 2000; // Oldest calls are dropped beyond this; months of normal use
+const EXPECTED_OUTPUT_TOKENS = 2000; // For the estimate before a call; a full handout reply is about this long
+const AUDIO_BYTES_PER_TOKEN = 1000; // 16 kHz mono WAV at 32 tokens a second
+
+// One model call. Cache hits are recorded too, at no cost, so the panel shows what the cache saved.
+export interface UsageEntry {
+  id: string;
+  time: number;
+  projectId?: string;
+  task: AITask;
+  provider: AIProviderId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  cost: number | null; // US dollars; null when the model's price isn't known
+  cached?: boolean;
+  failed?: boolean;
+}
+
+export interface UsageTotals {
+  calls: number;
+  cachedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  unpricedCalls: number; // Calls to models without a known price, left out of `cost`
+}
+
+// List prices in US dollars per million tokens, matched by model name prefix. More specific names come first.
+const MODEL_PRICES: { prefix: string; input: number; output: number }[] = [
+  { prefix: 'gemini-2.5-flash-lite', input: 0.1, output: 0.4 },
+  { prefix: 'gemini-2.5-flash', input: 0.3, output: 2.5 },
+  { prefix: 'gemini-2.5-pro', input: 1.25, output: 10 },
+  { prefix: 'gemini-2.0-flash-lite', input: 0.075, output: 0.3 },
+  { prefix: 'gemini-2.0-flash', input: 0.1, output: 0.4 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4.1-nano', input: 0.1, output: 0.4 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 },
+];
+
+// Local models and the mock cost nothing per call
+const FREE_PROVIDERS: AIProviderId[] = ['local', 'mock'];
+
+let currentProjectId: string | null = null;
+// The month in which the user chose to carry on past the budget; they aren't asked again until the next one
+let overBudgetAcceptedFor: string | null = null;
+
+/** Calls from now on are attributed to this project (null between projects). */
+export const setUsageProject = (projectId: string | null) => {
+  currentProjectId = projectId;
+};
+
+export const loadUsage = (): UsageEntry[] => {
+  try {
+    const raw = localStorage.getItem(USAGE_LEDGER_KEY);
+    if (raw) return JSON.parse(raw) as UsageEntry[];
+  } catch (e) {
+    console.warn("Ignoring unreadable usage ledger:", e);
+  }
+  return [];
+};
+
+export const clearUsage = (): void => {
+  localStorage.removeItem(USAGE_LEDGER_KEY);
+};
+
+const recordUsage = (entry: Omit<UsageEntry, 'id' | 'time' | 'projectId'>) => {
+  const entries = [...loadUsage(), {
+    ...entry,
+    id: Math.random().toString(36).substr(2, 9),
+    time: Date.now(),
+    projectId: currentProjectId || undefined,
+  }];
+  try {
+    localStorage.setItem(USAGE_LEDGER_KEY, JSON.stringify(entries.slice(-MAX_ENTRIES)));
+  } catch (e) {
+    console.warn("Could not save usage ledger:", e);
+  }
+};
+
+export const estimateCost = (provider: AIProviderId, model: string, inputTokens: number, outputTokens: number): number | null => {
+  if (FREE_PROVIDERS.includes(provider)) return 0;
+  const price = MODEL_PRICES.find(p => model.toLowerCase().startsWith(p.prefix));
+  if (!price) return null;
+  return (inputTokens * price.input + outputTokens * price.output) / 1e6;
+};
+
+export const formatCost = (dollars: number): string =>
+  dollars === 0 ? '$0' : dollars < 0.01 ? `$${dollars.toFixed(4)}` : `$${dollars.toFixed(2)}`;
+
+const monthOf = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${date.getMonth() + 1}`;
+};
+
+export const totalUsage = (entries: UsageEntry[]): UsageTotals => entries.reduce<UsageTotals>((totals, e) => ({
+  calls: totals.calls + 1,
+  cachedCalls: totals.cachedCalls + (e.cached ? 1 : 0),
+  inputTokens: totals.inputTokens + e.inputTokens,
+  outputTokens: totals.outputTokens + e.outputTokens,
+  cost: totals.cost + (e.cost || 0),
+  unpricedCalls: totals.unpricedCalls + (e.cost === null ? 1 : 0),
+}), { calls: 0, cachedCalls: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpricedCalls: 0 });
+
+export const usageThisMonth = (entries: UsageEntry[] = loadUsage(), now = Date.now()): UsageEntry[] =>
+  entries.filter(e => monthOf(e.time) === monthOf(now));
+
+// Rough input size of a request: text by length, images by their size, audio by duration
+const estimateRequestTokens = (request: JsonRequest, provider: AIProviderId): number =>
+  request.parts.reduce((sum, part) => {
+    if (part.type === 'text') return sum + estimateTextTokens(part.text);
+    if (part.type === 'image') return sum + estimateImageTokens(part.width || 1024, part.height || 1024, provider);
+    return sum + Math.ceil((part.data.length * 0.75) / AUDIO_BYTES_PER_TOKEN);
+  }, estimateTextTokens(request.systemInstruction || '') + estimateTextTokens(JSON.stringify(request.schema)));
+
+// The app server doesn't say which model it uses until it answers, so the last one it reported stands in
+const expectedModel = (provider: AIProvider): string =>
+  provider.id === 'server' ? [...loadUsage()].reverse().find(e => e.provider === 'server')?.model || provider.model : provider.model;
+
+/**
+ * Asks before a call that would take this month's spending past the budget. Throws a cancelled error
+ * if the user declines; once they agree, the rest of the month's calls go ahead without asking.
+ */
+const confirmWithinBudget = (provider: AIProvider, request: JsonRequest) => {
+  const { monthlyBudget } = loadUsageSettings();
+  const month = monthOf(Date.now());
+  if (!monthlyBudget || overBudgetAcceptedFor === month) return;
+
+  const spent = totalUsage(usageThisMonth()).cost;
+  const estimate = estimateCost(provider.id, expectedModel(provider), estimateRequestTokens(request, provider.id), EXPECTED_OUTPUT_TOKENS) || 0;
+  if (spent + estimate <= monthlyBudget) return;
+
+  const proceed = window.confirm(
+    `This month's AI usage is ${formatCost(spent)} of your ${formatCost(monthlyBudget)} budget, and this request will cost about ${formatCost(estimate)} more.\n\nContinue anyway? You won't be asked again this month.`
+  );
+  if (!proceed) throw cancelledError();
+  overBudgetAcceptedFor = month;
+};
+
+/**
+ * Records every call in the usage ledger: tokens as the provider reports them (summed over retries),
+ * latency and estimated cost, under the current project. Checks the monthly budget first.
+ */
+export const withUsageLedger = (provider: AIProvider): AIProvider => ({
+  ...provider,
+  generateJson: async <T,>(request: JsonRequest) => {
+    confirmWithinBudget(provider, request);
+
+    const started = Date.now();
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, model: provider.model };
+    let replied = false;
+    const onUsage = (reply: TokenUsage) => {
+      replied = true;
+      usage.inputTokens += reply.inputTokens;
+      usage.outputTokens += reply.outputTokens;
+      usage.model = reply.model || usage.model;
+      request.onUsage?.(reply);
+    };
+    const record = (failed: boolean) => recordUsage({
+      task: request.task,
+      provider: provider.id,
+      model: usage.model || provider.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      latencyMs: Date.now() - started,
+      cost: estimateCost(provider.id, usage.model || provider.model, usage.inputTokens, usage.outputTokens),
+      failed: failed || undefined,
+    });
+
+    try {
+      const result = await provider.generateJson<T>({ ...request, onUsage });
+      record(false);
+      return result;
+    } catch (error) {
+      // Failed calls only cost something if a reply came back, e.g. one that didn't validate
+      if (replied) record(true);
+      throw error;
+    }
+  },
+});
+
+/** Records a reply served from the response cache instead of the model. */
+export const recordCacheHit = (provider: AIProvider, task: AITask, latencyMs: number) => {
+  recordUsage({ task, provider: provider.id, model: provider.model, inputTokens: 0, outputTokens: 0, latencyMs, cost: 0, cached: true });
+};
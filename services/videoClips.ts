@@ -0,0 +1,36 @@
+import { CapturedFrame, TranscriptSegment, VideoClip } from "../types";
+import { groupFrames, joinGroups } from "./frameGroups";
+
+export const createClip = (file: File): VideoClip => ({
+  id: Math.random().toString(36).substr(2, 9),
+  file,
+});
+
+export const clipName = (clip: VideoClip): string => clip.file.name.replace(/\.[^.]+$/, '') || clip.file.name;
+
+/**
+ * Puts steps back in playlist order after clips are reordered. Steps keep their order within a clip,
+ * and imported images stay attached to the step before them.
+ */
+export const orderFramesByClip = (frames: CapturedFrame[], videos: VideoClip[]): CapturedFrame[] => {
+  const clipIndex = new Map(videos.map((v, i) => [v.id, i]));
+  let current = 0;
+  const keyed = groupFrames(frames).map((group, position) => {
+    const clip = group.find(f => f.videoId && clipIndex.has(f.videoId));
+    if (clip) current = clipIndex.get(clip.videoId!)!;
+    return { group, clip: current, position };
+  });
+  return joinGroups(keyed
+    .sort((a, b) => a.clip - b.clip || a.position - b.position)
+    .map(k => k.group));
+};
+
+// Transcribing a clip again replaces only that clip's narration
+export const replaceClipTranscript = (
+  transcript: TranscriptSegment[] | null,
+  videoId: string,
+  segments: TranscriptSegment[]
+): TranscriptSegment[] => [
+  ...(transcript || []).filter(seg => seg.videoId !== videoId),
+  ...segments.map(seg => ({ ...seg, videoId })),
+];
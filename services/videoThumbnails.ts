@@ -0,0 +1,55 @@
+import { seekVideo } from "./sceneDetection";
+
+export interface TimelineThumbnail {
+  time: number; // Seconds into the video
+  dataUrl: string;
+}
+
+const THUMB_HEIGHT = 90; // Tall enough to double as the hover preview
+
+const loadVideo = (url: string): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.crossOrigin = 'anonymous';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("Could not load the video for thumbnails"));
+    video.src = url;
+  });
+};
+
+/**
+ * Grabs `count` evenly spaced thumbnails for the timeline. Uses its own video element so the
+ * player never jumps, and reports each thumbnail as it's ready so the strip fills in progressively.
+ */
+export const generateThumbnailStrip = async (
+  url: string,
+  count: number,
+  onThumbnail: (thumbnail: TimelineThumbnail, index: number) => void,
+  isCancelled: () => boolean = () => false
+): Promise<void> => {
+  const video = await loadVideo(url);
+  try {
+    if (!isFinite(video.duration) || video.duration <= 0) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.height = THUMB_HEIGHT;
+    canvas.width = Math.round((THUMB_HEIGHT * video.videoWidth) / video.videoHeight) || THUMB_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    for (let i = 0; i < count; i++) {
+      if (isCancelled()) return;
+      // Sample the middle of each slot so the first thumbnail isn't a black intro frame
+      const time = ((i + 0.5) * video.duration) / count;
+      await seekVideo(video, time);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      onThumbnail({ time, dataUrl: canvas.toDataURL('image/jpeg', 0.6) }, i);
+    }
+  } finally {
+    // Release the decoder straight away rather than waiting for garbage collection
+    video.removeAttribute('src');
+    video.load();
+  }
+};
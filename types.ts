@@ -1,21 +1,209 @@
+// Annotation geometry is stored as fractions (0..1) of the original image size,
+// so it stays correct whatever resolution the frame is rendered or exported at.
+export type Annotation =
+  | { id: string; type: 'arrow'; x1: number; y1: number; x2: number; y2: number; color: string }
+  | { id: string; type: 'rect'; x: number; y: number; width: number; height: number; color: string }
+  | { id: string; type: 'callout'; x: number; y: number; number: number; color: string }
+  | { id: string; type: 'text'; x: number; y: number; text: string; color: string; fontSize: number }
+  | { id: string; type: 'redact'; x: number; y: number; width: number; height: number; mode: 'blur' | 'pixelate'; label?: string };
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameAnnotations {
+  shapes: Annotation[];
+  crop?: CropRect;
+}
+
+export interface RedactionPattern {
+  id: string;
+  label: string;
+  pattern: string; // Regular expression source, matched case-insensitively against each OCR line
+  enabled: boolean;
+  builtIn?: boolean;
+}
+
+export interface RedactionSettings {
+  patterns: RedactionPattern[];
+  scanBeforeGenerate: boolean;
+}
+
+export type ModelImageFormat = 'image/jpeg' | 'image/webp';
+
+// How frames are shrunk before they're sent to the model. Frames themselves stay full size for print and export.
+export interface ModelImageSettings {
+  maxDimension: number; // Longest side in pixels; 0 sends frames at their full size
+  format: ModelImageFormat;
+  quality: number; // Encoder quality, 0..1
+  maxRequestMB: number; // Image data per request; larger frame sets are shrunk further or split into batches
+  maxRequestTokens: number; // Rough input budget per request, for models with small context windows
+}
+
+// Spending limit for model calls, checked before each call. Costs are estimates from list prices.
+export interface UsageSettings {
+  monthlyBudget: number; // US dollars per calendar month; 0 for no limit
+}
+
+export interface RedactionCandidate {
+  id: string;
+  frameId: string;
+  patternId: string;
+  label: string;
+  text: string;
+  box: CropRect; // Normalised to the frame image, like annotations
+}
+
+export type FrameSource = 'video' | 'image';
+
 export interface CapturedFrame {
   id: string;
   dataUrl: string; // Base64 image data
-  timestamp: number;
+  timestamp: number; // Seconds into its clip; 0 for imported images
   originalTimeFormatted: string;
+  source?: FrameSource; // Missing on frames saved before images could be imported, which all came from the video
+  fileName?: string; // Original name of an imported image
+  videoId?: string; // VideoClip.id of the clip a video frame was taken from
+  annotations?: FrameAnnotations; // Kept as vector data; only flattened into pixels for display and export
+  groupWithPrevious?: boolean; // Shown in the same step as the frame before it, e.g. a before/after pair
+}
+
+// One recording in a project's playlist; frames and narration refer to it by id
+export interface VideoClip {
+  id: string;
+  file: File;
+}
+
+// A stretch of one clip, from `start` until the next chapter in the same clip. Frames are selected and
+// written up chapter by chapter, and each chapter becomes a section of the handout.
+export interface Chapter {
+  id: string;
+  videoId: string; // VideoClip.id
+  start: number; // Seconds into the clip
+  title: string; // Empty until the author names it; the handout section then takes the model's title
+}
+
+export interface TranscriptSegment {
+  start: number; // Seconds into the clip
+  end: number;
+  text: string;
+  videoId?: string; // VideoClip.id of the clip this narration belongs to
+}
+
+export type CalloutType = 'tip' | 'note' | 'warning' | 'danger';
+
+export interface Callout {
+  type: CalloutType;
+  text: string;
 }
 
 export interface HandoutStep {
   stepNumber: number;
   title: string;
   description: string;
+  subSteps?: string[];
+  callouts?: Callout[];
+  // Handouts saved before callouts existed; normalizeHandout turns these into callouts on load
   tips?: string;
+  warning?: string;
+  frameIds: string[]; // CapturedFrame.id values illustrating this step
+  sectionId?: string; // HandoutSection.id; numbering restarts in every section
+}
+
+// A titled run of consecutive steps, e.g. one chapter of a long recording
+export interface HandoutSection {
+  id: string;
+  title: string;
+  summary: string;
 }
 
+export interface TroubleshootingItem {
+  problem: string;
+  solution: string;
+}
+
+export interface FaqItem {
+  question: string;
+  answer: string;
+}
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
 export interface HandoutData {
   title: string;
   summary: string;
+  estimatedTime?: string; // Free text, e.g. "10 minutes"
+  difficulty?: Difficulty;
+  prerequisites?: string[];
+  materials?: string[];
+  sections?: HandoutSection[]; // In reading order; steps refer to them by sectionId
   steps: HandoutStep[];
+  troubleshooting?: TroubleshootingItem[];
+  faq?: FaqItem[];
+}
+
+// A translated copy of the handout. Only its text is used: step order and images always come from the original.
+export interface HandoutTranslation {
+  language: string;
+  rtl: boolean;
+  data: HandoutData;
+}
+
+export type ReadingLevel = 'simple' | 'standard' | 'technical';
+
+export type Tone = 'friendly' | 'neutral' | 'formal';
+
+export type Verbosity = 'brief' | 'standard' | 'detailed';
+
+// How the handout should be written; chosen before generation and saved with the project
+export interface GenerationOptions {
+  audience: string;
+  readingLevel: ReadingLevel;
+  tone: Tone;
+  language: string;
+  verbosity: Verbosity;
+  includeTips: boolean; // Tip and note callouts
+  includeWarnings: boolean; // Warning and danger callouts
+  includeSubSteps: boolean;
+  includePrerequisites: boolean;
+  includeMaterials: boolean;
+  includeTroubleshooting: boolean;
+  includeFaq: boolean;
+}
+
+export type HandoutLayout = 'single' | 'grid' | 'imageLeft' | 'compact';
+
+export type PageSize = 'A4' | 'Letter';
+
+export interface HandoutTheme {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  layout: HandoutLayout;
+  pageSize: PageSize;
+  logo?: string; // Data URL
+  primaryColor: string; // Header rule and accents
+  badgeColor: string; // Step number badges
+  tipColor: string; // Tip callouts; background and text shades are derived from it. Other callout types have fixed colours.
+  headingFont: string; // Key into FONT_OPTIONS
+  bodyFont: string;
+  headerText: string;
+  footerText: string;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  renamed?: boolean; // Set once the user names the project, so the handout title no longer overrides it
+  createdAt: number;
+  updatedAt: number;
+  thumbnail: string; // Small JPEG data URL of the first frame
+  frameCount: number;
+  stepCount: number;
+  videoName?: string; // First clip's file name; missing for projects built from images only
 }
 
 export enum AppState {